@@ -5,23 +5,41 @@ import * as path from 'path';
 import * as http from 'http';
 import * as url from 'url';
 import { spawn } from 'child_process';
-import { load as yamlLoad } from 'js-yaml';
 import { MarkdownExporter, type FilenameFormat, type ExportFormat } from './exporter';
+import { StatsReporter, type StatsFormat } from './stats';
 import { DataParser } from '../src/lib/parser';
+import { QueryEngine, type QueryLanguage } from '../src/lib/query';
+import { JsonArrayStreamParser } from '../src/lib/stream-parser';
+import { SearchQuery, type QueryNode } from '../src/lib/search-query';
+import { IDLE_THRESHOLD } from '../src/lib/pacing';
+import type { ParsedData } from '../src/types/data';
 
 interface ServerOptions {
   port: number;
   filePath?: string;
+  // Viewer path to open, e.g. /c/<conversation-id>/m/<message-id>
+  openPath?: string;
 }
 
 interface CliOptions {
   exportDir?: string;
   filenameFormat: FilenameFormat;
   exportFormat: ExportFormat;
+  filter?: string;
   filePath?: string;
+  open?: string;
+  query?: string;
+  queryLanguage?: QueryLanguage;
+  queryFormat: QueryFormat;
+  stats?: boolean;
+  statsFormat: StatsFormat;
+  // Milliseconds
+  idleThreshold: number;
   showHelp?: boolean;
 }
 
+type QueryFormat = 'json' | 'csv';
+
 function main(): void {
   const options = parseArgs();
 
@@ -38,6 +56,30 @@ function main(): void {
     validatedFilePath = validateFilePath(options.filePath);
   }
 
+  // Query mode
+  if (options.query) {
+    if (!validatedFilePath) {
+      console.error('Error: File path is required when using --query option');
+      showHelp();
+      process.exit(1);
+    }
+
+    runQuery(validatedFilePath, options.query, options.queryLanguage, options.queryFormat);
+    return;
+  }
+
+  // Stats mode
+  if (options.stats) {
+    if (!validatedFilePath) {
+      console.error('Error: File path is required when using --stats option');
+      showHelp();
+      process.exit(1);
+    }
+
+    runStats(validatedFilePath, options.statsFormat, options.idleThreshold, parseFilter(options.filter));
+    return;
+  }
+
   // Export mode
   if (options.exportDir) {
     if (!validatedFilePath) {
@@ -46,25 +88,49 @@ function main(): void {
       process.exit(1);
     }
 
-    exportToMarkdown(validatedFilePath, options.exportDir, options.filenameFormat, options.exportFormat);
+    exportToMarkdown(validatedFilePath, options.exportDir, options.filenameFormat, options.exportFormat, parseFilter(options.filter));
     return;
   }
 
   // Server mode (default)
+  if (options.open && !validatedFilePath) {
+    console.error('Error: File path is required when using --open option');
+    showHelp();
+    process.exit(1);
+  }
+
   if (validatedFilePath) {
     console.log(`Starting SkimaLens with file: ${validatedFilePath}`);
   } else {
     console.log('Starting SkimaLens...');
   }
 
-  startServer({ port, filePath: validatedFilePath });
+  startServer({ port, filePath: validatedFilePath, openPath: options.open ? viewerPath(options.open) : undefined });
+}
+
+function parseFilter(filter: string | undefined): QueryNode | null {
+  try {
+    return SearchQuery.parse(filter ?? '');
+  } catch (error) {
+    console.error(`Error: Invalid --filter query: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+// Turns "<conversation-id>[/<message-id>]" into the viewer's deep-link path
+function viewerPath(target: string): string {
+  const [conversationId, messageId] = target.split('/');
+  return `/c/${encodeURIComponent(conversationId)}${messageId ? `/m/${encodeURIComponent(messageId)}` : ''}`;
 }
 
 function parseArgs(): CliOptions {
   const args = process.argv.slice(2);
   const options: CliOptions = {
     filenameFormat: 'title',
-    exportFormat: 'markdown'
+    exportFormat: 'markdown',
+    queryFormat: 'json',
+    statsFormat: 'text',
+    idleThreshold: IDLE_THRESHOLD
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -117,6 +183,94 @@ function parseArgs(): CliOptions {
       continue;
     }
 
+    if (arg === '--filter') {
+      if (i + 1 >= args.length) {
+        console.error('Error: --filter requires a search query');
+        process.exit(1);
+      }
+      options.filter = args[++i];
+      continue;
+    }
+
+    if (arg === '--open') {
+      if (i + 1 >= args.length) {
+        console.error('Error: --open requires a conversation ID (optionally followed by /<message-id>)');
+        process.exit(1);
+      }
+      options.open = args[++i];
+      continue;
+    }
+
+    if (arg === '--query') {
+      if (i + 1 >= args.length) {
+        console.error('Error: --query requires a JSONPath or JMESPath expression');
+        process.exit(1);
+      }
+      options.query = args[++i];
+      continue;
+    }
+
+    if (arg === '--query-language') {
+      if (i + 1 >= args.length) {
+        console.error('Error: --query-language requires a value (jsonpath or jmespath)');
+        process.exit(1);
+      }
+      const language = args[++i];
+      if (language !== 'jsonpath' && language !== 'jmespath') {
+        console.error('Error: --query-language must be either "jsonpath" or "jmespath"');
+        process.exit(1);
+      }
+      options.queryLanguage = language;
+      continue;
+    }
+
+    if (arg === '--query-format') {
+      if (i + 1 >= args.length) {
+        console.error('Error: --query-format requires a value (json or csv)');
+        process.exit(1);
+      }
+      const format = args[++i];
+      if (format !== 'json' && format !== 'csv') {
+        console.error('Error: --query-format must be either "json" or "csv"');
+        process.exit(1);
+      }
+      options.queryFormat = format;
+      continue;
+    }
+
+    if (arg === '--stats') {
+      options.stats = true;
+      continue;
+    }
+
+    if (arg === '--stats-format') {
+      if (i + 1 >= args.length) {
+        console.error('Error: --stats-format requires a value (text, json, or csv)');
+        process.exit(1);
+      }
+      const format = args[++i];
+      if (format !== 'text' && format !== 'json' && format !== 'csv') {
+        console.error('Error: --stats-format must be either "text", "json", or "csv"');
+        process.exit(1);
+      }
+      options.statsFormat = format;
+      continue;
+    }
+
+    if (arg === '--idle-threshold') {
+      if (i + 1 >= args.length) {
+        console.error('Error: --idle-threshold requires a number of minutes');
+        process.exit(1);
+      }
+      const minutes = Number(args[++i]);
+      if (!(minutes > 0)) {
+        console.error('Error: --idle-threshold must be a positive number of minutes');
+        process.exit(1);
+      }
+      options.idleThreshold = minutes * 60 * 1000;
+      continue;
+    }
+
     if (arg.startsWith('--')) {
       console.error(`Error: Unknown option: ${arg}`);
       showHelp();
@@ -144,8 +298,8 @@ function validateFilePath(filePath: string): string {
   }
 
   const ext = path.extname(fullPath).toLowerCase();
-  if (!['.json', '.yaml', '.yml'].includes(ext)) {
-    console.error(`Error: Unsupported file type. Please use .json, .yaml, or .yml files.`);
+  if (!['.json', '.jsonl', '.ndjson', '.yaml', '.yml', '.zip'].includes(ext)) {
+    console.error(`Error: Unsupported file type. Please use .json, .jsonl, .ndjson, .yaml, .yml, or .zip files.`);
     process.exit(1);
   }
 
@@ -156,48 +310,50 @@ async function exportToMarkdown(
   filePath: string,
   exportDir: string,
   filenameFormat: FilenameFormat,
-  exportFormat: ExportFormat
+  exportFormat: ExportFormat,
+  filter: QueryNode | null
 ): Promise<void> {
   try {
-    console.log(`Reading file: ${filePath}`);
-    const content = fs.readFileSync(filePath, 'utf-8');
-
-    // Parse file
-    const ext = path.extname(filePath).toLowerCase();
-    let data: unknown;
+    const exporter = new MarkdownExporter({
+      outputDir: exportDir,
+      filenameFormat,
+      exportFormat,
+      filter
+    });
 
-    if (ext === '.json') {
-      data = JSON.parse(content);
-    } else {
-      data = yamlLoad(content);
+    // Conversation arrays are exported element by element so files beyond the
+    // maximum string length still work
+    if (isJsonArrayFile(filePath)) {
+      console.log(`Streaming file: ${filePath}`);
+      if (await exporter.exportStream(fs.createReadStream(filePath))) {
+        console.log(`\nExport completed successfully to: ${path.resolve(exportDir)}`);
+        return;
+      }
     }
 
-    // Detect data type
-    const uploadResult = {
-      filename: path.basename(filePath),
-      content,
-      type: ext === '.json' ? 'json' as const : 'yaml' as const,
-      size: content.length,
-      lastModified: new Date()
-    };
-
-    const parsed = DataParser.parseData(uploadResult);
+    console.log(`Reading file: ${filePath}`);
+    const parsed = readDataFile(filePath);
     console.log(`Detected data type: ${parsed.type}`);
 
-    if (parsed.type !== 'claude-conversation' && parsed.type !== 'chatgpt-conversation') {
+    if (parsed.metadata.archive) {
+      console.log(`Conversation files: ${parsed.metadata.archive.conversationFiles.join(', ')}`);
+      for (const extra of parsed.metadata.archive.extras) {
+        console.log(`  + ${extra.label}: ${extra.filename}`);
+      }
+    }
+
+    if (
+      parsed.type !== 'claude-conversation' &&
+      parsed.type !== 'chatgpt-conversation' &&
+      parsed.type !== 'claude-code-session' &&
+      parsed.type !== 'api-log'
+    ) {
       console.error(`Error: Unsupported data type for export: ${parsed.type}`);
-      console.error('Only Claude and ChatGPT conversations can be exported.');
+      console.error('Only Claude, ChatGPT, Claude Code and API log conversations can be exported.');
       process.exit(1);
     }
 
-    // Export
-    const exporter = new MarkdownExporter({
-      outputDir: exportDir,
-      filenameFormat,
-      exportFormat
-    });
-
-    await exporter.export(data, parsed.type);
+    await exporter.export(parsed.raw, parsed.type);
     console.log(`\nExport completed successfully to: ${path.resolve(exportDir)}`);
   } catch (error) {
     console.error(`Error during export: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -205,6 +361,67 @@ async function exportToMarkdown(
   }
 }
 
+// Results go to stdout so they can be piped; diagnostics go to stderr
+function runQuery(filePath: string, expression: string, language: QueryLanguage | undefined, format: QueryFormat): void {
+  try {
+    const parsed = readDataFile(filePath);
+    const result = QueryEngine.run(parsed.raw, expression, language);
+    console.error(`${result.values.length} result(s) from ${result.language} query on ${parsed.type} data`);
+    process.stdout.write((format === 'csv' ? QueryEngine.toCSV(result) : QueryEngine.toJSON(result)) + '\n');
+  } catch (error) {
+    console.error(`Error during query: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+// Like --query, the report goes to stdout and diagnostics to stderr
+function runStats(filePath: string, format: StatsFormat, idleThreshold: number, filter: QueryNode | null): void {
+  try {
+    const parsed = readDataFile(filePath);
+    const reporter = new StatsReporter({ format, idleThreshold, filter });
+    const report = reporter.report(parsed.raw, parsed.type);
+    console.error(`Pacing stats for ${parsed.type} data${reporter.skipped > 0 ? ` (${reporter.skipped} conversation(s) not matching --filter skipped)` : ''}`);
+    process.stdout.write(report + '\n');
+  } catch (error) {
+    console.error(`Error during stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+function isJsonArrayFile(filePath: string): boolean {
+  if (path.extname(filePath).toLowerCase() !== '.json') return false;
+
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const head = Buffer.alloc(1024);
+    const bytesRead = fs.readSync(fd, head, 0, head.length, 0);
+    return JsonArrayStreamParser.isArrayStart(head.toString('utf-8', 0, bytesRead));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function readDataFile(filePath: string): ParsedData {
+  const filename = path.basename(filePath);
+  const ext = path.extname(filePath).toLowerCase();
+
+  if (ext === '.zip') {
+    const buffer = fs.readFileSync(filePath);
+    return DataParser.parseArchive(new Uint8Array(buffer), filename, buffer.length, fs.statSync(filePath).mtime);
+  }
+
+  // Sizes are in bytes on disk; the decoded string is shorter for non-ASCII text
+  const stats = fs.statSync(filePath);
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return DataParser.parseData({
+    filename,
+    content,
+    type: DataParser.determineFileType(filename, content),
+    size: stats.size,
+    lastModified: stats.mtime
+  });
+}
+
 function showHelp(): void {
   console.log(`
 SkimaLens - Claude and ChatGPT conversation viewer and exporter
@@ -221,12 +438,37 @@ OPTIONS:
   --filename-format <title|id>      Set filename format for exported files (default: title)
                                     - title: Use conversation title as filename
                                     - id: Use conversation ID as filename
+  --filter <query>                  Only export (or report on) conversations matching a search query
+                                    (same syntax as the viewer: "phrase", /regex/,
+                                    sender:, has:attachment, has:feedback, before:,
+                                    after:, title:, AND/OR/NOT)
+  --open <conversation-id>[/<message-id>]
+                                    Open the viewer at a conversation (and message)
+  --query <expression>              Run a JSONPath or JMESPath query and print the results
+  --query-language <jsonpath|jmespath>
+                                    Set query language (default: jsonpath if the
+                                    expression starts with "$", otherwise jmespath)
+  --query-format <json|csv>         Set query output format (default: json)
+  --stats                           Print pacing stats per conversation: reply time,
+                                    think time between turns, idle gaps and sessions
+  --stats-format <text|json|csv>    Set stats output format (default: text)
+  --idle-threshold <minutes>        Pause that counts as an idle gap and starts a new
+                                    session (default: 30)
   -h, --help                        Show this help message
 
 EXAMPLES:
   # Start web viewer with a conversation file
   skimalens conversations.json
 
+  # Open an official Claude or ChatGPT export archive directly
+  skimalens data-export.zip
+
+  # Open a conversation and scroll to one of its messages
+  skimalens --open 0f3c2a1e-.../9b7d4c2f-... conversations.json
+
+  # Open a Claude Code session transcript
+  skimalens ~/.claude/projects/my-project/session.jsonl
+
   # Export conversations as Markdown using titles as filenames (default)
   skimalens --export ./output conversations.json
 
@@ -236,13 +478,28 @@ EXAMPLES:
   # Export conversations as formatted YAML with ID-based filenames
   skimalens --export ./output --export-format yaml --filename-format id conversations.json
 
+  # Export only conversations from 2024 that received feedback
+  skimalens --export ./output --filter 'has:feedback after:2024-01-01 before:2025-01-01' conversations.json
+
+  # Find attachments larger than 1MB with JSONPath
+  skimalens --query '$..attachments[?(@.file_size > 1048576)]' conversations.json
+
+  # List conversation titles with JMESPath as CSV
+  skimalens --query '[].{id: uuid, name: name}' --query-format csv conversations.json
+
+  # Show reply times, idle gaps and sessions per conversation
+  skimalens --stats conversations.json
+
+  # Pacing stats as CSV, splitting sessions after 2 hours of inactivity
+  skimalens --stats --stats-format csv --idle-threshold 120 conversations.json > pacing.csv
+
   # Start web viewer without a file (upload file in browser)
   skimalens
 `);
 }
 
 function startServer(options: ServerOptions): void {
-  const { port, filePath } = options;
+  const { port, filePath, openPath = '/' } = options;
   const distPath = path.join(__dirname, '..', 'dist');
   
   // Check if build exists
@@ -278,7 +535,10 @@ function startServer(options: ServerOptions): void {
       console.log(`Reading file: ${filePath}`);
       const fileName = path.basename(filePath);
       
-      fs.readFile(filePath, 'utf-8', (error, fileContent) => {
+      // ZIP archives are binary, so send them base64-encoded
+      const isArchive = path.extname(filePath).toLowerCase() === '.zip';
+
+      fs.readFile(filePath, (error, buffer) => {
         if (error) {
           console.error(`Error reading file: ${error}`);
           res.writeHead(500, { 'Content-Type': 'application/json' });
@@ -286,12 +546,19 @@ function startServer(options: ServerOptions): void {
           return;
         }
 
+        const fileContent = isArchive ? buffer.toString('base64') : buffer.toString('utf-8');
         console.log(`File read successfully, length: ${fileContent.length}`);
         res.writeHead(200, { 
           'Content-Type': 'application/json',
           'X-Filename': fileName
         });
-        res.end(JSON.stringify({ content: fileContent, filename: fileName }));
+        res.end(JSON.stringify({
+          content: fileContent,
+          filename: fileName,
+          size: buffer.length,
+          lastModified: fs.statSync(filePath).mtime.toISOString(),
+          ...(isArchive && { encoding: 'base64' })
+        }));
       });
       return;
     }
@@ -332,8 +599,12 @@ function startServer(options: ServerOptions): void {
   });
 
   server.listen(port, () => {
-    const url = `http://localhost:${port}${filePath ? `/?file=cli-provided` : ''}`;
+    const url = `http://localhost:${port}${openPath}${filePath ? `?file=cli-provided` : ''}`;
     console.log(`SkimaLens server started at ${url}`);
+    if (filePath) {
+      // Links keep the file parameter so they can be opened directly while the server runs
+      console.log(`Link to a conversation with http://localhost:${port}/c/<conversation-id>/m/<message-id>?file=cli-provided`);
+    }
     
     // Open browser after a short delay
     setTimeout(() => {
@@ -7,9 +7,18 @@ import type {
   ChatGPTConversation,
   ChatGPTConversations,
   ClaudeChatMessage,
-  ChatGPTMessage
+  ClaudeCodeEvent,
+  ApiConversation,
+  MessageContent,
+  ChatGPTThreadMessage,
+  ChatGPTMessageContent,
+  ChatGPTImageAssetPointer
 } from '../src/types/data';
 import { DataParser } from '../src/lib/parser';
+import { ClaudeCodeSessions } from '../src/lib/claude-code';
+import { ApiLogs } from '../src/lib/api-logs';
+import { JsonArrayStreamParser } from '../src/lib/stream-parser';
+import { SearchQuery, type QueryNode } from '../src/lib/search-query';
 
 export type FilenameFormat = 'title' | 'id';
 export type ExportFormat = 'markdown' | 'json' | 'yaml';
@@ -18,10 +27,13 @@ export interface ExportOptions {
   outputDir: string;
   filenameFormat: FilenameFormat;
   exportFormat: ExportFormat;
+  // Conversations not matching this search query are skipped
+  filter?: QueryNode | null;
 }
 
 export class MarkdownExporter {
   private options: ExportOptions;
+  private filteredOut = 0;
 
   constructor(options: ExportOptions) {
     this.options = options;
@@ -37,9 +49,71 @@ export class MarkdownExporter {
       await this.exportClaudeData(data);
     } else if (dataType === 'chatgpt-conversation') {
       await this.exportChatGPTData(data);
+    } else if (dataType === 'claude-code-session') {
+      await this.exportClaudeCodeData(data);
+    } else if (dataType === 'api-log') {
+      await this.exportApiLogData(data);
     } else {
       throw new Error(`Unsupported data type for export: ${dataType}`);
     }
+    this.reportFiltered();
+  }
+
+  /**
+   * Export a top-level array of conversations as it is read, one element at a time.
+   * Used for files too large to load into a single string. Resolves to false without
+   * writing anything if the first element is not a conversation, so the caller can
+   * fall back to the regular export.
+   */
+  async exportStream(stream: AsyncIterable<Uint8Array | string>): Promise<boolean> {
+    let isConversationArray = true;
+    let skipped = 0;
+
+    const parser = new JsonArrayStreamParser((item, index) => {
+      // The rest of a chunk still arrives after the first item ruled the array out
+      if (!isConversationArray) return;
+
+      const itemType = DataParser.detectDataType(item, '');
+      if (index === 0) {
+        isConversationArray = itemType === 'claude-conversation' || itemType === 'chatgpt-conversation';
+        if (!isConversationArray) return;
+
+        this.ensureDirectory(this.options.outputDir);
+        console.log(`Streaming ${itemType === 'claude-conversation' ? 'Claude' : 'ChatGPT'} conversations as ${this.options.exportFormat.toUpperCase()}...`);
+      }
+
+      if (itemType === 'claude-conversation') {
+        this.exportSingleClaudeConversation(item as ClaudeConversation);
+      } else if (itemType === 'chatgpt-conversation') {
+        this.exportSingleChatGPTConversation(item as ChatGPTConversation);
+      } else {
+        skipped++;
+        console.warn(`  ! Skipped item ${index + 1}: not a Claude or ChatGPT conversation`);
+      }
+    });
+
+    for await (const chunk of stream) {
+      parser.push(chunk);
+      if (!isConversationArray) return false;
+    }
+    parser.end();
+
+    if (parser.itemCount === 0) return false;
+    console.log(`Exported ${parser.itemCount - skipped - this.filteredOut} of ${parser.itemCount} conversations`);
+    this.reportFiltered();
+    return true;
+  }
+
+  private matchesFilter(conversation: ClaudeConversation | ChatGPTConversation): boolean {
+    if (SearchQuery.matchesConversation(this.options.filter ?? null, conversation)) return true;
+    this.filteredOut++;
+    return false;
+  }
+
+  private reportFiltered(): void {
+    if (this.filteredOut > 0) {
+      console.log(`Skipped ${this.filteredOut} conversation${this.filteredOut !== 1 ? 's' : ''} not matching --filter`);
+    }
   }
 
   private async exportClaudeData(data: unknown): Promise<void> {
@@ -61,7 +135,27 @@ export class MarkdownExporter {
     }
   }
 
+  private async exportClaudeCodeData(data: unknown): Promise<void> {
+    const sessions = ClaudeCodeSessions.groupSessions(data as ClaudeCodeEvent[]);
+    console.log(`Exporting ${sessions.length} Claude Code sessions as ${this.options.exportFormat.toUpperCase()}...`);
+
+    for (const session of sessions) {
+      this.exportSingleClaudeConversation(session);
+    }
+  }
+
+  private async exportApiLogData(data: unknown): Promise<void> {
+    const conversations = ApiLogs.toConversations(data);
+    console.log(`Exporting ${conversations.length} API calls as ${this.options.exportFormat.toUpperCase()}...`);
+
+    for (const conversation of conversations) {
+      this.exportSingleClaudeConversation(conversation);
+    }
+  }
+
   private exportSingleClaudeConversation(conversation: ClaudeConversation): void {
+    if (!this.matchesFilter(conversation)) return;
+
     const filename = this.generateFilename(
       conversation.name,
       conversation.uuid,
@@ -107,6 +201,8 @@ export class MarkdownExporter {
   }
 
   private exportSingleChatGPTConversation(conversation: ChatGPTConversation): void {
+    if (!this.matchesFilter(conversation)) return;
+
     const filename = this.generateFilename(
       conversation.title,
       conversation.id,
@@ -141,6 +237,9 @@ export class MarkdownExporter {
     lines.push(`**Created:** ${this.formatDate(conversation.created_at)}`);
     lines.push(`**Updated:** ${this.formatDate(conversation.updated_at)}`);
     lines.push(`**ID:** ${conversation.uuid}`);
+    if ('api_metadata' in conversation) {
+      lines.push(...this.convertApiMetadata((conversation as ApiConversation).api_metadata));
+    }
     lines.push('');
     lines.push('---');
     lines.push('');
@@ -156,7 +255,9 @@ export class MarkdownExporter {
 
   private convertClaudeMessage(message: ClaudeChatMessage): string {
     const lines: string[] = [];
-    const sender = message.sender === 'human' ? 'Human' : 'Assistant';
+    const sender = DataParser.isClaudeToolResultMessage(message)
+      ? 'Tool result'
+      : message.sender === 'human' ? 'Human' : 'Assistant';
 
     // Message header
     lines.push(`## ${sender} (${this.formatDate(message.created_at)})`);
@@ -179,6 +280,9 @@ export class MarkdownExporter {
         } else if (content.type === 'text' && content.text && content.text !== message.text) {
           lines.push(content.text);
           lines.push('');
+        } else if (content.type === 'tool_use' || content.type === 'tool_result') {
+          lines.push(...this.convertClaudeToolBlock(content));
+          lines.push('');
         }
       }
     }
@@ -226,6 +330,41 @@ export class MarkdownExporter {
     return lines.join('\n');
   }
 
+  private convertApiMetadata(metadata: ApiConversation['api_metadata']): string[] {
+    const lines: string[] = [];
+    if (metadata.model) lines.push(`**Model:** ${metadata.model}`);
+    if (metadata.usage) {
+      lines.push(`**Tokens:** ${metadata.usage.input_tokens ?? '?'} in / ${metadata.usage.output_tokens ?? '?'} out`);
+    }
+    if (metadata.stop_reason) lines.push(`**Stop reason:** ${metadata.stop_reason}`);
+    if (metadata.system) {
+      lines.push('');
+      lines.push('### System prompt');
+      lines.push('');
+      lines.push(...this.blockquote(metadata.system));
+    }
+    return lines;
+  }
+
+  private convertClaudeToolBlock(content: MessageContent): string[] {
+    if (content.type === 'tool_use') {
+      return [
+        `### Tool: ${content.name ?? 'unknown'}`,
+        '',
+        ...this.codeFence(JSON.stringify(content.input ?? {}, null, 2), 'json')
+      ];
+    }
+
+    const output = typeof content.content === 'string'
+      ? content.content
+      : (content.content ?? []).map(part => part.text ?? `[${part.type}]`).join('\n');
+    return [
+      content.is_error ? '### Tool error' : '### Tool output',
+      '',
+      ...this.codeFence(output)
+    ];
+  }
+
   private convertChatGPTToMarkdown(conversation: ChatGPTConversation): string {
     const lines: string[] = [];
 
@@ -242,35 +381,42 @@ export class MarkdownExporter {
     lines.push('---');
     lines.push('');
 
-    // Extract and sort messages
-    const messages = DataParser.extractChatGPTMessages(conversation);
+    // Follow the canonical thread (current_node) rather than every branch
+    const thread = DataParser.extractChatGPTThread(conversation);
 
     // Messages
-    for (const message of messages) {
-      lines.push(this.convertChatGPTMessage(message));
+    for (const entry of thread) {
+      lines.push(this.convertChatGPTMessage(entry));
       lines.push('');
     }
 
     return lines.join('\n');
   }
 
-  private convertChatGPTMessage(message: ChatGPTMessage): string {
+  private convertChatGPTMessage(entry: ChatGPTThreadMessage): string {
     const lines: string[] = [];
-    const role = message.author.role === 'user' ? 'User' : 'Assistant';
+    const message = entry.message;
+    const role = message.author.role === 'user'
+      ? 'User'
+      : message.author.role === 'tool'
+        ? `Tool (${DataParser.getChatGPTToolName(message)})`
+        : DataParser.isChatGPTToolMessage(message)
+          ? `Assistant → ${message.recipient}`
+          : 'Assistant';
 
     // Message header
     const timestamp = message.create_time ? this.formatTimestamp(message.create_time) : 'Unknown';
     lines.push(`## ${role} (${timestamp})`);
     lines.push('');
 
+    if (entry.siblingIds.length > 1) {
+      lines.push(`*Branch ${entry.siblingIndex + 1} of ${entry.siblingIds.length}*`);
+      lines.push('');
+    }
+
     // Content
-    if (message.content?.parts) {
-      for (const part of message.content.parts) {
-        if (typeof part === 'string' && part.trim()) {
-          lines.push(part);
-          lines.push('');
-        }
-      }
+    if (message.content) {
+      lines.push(...this.convertChatGPTContent(message.content));
     }
 
     // Metadata if present
@@ -290,6 +436,94 @@ export class MarkdownExporter {
     return lines.join('\n');
   }
 
+  private convertChatGPTContent(content: ChatGPTMessageContent): string[] {
+    const lines: string[] = [];
+
+    switch (content.content_type) {
+      case 'text':
+        for (const part of content.parts) {
+          if (typeof part === 'string' && part.trim()) {
+            lines.push(part);
+            lines.push('');
+          }
+        }
+        break;
+      case 'code':
+        lines.push(...this.codeFence(content.text, content.language === 'unknown' ? '' : content.language));
+        lines.push('');
+        break;
+      case 'execution_output':
+        lines.push('**Output:**');
+        lines.push(...this.codeFence(content.text));
+        lines.push('');
+        break;
+      case 'multimodal_text':
+        for (const part of content.parts) {
+          if (typeof part === 'string') {
+            if (part.trim()) {
+              lines.push(part);
+              lines.push('');
+            }
+          } else if (part.content_type === 'image_asset_pointer') {
+            const pointer = part as ChatGPTImageAssetPointer;
+            const size = pointer.width && pointer.height ? `, ${pointer.width}x${pointer.height}` : '';
+            lines.push(`*[Image: ${pointer.asset_pointer}${size}]*`);
+            lines.push('');
+          }
+        }
+        break;
+      case 'tether_browsing_display':
+        lines.push('**Browsing result:**');
+        lines.push('');
+        if (content.summary) {
+          lines.push(...this.blockquote(content.summary));
+          lines.push('');
+        }
+        if (content.result) {
+          lines.push(...this.blockquote(content.result));
+          lines.push('');
+        }
+        break;
+      case 'tether_quote':
+        lines.push(`**Quote from [${content.title || content.domain}](${content.url}):**`);
+        lines.push('');
+        lines.push(...this.blockquote(content.text));
+        lines.push('');
+        break;
+      case 'user_editable_context':
+        if (content.user_profile) {
+          lines.push('**User profile:**');
+          lines.push('');
+          lines.push(...this.blockquote(content.user_profile));
+          lines.push('');
+        }
+        if (content.user_instructions) {
+          lines.push('**Response instructions:**');
+          lines.push('');
+          lines.push(...this.blockquote(content.user_instructions));
+          lines.push('');
+        }
+        break;
+      case 'system_error':
+        lines.push(`**System error (${content.name}):** ${content.text}`);
+        lines.push('');
+        break;
+    }
+
+    return lines;
+  }
+
+  private codeFence(text: string, language = ''): string[] {
+    // Use a fence longer than any backtick run inside the text
+    const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return [`${fence}${language}`, text, fence];
+  }
+
+  private blockquote(text: string): string[] {
+    return text.split('\n').map(line => line ? `> ${line}` : '>');
+  }
+
   private generateFilename(title: string, id: string, format: FilenameFormat, exportFormat: ExportFormat): string {
     const baseName = format === 'title' ? this.sanitizeFilename(title) : id;
     const extension = exportFormat === 'markdown' ? 'md' : exportFormat;
@@ -329,6 +563,7 @@ export class MarkdownExporter {
   private formatDate(dateString: string): string {
     try {
       const date = new Date(dateString);
+      if (isNaN(date.getTime())) return 'Unknown time';
       return date.toLocaleString('en-US', {
         year: 'numeric',
         month: '2-digit',
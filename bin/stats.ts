@@ -0,0 +1,218 @@
+import type {
+  ClaudeConversation,
+  ChatGPTConversation,
+  ClaudeCodeEvent
+} from '../src/types/data';
+import { DataParser } from '../src/lib/parser';
+import { ClaudeCodeSessions } from '../src/lib/claude-code';
+import { ApiLogs } from '../src/lib/api-logs';
+import { Timeline } from '../src/lib/timeline';
+import { Pacing, type DurationSummary, type PacingReport } from '../src/lib/pacing';
+import { SearchQuery, type QueryNode } from '../src/lib/search-query';
+import { formatDuration, toCsv } from '../src/lib/utils';
+
+export type StatsFormat = 'text' | 'json' | 'csv';
+
+export interface StatsOptions {
+  format: StatsFormat;
+  // Pauses at least this long (ms) count as idle gaps and split sessions
+  idleThreshold: number;
+  filter?: QueryNode | null;
+}
+
+interface ConversationStats {
+  id: string;
+  title: string;
+  pacing: PacingReport;
+}
+
+const TITLE_WIDTH = 40;
+
+/**
+ * Pacing report for the CLI: reply times, think times, idle gaps and sessions for every
+ * conversation, plus the same figures over the whole file.
+ */
+export class StatsReporter {
+  private options: StatsOptions;
+  private filteredOut = 0;
+
+  constructor(options: StatsOptions) {
+    this.options = options;
+  }
+
+  get skipped(): number {
+    return this.filteredOut;
+  }
+
+  report(data: unknown, dataType: string): string {
+    const stats = this.toConversations(data, dataType)
+      .filter(conversation => this.matchesFilter(conversation))
+      .map((conversation): ConversationStats => ({
+        id: DataParser.getConversationId(conversation),
+        title: ('name' in conversation ? conversation.name : conversation.title) || 'Untitled',
+        pacing: Pacing.analyze(Timeline.timedMessages(conversation), this.options.idleThreshold)
+      }));
+
+    switch (this.options.format) {
+      case 'json':
+        return JSON.stringify(this.toJSON(stats), null, 2);
+      case 'csv':
+        return this.toCSV(stats);
+      case 'text':
+        return this.toText(stats);
+    }
+  }
+
+  private toConversations(data: unknown, dataType: string): (ClaudeConversation | ChatGPTConversation)[] {
+    if (dataType === 'claude-conversation') {
+      const validated = DataParser.validateClaudeConversation(data);
+      return Array.isArray(validated) ? validated : [validated];
+    }
+    if (dataType === 'chatgpt-conversation') {
+      const validated = DataParser.validateChatGPTConversation(data);
+      return Array.isArray(validated) ? validated : [validated];
+    }
+    if (dataType === 'claude-code-session') {
+      return ClaudeCodeSessions.groupSessions(data as ClaudeCodeEvent[]);
+    }
+    if (dataType === 'api-log') {
+      return ApiLogs.toConversations(data);
+    }
+    throw new Error(`Unsupported data type for stats: ${dataType}`);
+  }
+
+  private matchesFilter(conversation: ClaudeConversation | ChatGPTConversation): boolean {
+    if (SearchQuery.matchesConversation(this.options.filter ?? null, conversation)) return true;
+    this.filteredOut++;
+    return false;
+  }
+
+  private overall(stats: ConversationStats[]) {
+    return {
+      conversations: stats.length,
+      messages: stats.reduce((sum, { pacing }) => sum + pacing.messageCount, 0),
+      responseTime: Pacing.summarize(stats.flatMap(({ pacing }) => pacing.responseTimes)),
+      thinkTime: Pacing.summarize(stats.flatMap(({ pacing }) => pacing.thinkTimes)),
+      idleGaps: stats.reduce((sum, { pacing }) => sum + pacing.idleGaps.length, 0),
+      sessions: stats.reduce((sum, { pacing }) => sum + pacing.sessions.length, 0)
+    };
+  }
+
+  private toJSON(stats: ConversationStats[]) {
+    return {
+      idleThresholdMs: this.options.idleThreshold,
+      overall: this.overall(stats),
+      conversations: stats.map(({ id, title, pacing }) => ({
+        id,
+        title,
+        messages: pacing.messageCount,
+        start: pacing.start !== undefined ? new Date(pacing.start).toISOString() : null,
+        end: pacing.end !== undefined ? new Date(pacing.end).toISOString() : null,
+        responseTime: Pacing.summarize(pacing.responseTimes),
+        thinkTime: Pacing.summarize(pacing.thinkTimes),
+        idleGaps: pacing.idleGaps.map(gap => ({
+          afterMessageId: gap.previousMessageId,
+          beforeMessageId: gap.messageId,
+          start: new Date(gap.start).toISOString(),
+          durationMs: gap.duration
+        })),
+        sessions: pacing.sessions.map(session => ({
+          start: new Date(session.start).toISOString(),
+          end: new Date(session.end).toISOString(),
+          messages: session.messageCount
+        }))
+      }))
+    };
+  }
+
+  // One row per conversation; durations in milliseconds so spreadsheets can aggregate them
+  private toCSV(stats: ConversationStats[]): string {
+    return toCsv(
+      [
+        'id', 'title', 'messages', 'start', 'end',
+        'replies', 'median_reply_ms', 'p90_reply_ms', 'max_reply_ms',
+        'think_turns', 'median_think_ms', 'p90_think_ms',
+        'idle_gaps', 'longest_gap_ms', 'sessions'
+      ],
+      stats.map(({ id, title, pacing }) => {
+        const response = Pacing.summarize(pacing.responseTimes);
+        const think = Pacing.summarize(pacing.thinkTimes);
+        return [
+          id,
+          title,
+          pacing.messageCount,
+          pacing.start !== undefined ? new Date(pacing.start).toISOString() : '',
+          pacing.end !== undefined ? new Date(pacing.end).toISOString() : '',
+          response?.count ?? 0,
+          response?.median,
+          response?.p90,
+          response?.max,
+          think?.count ?? 0,
+          think?.median,
+          think?.p90,
+          pacing.idleGaps.length,
+          this.longestGap(pacing),
+          pacing.sessions.length
+        ];
+      })
+    );
+  }
+
+  private toText(stats: ConversationStats[]): string {
+    const overall = this.overall(stats);
+    const lines = [
+      `Conversations: ${overall.conversations}   Messages: ${overall.messages}   Idle threshold: ${this.options.idleThreshold / 60000} min`,
+      '',
+      `${'Overall'.padEnd(14)}${'count'.padStart(8)}${'median'.padStart(10)}${'p90'.padStart(10)}${'max'.padStart(10)}`,
+      this.summaryLine('Reply time', overall.responseTime),
+      this.summaryLine('Think time', overall.thinkTime),
+      `${'Idle gaps'.padEnd(14)}${String(overall.idleGaps).padStart(8)}`,
+      `${'Sessions'.padEnd(14)}${String(overall.sessions).padStart(8)}`
+    ];
+
+    if (stats.length > 0) {
+      lines.push(
+        '',
+        `${'Conversation'.padEnd(TITLE_WIDTH)}${'msgs'.padStart(7)}${'reply'.padStart(10)}${'think'.padStart(10)}${'gaps'.padStart(6)}${'sessions'.padStart(10)}${'longest gap'.padStart(13)}`
+      );
+      for (const { title, pacing } of stats) {
+        const longestGap = this.longestGap(pacing);
+        lines.push([
+          this.truncate(title, TITLE_WIDTH).padEnd(TITLE_WIDTH),
+          String(pacing.messageCount).padStart(7),
+          this.formatOptional(Pacing.summarize(pacing.responseTimes)?.median).padStart(10),
+          this.formatOptional(Pacing.summarize(pacing.thinkTimes)?.median).padStart(10),
+          String(pacing.idleGaps.length).padStart(6),
+          String(pacing.sessions.length).padStart(10),
+          this.formatOptional(longestGap).padStart(13)
+        ].join(''));
+      }
+      lines.push('', 'reply and think are medians per conversation');
+    }
+
+    return lines.join('\n');
+  }
+
+  private summaryLine(label: string, summary: DurationSummary | null): string {
+    return [
+      label.padEnd(14),
+      String(summary?.count ?? 0).padStart(8),
+      this.formatOptional(summary?.median).padStart(10),
+      this.formatOptional(summary?.p90).padStart(10),
+      this.formatOptional(summary?.max).padStart(10)
+    ].join('');
+  }
+
+  private longestGap(pacing: PacingReport): number | undefined {
+    return pacing.idleGaps.length > 0 ? Math.max(...pacing.idleGaps.map(gap => gap.duration)) : undefined;
+  }
+
+  private formatOptional(duration: number | undefined): string {
+    return duration !== undefined ? formatDuration(duration) : '-';
+  }
+
+  private truncate(text: string, width: number): string {
+    const singleLine = text.replace(/\s+/g, ' ');
+    return singleLine.length > width - 1 ? `${singleLine.slice(0, width - 2)}…` : singleLine;
+  }
+}
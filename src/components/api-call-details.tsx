@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Settings2 } from 'lucide-react';
+import type { ApiConversation } from '@/types/data';
+
+interface ApiCallDetailsProps {
+  metadata: ApiConversation['api_metadata'];
+}
+
+const PROVIDER_LABELS = {
+  anthropic: 'Anthropic Messages API',
+  openai: 'OpenAI Chat Completions'
+};
+
+export function ApiCallDetails({ metadata }: ApiCallDetailsProps) {
+  const [showSystem, setShowSystem] = useState(false);
+  const usage = metadata.usage;
+
+  const usageParts = usage ? [
+    usage.input_tokens !== undefined ? `${usage.input_tokens.toLocaleString()} in` : null,
+    usage.output_tokens !== undefined ? `${usage.output_tokens.toLocaleString()} out` : null,
+    usage.cache_read_input_tokens ? `${usage.cache_read_input_tokens.toLocaleString()} cache read` : null,
+    usage.cache_creation_input_tokens ? `${usage.cache_creation_input_tokens.toLocaleString()} cache write` : null
+  ].filter(Boolean) : [];
+
+  return (
+    <div className="mt-4 space-y-2 text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <div>
+          <span className="font-medium">API:</span> {PROVIDER_LABELS[metadata.provider]}
+        </div>
+        {metadata.model && (
+          <div>
+            <span className="font-medium">Model:</span> <span className="font-mono text-xs">{metadata.model}</span>
+          </div>
+        )}
+        {usageParts.length > 0 && (
+          <div>
+            <span className="font-medium">Tokens:</span> {usageParts.join(' • ')}
+          </div>
+        )}
+        {metadata.stop_reason && (
+          <div>
+            <span className="font-medium">Stop reason:</span> <span className="font-mono text-xs">{metadata.stop_reason}</span>
+          </div>
+        )}
+      </div>
+
+      {metadata.system && (
+        <div className="bg-muted rounded p-2">
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs font-medium"
+            onClick={() => setShowSystem(!showSystem)}
+          >
+            {showSystem ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            <Settings2 className="h-3 w-3" />
+            System prompt ({metadata.system.length.toLocaleString()} chars)
+          </button>
+          {showSystem && (
+            <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap text-xs bg-background p-2 rounded">
+              {metadata.system}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Archive, ChevronDown, ChevronRight } from 'lucide-react';
+import type { ArchiveMetadata as ArchiveMetadataType, ArchiveExtra } from '@/types/data';
+
+interface ArchiveMetadataProps {
+  archive: ArchiveMetadataType;
+}
+
+const PREVIEW_LIMIT = 5000;
+
+export function ArchiveMetadata({ archive }: ArchiveMetadataProps) {
+  return (
+    <Card className="text-left">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Archive className="h-4 w-4" />
+          Archive Contents
+        </CardTitle>
+        <CardDescription>
+          {archive.entries.length} file{archive.entries.length !== 1 ? 's' : ''} • conversations from {archive.conversationFiles.join(', ')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {archive.extras.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No additional metadata files found.</p>
+        ) : (
+          <div className="space-y-2">
+            {archive.extras.map(extra => (
+              <ArchiveExtraItem key={extra.filename} extra={extra} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ArchiveExtraItem({ extra }: { extra: ArchiveExtra }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const preview = isExpanded ? JSON.stringify(extra.data, null, 2) : '';
+
+  return (
+    <div className="bg-muted rounded p-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-medium">{extra.label}</div>
+          <div className="text-muted-foreground truncate">
+            {extra.filename}
+            {extra.recordCount !== undefined && ` • ${extra.recordCount} record${extra.recordCount !== 1 ? 's' : ''}`}
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setIsExpanded(!isExpanded)}>
+          {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        </Button>
+      </div>
+      {isExpanded && (
+        <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap break-all bg-background p-2 rounded">
+          {preview.length > PREVIEW_LIMIT ? `${preview.slice(0, PREVIEW_LIMIT)}\n…` : preview}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import React from 'react';
+import { Code, Terminal, Image, Globe, Quote, UserCog, AlertTriangle } from 'lucide-react';
+import { MessageText } from '@/components/markdown';
+import type {
+  ChatGPTMessageContent,
+  ChatGPTImageAssetPointer,
+  ChatGPTCodeContent,
+  ChatGPTExecutionOutputContent,
+  ChatGPTMultimodalTextContent,
+  ChatGPTTetherBrowsingDisplayContent,
+  ChatGPTTetherQuoteContent,
+  ChatGPTUserEditableContextContent,
+  ChatGPTSystemErrorContent,
+  MessageRenderMode
+} from '@/types/data';
+
+interface ChatGPTContentViewProps {
+  content?: ChatGPTMessageContent;
+  renderMode?: MessageRenderMode;
+}
+
+export function ChatGPTContentView({ content, renderMode = 'markdown' }: ChatGPTContentViewProps) {
+  if (!content) {
+    return <PlainText text="[No content]" />;
+  }
+
+  switch (content.content_type) {
+    case 'text':
+      return <MessageText text={content.parts.filter(part => typeof part === 'string').join('\n')} renderMode={renderMode} />;
+    case 'code':
+      return <CodeContent content={content} />;
+    case 'execution_output':
+      return <ExecutionOutputContent content={content} />;
+    case 'multimodal_text':
+      return <MultimodalTextContent content={content} renderMode={renderMode} />;
+    case 'tether_browsing_display':
+      return <BrowsingDisplayContent content={content} />;
+    case 'tether_quote':
+      return <QuoteContent content={content} />;
+    case 'user_editable_context':
+      return <UserEditableContextContent content={content} />;
+    case 'system_error':
+      return <SystemErrorContent content={content} />;
+    default:
+      return <PlainText text={`[Unsupported content type: ${(content as { content_type: string }).content_type}]`} />;
+  }
+}
+
+function PlainText({ text }: { text: string }) {
+  return (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed">
+      {text || '[Empty message]'}
+    </div>
+  );
+}
+
+function SectionLabel({ icon: Icon, children }: { icon: React.ElementType; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground mb-1">
+      <Icon className="h-3 w-3" />
+      {children}
+    </div>
+  );
+}
+
+function CodeContent({ content }: { content: ChatGPTCodeContent }) {
+  return (
+    <div>
+      <SectionLabel icon={Code}>Code{content.language && content.language !== 'unknown' ? ` (${content.language})` : ''}</SectionLabel>
+      <pre className="text-xs bg-zinc-900 text-zinc-100 p-3 rounded overflow-x-auto">
+        <code>{content.text}</code>
+      </pre>
+    </div>
+  );
+}
+
+function ExecutionOutputContent({ content }: { content: ChatGPTExecutionOutputContent }) {
+  return (
+    <div>
+      <SectionLabel icon={Terminal}>Output</SectionLabel>
+      <pre className="text-xs bg-muted p-3 rounded overflow-x-auto whitespace-pre-wrap">
+        {content.text || '[No output]'}
+      </pre>
+    </div>
+  );
+}
+
+function MultimodalTextContent({ content, renderMode }: { content: ChatGPTMultimodalTextContent; renderMode: MessageRenderMode }) {
+  return (
+    <div className="space-y-2">
+      {content.parts.map((part, index) => {
+        if (typeof part === 'string') {
+          return part.trim() ? <MessageText key={index} text={part} renderMode={renderMode} /> : null;
+        }
+        if (part.content_type === 'image_asset_pointer') {
+          return <ImageAssetPlaceholder key={index} pointer={part as ChatGPTImageAssetPointer} />;
+        }
+        return (
+          <div key={index} className="text-xs text-muted-foreground bg-muted p-2 rounded">
+            [{String(part.content_type ?? 'unknown')} attachment]
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ImageAssetPlaceholder({ pointer }: { pointer: ChatGPTImageAssetPointer }) {
+  // Exports reference images by asset pointer only; the pixels are not inlined
+  const details = [
+    pointer.width && pointer.height ? `${pointer.width}×${pointer.height}` : null,
+    pointer.size_bytes ? `${(pointer.size_bytes / 1024).toFixed(1)} KB` : null
+  ].filter(Boolean).join(' • ');
+
+  return (
+    <div className="flex items-center gap-2 text-xs bg-muted p-2 rounded">
+      <Image className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+      <div className="min-w-0">
+        <div className="font-medium">Image</div>
+        <div className="text-muted-foreground truncate">
+          {pointer.asset_pointer}{details && ` • ${details}`}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BrowsingDisplayContent({ content }: { content: ChatGPTTetherBrowsingDisplayContent }) {
+  return (
+    <div className="border-l-2 border-l-sky-300 pl-3">
+      <SectionLabel icon={Globe}>Browsing result</SectionLabel>
+      {content.summary && (
+        <div className="text-sm mb-2">{content.summary}</div>
+      )}
+      {content.result && (
+        <pre className="text-xs bg-muted p-2 rounded whitespace-pre-wrap max-h-64 overflow-y-auto">
+          {content.result}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function QuoteContent({ content }: { content: ChatGPTTetherQuoteContent }) {
+  return (
+    <div className="border-l-2 border-l-sky-300 pl-3">
+      <SectionLabel icon={Quote}>
+        Quote from{' '}
+        <a
+          href={content.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="underline"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {content.title || content.domain}
+        </a>
+      </SectionLabel>
+      <blockquote className="text-sm italic whitespace-pre-wrap">{content.text}</blockquote>
+    </div>
+  );
+}
+
+function UserEditableContextContent({ content }: { content: ChatGPTUserEditableContextContent }) {
+  return (
+    <div className="bg-muted p-3 rounded space-y-2">
+      <SectionLabel icon={UserCog}>Custom instructions</SectionLabel>
+      {content.user_profile && (
+        <div>
+          <div className="text-xs font-medium">User profile</div>
+          <div className="text-sm whitespace-pre-wrap">{content.user_profile}</div>
+        </div>
+      )}
+      {content.user_instructions && (
+        <div>
+          <div className="text-xs font-medium">Response instructions</div>
+          <div className="text-sm whitespace-pre-wrap">{content.user_instructions}</div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SystemErrorContent({ content }: { content: ChatGPTSystemErrorContent }) {
+  return (
+    <div className="bg-red-50 text-red-700 p-3 rounded">
+      <div className="flex items-center gap-1 text-xs font-medium mb-1">
+        <AlertTriangle className="h-3 w-3" />
+        {content.name || 'System error'}
+      </div>
+      <div className="text-sm whitespace-pre-wrap">{content.text}</div>
+    </div>
+  );
+}
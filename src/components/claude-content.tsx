@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import { Brain, ChevronDown, ChevronRight, Scissors, Wrench, Terminal, FileEdit, CornerDownRight } from 'lucide-react';
+import { MessageText } from '@/components/markdown';
+import { formatDuration } from '@/lib/utils';
+import type { TextMatcher } from '@/lib/search-query';
+import type { ClaudeChatMessage, MessageContent, MessageCitation, MessageRenderMode } from '@/types/data';
+
+interface ClaudeContentViewProps {
+  message: ClaudeChatMessage;
+  renderMode?: MessageRenderMode;
+  // Collapsed blocks containing a search match are opened so every hit is visible
+  highlight?: TextMatcher | null;
+}
+
+interface Footnote {
+  number: number;
+  citation: MessageCitation;
+}
+
+export function ClaudeContentView({ message, renderMode = 'markdown', highlight = null }: ClaudeContentViewProps) {
+  const blocks = message.content ?? [];
+
+  if (blocks.length === 0) {
+    return <MessageText text={message.text} renderMode={renderMode} />;
+  }
+
+  // Number citations across the whole message so footnotes read top to bottom
+  const footnotes: Footnote[] = [];
+  const blockFootnotes = blocks.map(block =>
+    (block.citations ?? []).map(citation => {
+      const footnote = { number: footnotes.length + 1, citation };
+      footnotes.push(footnote);
+      return footnote;
+    })
+  );
+
+  return (
+    <div className="space-y-3">
+      {blocks.map((block, index) => (
+        <div key={index}>
+          <ContentBlock
+            block={block}
+            footnotes={blockFootnotes[index]}
+            messageId={message.uuid}
+            renderMode={renderMode}
+            highlight={highlight}
+          />
+          {block.cut_off && (
+            <div className="mt-1 flex items-center gap-1 text-xs text-orange-600">
+              <Scissors className="h-3 w-3" />
+              Response was cut off here
+            </div>
+          )}
+        </div>
+      ))}
+
+      {footnotes.length > 0 && (
+        <ol className="border-t pt-2 space-y-1 text-xs text-muted-foreground">
+          {footnotes.map(({ number, citation }) => (
+            <li key={number} id={footnoteId(message.uuid, number)} className="flex gap-1">
+              <span>{number}.</span>
+              <CitationLink citation={citation} />
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+interface ContentBlockProps {
+  block: MessageContent;
+  footnotes: Footnote[];
+  messageId: string;
+  renderMode: MessageRenderMode;
+  highlight: TextMatcher | null;
+}
+
+function ContentBlock({ block, footnotes, messageId, renderMode, highlight }: ContentBlockProps) {
+  if (block.type === 'thinking') {
+    return <ThinkingBlock block={block} renderMode={renderMode} highlight={highlight} />;
+  }
+
+  if (block.type === 'text') {
+    return <CitedText text={block.text ?? ''} footnotes={footnotes} messageId={messageId} renderMode={renderMode} />;
+  }
+
+  if (block.type === 'tool_use') {
+    return <ToolUseBlock block={block} highlight={highlight} />;
+  }
+
+  if (block.type === 'tool_result') {
+    return <ToolResultBlock block={block} highlight={highlight} />;
+  }
+
+  return (
+    <pre className="text-xs bg-muted p-2 rounded overflow-x-auto">
+      {JSON.stringify(block, null, 2)}
+    </pre>
+  );
+}
+
+interface CollapsibleBlockProps {
+  block: MessageContent;
+  highlight: TextMatcher | null;
+}
+
+function hasMatch(highlight: TextMatcher | null, text: string): boolean {
+  return !!highlight && highlight(text).length > 0;
+}
+
+function ThinkingBlock({ block, renderMode, highlight }: CollapsibleBlockProps & { renderMode: MessageRenderMode }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isOpen = isExpanded || hasMatch(highlight, block.thinking ?? '');
+
+  const startTime = new Date(block.start_timestamp).getTime();
+  const stopTime = new Date(block.stop_timestamp).getTime();
+  const duration = !isNaN(startTime) && !isNaN(stopTime) && stopTime >= startTime
+    ? formatDuration(stopTime - startTime)
+    : null;
+
+  return (
+    <div className="border-l-2 border-l-violet-300 bg-violet-50/50 rounded-r px-3 py-2">
+      <button
+        type="button"
+        className="flex items-center gap-1 text-xs font-medium text-violet-700"
+        onClick={(e) => { e.stopPropagation(); setIsExpanded(!isOpen); }}
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Brain className="h-3 w-3" />
+        {duration ? `Thought for ${duration}` : 'Thinking'}
+      </button>
+
+      {block.summaries && block.summaries.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground list-disc pl-5">
+          {block.summaries.map((summary, index) => (
+            <li key={index}>{summary.summary}</li>
+          ))}
+        </ul>
+      )}
+
+      {isOpen && (
+        <div className="mt-2 text-muted-foreground">
+          <MessageText text={block.thinking ?? ''} renderMode={renderMode} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ToolUseBlock({ block, highlight }: CollapsibleBlockProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const input = block.input ?? {};
+  const isOpen = isExpanded || hasMatch(highlight, JSON.stringify(input));
+  const filePath = typeof input.file_path === 'string' ? input.file_path : undefined;
+  const command = typeof input.command === 'string' ? input.command : undefined;
+
+  return (
+    <div className="rounded border border-dashed border-amber-300 bg-amber-50/50 px-3 py-2">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 text-left text-xs font-medium text-amber-700"
+        onClick={(e) => { e.stopPropagation(); setIsExpanded(!isOpen); }}
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+        {command ? <Terminal className="h-3 w-3 flex-shrink-0" /> : filePath ? <FileEdit className="h-3 w-3 flex-shrink-0" /> : <Wrench className="h-3 w-3 flex-shrink-0" />}
+        <span className="flex-shrink-0">{block.name ?? 'Tool'}</span>
+        <span className="truncate font-mono font-normal text-muted-foreground">{command ?? filePath ?? ''}</span>
+      </button>
+      {isOpen && (
+        <div className="mt-2">
+          <ToolInput name={block.name} input={input} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface EditOperation {
+  old_string?: string;
+  new_string?: string;
+}
+
+// Dedicated views for the tools whose input is worth reading: shell commands and file edits
+function ToolInput({ name, input }: { name?: string; input: Record<string, unknown> }) {
+  if (name === 'Bash' && typeof input.command === 'string') {
+    return (
+      <div className="space-y-1">
+        {typeof input.description === 'string' && (
+          <div className="text-xs text-muted-foreground">{input.description}</div>
+        )}
+        <pre className="text-xs bg-zinc-900 text-zinc-100 p-2 rounded overflow-x-auto">$ {input.command}</pre>
+      </div>
+    );
+  }
+
+  if (name === 'Edit' || name === 'MultiEdit') {
+    const edits = (Array.isArray(input.edits) ? input.edits : [input]) as EditOperation[];
+    return (
+      <div className="space-y-2">
+        {edits.map((edit, index) => (
+          <EditDiff key={index} oldText={edit.old_string ?? ''} newText={edit.new_string ?? ''} />
+        ))}
+      </div>
+    );
+  }
+
+  if (name === 'Write' && typeof input.content === 'string') {
+    return <EditDiff oldText="" newText={input.content} />;
+  }
+
+  return (
+    <pre className="text-xs bg-muted p-2 rounded overflow-x-auto">
+      {JSON.stringify(input, null, 2)}
+    </pre>
+  );
+}
+
+function EditDiff({ oldText, newText }: { oldText: string; newText: string }) {
+  const removed = oldText ? oldText.split('\n') : [];
+  const added = newText ? newText.split('\n') : [];
+
+  return (
+    <pre className="text-xs rounded border overflow-x-auto max-h-96">
+      {removed.map((line, index) => (
+        <div key={`old-${index}`} className="bg-red-50 text-red-700 px-2">- {line}</div>
+      ))}
+      {added.map((line, index) => (
+        <div key={`new-${index}`} className="bg-green-50 text-green-700 px-2">+ {line}</div>
+      ))}
+    </pre>
+  );
+}
+
+const TOOL_RESULT_PREVIEW_LENGTH = 120;
+
+function ToolResultBlock({ block, highlight }: CollapsibleBlockProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const output = typeof block.content === 'string'
+    ? block.content
+    : (block.content ?? []).map(part => part.text ?? `[${part.type}]`).join('\n');
+  const isOpen = isExpanded || hasMatch(highlight, output);
+  const preview = output.replace(/\s+/g, ' ').trim();
+
+  return (
+    <div className={`rounded border px-3 py-2 ${block.is_error ? 'border-red-200 bg-red-50/50' : 'bg-muted/50'}`}>
+      <button
+        type="button"
+        className={`flex w-full items-center gap-1 text-left text-xs font-medium ${block.is_error ? 'text-red-700' : 'text-muted-foreground'}`}
+        onClick={(e) => { e.stopPropagation(); setIsExpanded(!isOpen); }}
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+        <CornerDownRight className="h-3 w-3 flex-shrink-0" />
+        <span className="flex-shrink-0">{block.is_error ? 'Tool error' : 'Tool result'}</span>
+        {!isOpen && (
+          <span className="truncate font-normal">
+            {preview.length > TOOL_RESULT_PREVIEW_LENGTH ? `${preview.slice(0, TOOL_RESULT_PREVIEW_LENGTH)}…` : preview}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <pre className="mt-2 text-xs whitespace-pre-wrap break-all max-h-96 overflow-y-auto">
+          {output || '[No output]'}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+interface CitedTextProps {
+  text: string;
+  footnotes: Footnote[];
+  messageId: string;
+  renderMode: MessageRenderMode;
+}
+
+function CitedText({ text, footnotes, messageId, renderMode }: CitedTextProps) {
+  if (footnotes.length === 0) {
+    return <MessageText text={text} renderMode={renderMode} />;
+  }
+
+  // Place each marker at the end of the cited span; citations without a span go last
+  const markers = footnotes
+    .map(footnote => ({
+      footnote,
+      position: Math.min(footnote.citation.end_index ?? text.length, text.length)
+    }))
+    .sort((a, b) => a.position - b.position);
+
+  if (renderMode === 'markdown') {
+    let marked = '';
+    let position = 0;
+    markers.forEach(marker => {
+      marked += text.slice(position, marker.position);
+      marked += `[[${marker.footnote.number}]](#${footnoteId(messageId, marker.footnote.number)})`;
+      position = marker.position;
+    });
+    return <MessageText text={marked + text.slice(position)} renderMode={renderMode} />;
+  }
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  markers.forEach(({ footnote, position }) => {
+    if (position > cursor) {
+      segments.push(text.slice(cursor, position));
+      cursor = position;
+    }
+    segments.push(
+      <sup key={`cite-${footnote.number}`}>
+        <a
+          href={`#${footnoteId(messageId, footnote.number)}`}
+          className="text-primary underline"
+          onClick={(e) => e.stopPropagation()}
+        >
+          [{footnote.number}]
+        </a>
+      </sup>
+    );
+  });
+  segments.push(text.slice(cursor));
+
+  return (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed">
+      {segments}
+    </div>
+  );
+}
+
+function CitationLink({ citation }: { citation: MessageCitation }) {
+  const url = citation.url ?? citation.details?.url;
+  const title = citation.title ?? citation.details?.title ?? url ?? citation.uuid ?? 'Source';
+
+  if (!url) {
+    return <span>{title}</span>;
+  }
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="underline break-all"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {title}
+    </a>
+  );
+}
+
+function footnoteId(messageId: string, number: number): string {
+  return `cite-${messageId}-${number}`;
+}
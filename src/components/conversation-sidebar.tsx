@@ -1,9 +1,12 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { MessageCircle, Search, Calendar, X, Filter, EyeOff } from 'lucide-react';
+import { MessageCircle, Calendar, CalendarDays, BarChart3, Cloud, ShieldAlert, ThumbsDown, X, Filter, EyeOff, TextSearch } from 'lucide-react';
+import { Highlight } from '@/components/highlight';
+import { SearchQueryInput, useParsedSearch } from '@/components/search-query-input';
 import { DataParser } from '@/lib/parser';
+import { SearchQuery } from '@/lib/search-query';
 import type { 
   ClaudeConversations, 
   ClaudeConversation, 
@@ -16,16 +19,47 @@ interface ConversationSidebarProps {
   selectedConversation: ClaudeConversation | ChatGPTConversation | null;
   onSelectConversation: (conversation: ClaudeConversation | ChatGPTConversation) => void;
   onReset: () => void;
+  onOpenGlobalSearch?: () => void;
+  onOpenTimeline?: () => void;
+  onOpenStats?: () => void;
+  onOpenWords?: () => void;
+  onOpenForensics?: () => void;
+  onOpenFeedback?: () => void;
+  searchQuery: string;
+  onSearchQueryChange: (query: string) => void;
+  // Limits the list to a set of conversations picked elsewhere, e.g. a dashboard cell
+  scope?: ConversationScope | null;
+  onClearScope?: () => void;
 }
 
+export interface ConversationScope {
+  label: string;
+  conversationIds: Set<string>;
+  // Lists deleted conversations even while "Hide deleted conversations" is checked
+  showDeleted?: boolean;
+}
+
+// Two-line title plus stats and ID; rows are re-measured after rendering
+const ESTIMATED_ROW_HEIGHT = 100;
+
 export function ConversationSidebar({ 
   conversations, 
   selectedConversation, 
   onSelectConversation,
-  onReset 
+  onReset,
+  onOpenGlobalSearch,
+  onOpenTimeline,
+  onOpenStats,
+  onOpenWords,
+  onOpenForensics,
+  onOpenFeedback,
+  searchQuery,
+  onSearchQueryChange,
+  scope,
+  onClearScope
 }: ConversationSidebarProps) {
-  const [searchQuery, setSearchQuery] = useState('');
   const [hideDeletedConversations, setHideDeletedConversations] = useState(true);
+  const search = useParsedSearch(searchQuery);
 
   // Determine conversation type
   const conversationType = useMemo(() => {
@@ -37,23 +71,22 @@ export function ConversationSidebar({
   }, [conversations]);
 
   const sortedAndFilteredConversations = useMemo(() => {
-    let filtered = conversations;
+    let filtered = scope
+      ? (conversations as (ClaudeConversation | ChatGPTConversation)[])
+        .filter(conv => scope.conversationIds.has(DataParser.getConversationId(conv))) as typeof conversations
+      : conversations;
     
     if (conversationType === 'claude') {
       const claudeConversations = filtered as ClaudeConversations;
       
       // Filter out deleted conversations (empty name) if hideDeletedConversations is true
-      if (hideDeletedConversations) {
+      if (hideDeletedConversations && !scope?.showDeleted) {
         filtered = claudeConversations.filter(conv => conv.name.trim() !== '');
       }
       
       // Apply search filter
-      if (searchQuery.trim()) {
-        const query = searchQuery.toLowerCase();
-        filtered = (filtered as ClaudeConversations).filter(conv => 
-          conv.name.toLowerCase().includes(query) ||
-          conv.uuid.toLowerCase().includes(query)
-        );
+      if (search.node) {
+        filtered = (filtered as ClaudeConversations).filter(conv => SearchQuery.matchesConversation(search.node, conv));
       }
       
       return (filtered as ClaudeConversations).sort((a, b) => 
@@ -63,17 +96,13 @@ export function ConversationSidebar({
       const chatgptConversations = filtered as ChatGPTConversations;
       
       // ChatGPT doesn't have "deleted" conversations in the same way, but we can filter empty titles
-      if (hideDeletedConversations) {
+      if (hideDeletedConversations && !scope?.showDeleted) {
         filtered = chatgptConversations.filter(conv => conv.title.trim() !== '');
       }
       
       // Apply search filter
-      if (searchQuery.trim()) {
-        const query = searchQuery.toLowerCase();
-        filtered = (filtered as ChatGPTConversations).filter(conv => 
-          conv.title.toLowerCase().includes(query) ||
-          conv.id.toLowerCase().includes(query)
-        );
+      if (search.node) {
+        filtered = (filtered as ChatGPTConversations).filter(conv => SearchQuery.matchesConversation(search.node, conv));
       }
       
       return (filtered as ChatGPTConversations).sort((a, b) => 
@@ -82,14 +111,14 @@ export function ConversationSidebar({
     }
     
     return filtered;
-  }, [conversations, searchQuery, hideDeletedConversations, conversationType]);
+  }, [conversations, search, hideDeletedConversations, conversationType, scope]);
 
   const totalMessages = useMemo(() => {
     if (conversationType === 'claude') {
       return (conversations as ClaudeConversations).reduce((total, conv) => total + conv.chat_messages.length, 0);
     } else if (conversationType === 'chatgpt') {
       return (conversations as ChatGPTConversations).reduce((total, conv) => {
-        return total + DataParser.extractChatGPTMessages(conv).length;
+        return total + DataParser.extractChatGPTThread(conv).length;
       }, 0);
     }
     return 0;
@@ -104,19 +133,198 @@ export function ConversationSidebar({
     return 0;
   }, [conversations, conversationType]);
 
+  const renderConversation = (conversation: ClaudeConversation | ChatGPTConversation) => {
+    if (conversationType === 'claude') {
+      const claudeConv = conversation as ClaudeConversation;
+      const isDeleted = claudeConv.name.trim() === '';
+      const isSelected = selectedConversation && 'uuid' in selectedConversation && selectedConversation.uuid === claudeConv.uuid;
+      
+      return (
+        <div
+          className={`p-3 rounded-lg cursor-pointer transition-colors ${
+            isSelected
+              ? 'bg-primary text-primary-foreground'
+              : isDeleted
+              ? 'hover:bg-red-50 border-l-2 border-l-red-200'
+              : 'hover:bg-muted'
+          }`}
+          onClick={() => onSelectConversation(claudeConv)}
+        >
+          <div className="space-y-2">
+            <div className={`font-medium text-sm line-clamp-2 leading-tight ${
+              isDeleted ? 'text-red-600 italic' : ''
+            }`}>
+              {isDeleted ? `[Deleted Conversation]` : <Highlight text={claudeConv.name} query={search.matcher} />}
+            </div>
+            
+            <div className="flex items-center gap-3 text-xs opacity-75">
+              <div className="flex items-center gap-1">
+                <MessageCircle className="h-3 w-3" />
+                {claudeConv.chat_messages.length}
+              </div>
+              <div className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                {claudeConv.updated_at ? new Date(claudeConv.updated_at).toLocaleDateString() : 'Unknown'}
+              </div>
+            </div>
+            
+            <div className="text-xs opacity-60 truncate">
+              {claudeConv.uuid.slice(0, 8)}...
+            </div>
+          </div>
+        </div>
+      );
+    } else if (conversationType === 'chatgpt') {
+      const chatgptConv = conversation as ChatGPTConversation;
+      const isDeleted = chatgptConv.title.trim() === '';
+      const isSelected = selectedConversation && 'id' in selectedConversation && selectedConversation.id === chatgptConv.id;
+      const messageCount = DataParser.extractChatGPTThread(chatgptConv).length;
+      
+      return (
+        <div
+          className={`p-3 rounded-lg cursor-pointer transition-colors ${
+            isSelected
+              ? 'bg-primary text-primary-foreground'
+              : isDeleted
+              ? 'hover:bg-red-50 border-l-2 border-l-red-200'
+              : 'hover:bg-muted'
+          }`}
+          onClick={() => onSelectConversation(chatgptConv)}
+        >
+          <div className="space-y-2">
+            <div className={`font-medium text-sm line-clamp-2 leading-tight ${
+              isDeleted ? 'text-red-600 italic' : ''
+            }`}>
+              {isDeleted ? `[Empty Title]` : <Highlight text={chatgptConv.title} query={search.matcher} />}
+            </div>
+            
+            <div className="flex items-center gap-3 text-xs opacity-75">
+              <div className="flex items-center gap-1">
+                <MessageCircle className="h-3 w-3" />
+                {messageCount}
+              </div>
+              <div className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                {new Date(chatgptConv.update_time * 1000).toLocaleDateString()}
+              </div>
+            </div>
+            
+            <div className="text-xs opacity-60 truncate">
+              {chatgptConv.id.slice(0, 8)}...
+            </div>
+          </div>
+        </div>
+      );
+    }
+    
+    return null;
+  };
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: sortedAndFilteredConversations.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    getItemKey: (index) => DataParser.getConversationId(sortedAndFilteredConversations[index]),
+    paddingStart: 8,
+    paddingEnd: 8,
+    overscan: 8
+  });
+
+  // Keep the selected conversation in view, e.g. when it is opened from elsewhere
+  const selectedIndex = useMemo(() => {
+    if (!selectedConversation) return -1;
+    const selectedId = DataParser.getConversationId(selectedConversation);
+    return sortedAndFilteredConversations.findIndex(conv => DataParser.getConversationId(conv) === selectedId);
+  }, [sortedAndFilteredConversations, selectedConversation]);
+
+  useEffect(() => {
+    if (selectedIndex !== -1) {
+      virtualizer.scrollToIndex(selectedIndex, { align: 'auto' });
+    }
+  }, [selectedIndex, virtualizer]);
+
   return (
-    <div className="h-full bg-muted/50 border-r">
+    <div className="h-full flex flex-col bg-muted/50 border-r">
       <div className="p-4 border-b bg-background">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold">Conversations</h2>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onReset}
-            className="text-muted-foreground hover:text-foreground"
-          >
-            <X className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center">
+            {onOpenTimeline && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenTimeline}
+                title="Timeline"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <CalendarDays className="h-4 w-4" />
+              </Button>
+            )}
+            {onOpenStats && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenStats}
+                title="Statistics"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <BarChart3 className="h-4 w-4" />
+              </Button>
+            )}
+            {onOpenWords && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenWords}
+                title="Word frequency"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <Cloud className="h-4 w-4" />
+              </Button>
+            )}
+            {onOpenForensics && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenForensics}
+                title="Deleted and orphaned content"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <ShieldAlert className="h-4 w-4" />
+              </Button>
+            )}
+            {onOpenFeedback && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenFeedback}
+                title="Feedback review"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <ThumbsDown className="h-4 w-4" />
+              </Button>
+            )}
+            {onOpenGlobalSearch && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenGlobalSearch}
+                title="Search all messages"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <TextSearch className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onReset}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
         
         <div className="text-sm text-muted-foreground mb-4">
@@ -147,26 +355,35 @@ export function ConversationSidebar({
           </div>
         </div>
         
-        <div className="relative">
-          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search conversations..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
-        </div>
+        <SearchQueryInput
+          placeholder="Search conversations... (sender:, has:, after:)"
+          value={searchQuery}
+          onChange={onSearchQueryChange}
+          error={search.error}
+        />
         
-        {searchQuery && (
+        {scope && (
+          <div className="mt-2 flex items-center gap-2 rounded bg-primary/10 px-2 py-1 text-xs">
+            <Filter className="h-3 w-3 flex-shrink-0" />
+            <span className="flex-1 truncate" title={scope.label}>{scope.label}</span>
+            {onClearScope && (
+              <button type="button" aria-label="Clear filter" onClick={onClearScope}>
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        )}
+
+        {(search.node || scope) && (
           <div className="mt-2 text-sm text-muted-foreground">
             {sortedAndFilteredConversations.length} result{sortedAndFilteredConversations.length !== 1 ? 's' : ''}
           </div>
         )}
       </div>
 
-      <div className="overflow-y-auto" style={{ height: 'calc(100vh - 240px)' }}>
-        <div className="p-2 space-y-1">
-          {sortedAndFilteredConversations.length === 0 ? (
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto">
+        {sortedAndFilteredConversations.length === 0 ? (
+          <div className="p-2">
             <div className="p-4 text-center text-muted-foreground">
               <MessageCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
               <p className="text-sm">
@@ -179,103 +396,29 @@ export function ConversationSidebar({
                   variant="ghost" 
                   size="sm"
                   className="mt-2"
-                  onClick={() => setSearchQuery('')}
+                  onClick={() => onSearchQueryChange('')}
                 >
                   Clear Search
                 </Button>
               )}
             </div>
-          ) : (
-            sortedAndFilteredConversations.map((conversation) => {
-              if (conversationType === 'claude') {
-                const claudeConv = conversation as ClaudeConversation;
-                const isDeleted = claudeConv.name.trim() === '';
-                const isSelected = selectedConversation && 'uuid' in selectedConversation && selectedConversation.uuid === claudeConv.uuid;
-                
-                return (
-                  <div
-                    key={claudeConv.uuid}
-                    className={`p-3 rounded-lg cursor-pointer transition-colors ${
-                      isSelected
-                        ? 'bg-primary text-primary-foreground'
-                        : isDeleted
-                        ? 'hover:bg-red-50 border-l-2 border-l-red-200'
-                        : 'hover:bg-muted'
-                    }`}
-                    onClick={() => onSelectConversation(claudeConv)}
-                  >
-                    <div className="space-y-2">
-                      <div className={`font-medium text-sm line-clamp-2 leading-tight ${
-                        isDeleted ? 'text-red-600 italic' : ''
-                      }`}>
-                        {isDeleted ? `[Deleted Conversation]` : claudeConv.name}
-                      </div>
-                      
-                      <div className="flex items-center gap-3 text-xs opacity-75">
-                        <div className="flex items-center gap-1">
-                          <MessageCircle className="h-3 w-3" />
-                          {claudeConv.chat_messages.length}
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <Calendar className="h-3 w-3" />
-                          {new Date(claudeConv.updated_at).toLocaleDateString()}
-                        </div>
-                      </div>
-                      
-                      <div className="text-xs opacity-60 truncate">
-                        {claudeConv.uuid.slice(0, 8)}...
-                      </div>
-                    </div>
-                  </div>
-                );
-              } else if (conversationType === 'chatgpt') {
-                const chatgptConv = conversation as ChatGPTConversation;
-                const isDeleted = chatgptConv.title.trim() === '';
-                const isSelected = selectedConversation && 'id' in selectedConversation && selectedConversation.id === chatgptConv.id;
-                const messageCount = DataParser.extractChatGPTMessages(chatgptConv).length;
-                
-                return (
-                  <div
-                    key={chatgptConv.id}
-                    className={`p-3 rounded-lg cursor-pointer transition-colors ${
-                      isSelected
-                        ? 'bg-primary text-primary-foreground'
-                        : isDeleted
-                        ? 'hover:bg-red-50 border-l-2 border-l-red-200'
-                        : 'hover:bg-muted'
-                    }`}
-                    onClick={() => onSelectConversation(chatgptConv)}
-                  >
-                    <div className="space-y-2">
-                      <div className={`font-medium text-sm line-clamp-2 leading-tight ${
-                        isDeleted ? 'text-red-600 italic' : ''
-                      }`}>
-                        {isDeleted ? `[Empty Title]` : chatgptConv.title}
-                      </div>
-                      
-                      <div className="flex items-center gap-3 text-xs opacity-75">
-                        <div className="flex items-center gap-1">
-                          <MessageCircle className="h-3 w-3" />
-                          {messageCount}
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <Calendar className="h-3 w-3" />
-                          {new Date(chatgptConv.update_time * 1000).toLocaleDateString()}
-                        </div>
-                      </div>
-                      
-                      <div className="text-xs opacity-60 truncate">
-                        {chatgptConv.id.slice(0, 8)}...
-                      </div>
-                    </div>
-                  </div>
-                );
-              }
-              
-              return null;
-            })
-          )}
-        </div>
+          </div>
+        ) : (
+          // Only the rows in view are mounted; each row is measured once rendered
+          <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map((virtualRow) => (
+              <div
+                key={virtualRow.key}
+                ref={virtualizer.measureElement}
+                data-index={virtualRow.index}
+                className="absolute inset-x-0 top-0 px-2 pb-1"
+                style={{ transform: `translateY(${virtualRow.start}px)` }}
+              >
+                {renderConversation(sortedAndFilteredConversations[virtualRow.index])}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { User, Bot, GitBranch } from 'lucide-react';
+import { DataParser } from '@/lib/parser';
+import type { ChatGPTConversation } from '@/types/data';
+
+interface ConversationTreeProps {
+  conversation: ChatGPTConversation;
+  activeNodeIds: Set<string>;
+  onSelectNode: (nodeId: string) => void;
+}
+
+const SNIPPET_LENGTH = 80;
+
+export function ConversationTree({ conversation, activeNodeIds, onSelectNode }: ConversationTreeProps) {
+  const mapping = conversation.mapping;
+
+  // Children that carry a visible message; hidden nodes (system, empty) are skipped through
+  const visibleChildren = useMemo(() => {
+    const cache = new Map<string, string[]>();
+
+    const resolve = (nodeId: string, visited: Set<string>): string[] => {
+      const cached = cache.get(nodeId);
+      if (cached) return cached;
+
+      const result: string[] = [];
+      for (const childId of mapping[nodeId]?.children ?? []) {
+        if (!mapping[childId] || visited.has(childId)) continue;
+        visited.add(childId);
+        if (DataParser.isVisibleChatGPTMessage(mapping[childId].message)) {
+          result.push(childId);
+        } else {
+          result.push(...resolve(childId, visited));
+        }
+      }
+      cache.set(nodeId, result);
+      return result;
+    };
+
+    return (nodeId: string) => resolve(nodeId, new Set([nodeId]));
+  }, [mapping]);
+
+  const rootIds = useMemo(() => {
+    const roots = Object.keys(mapping).filter(id => {
+      const parentId = mapping[id].parent;
+      return !parentId || !mapping[parentId];
+    });
+    return roots.flatMap(id =>
+      DataParser.isVisibleChatGPTMessage(mapping[id].message) ? [id] : visibleChildren(id)
+    );
+  }, [mapping, visibleChildren]);
+
+  const renderBranches = (nodeIds: string[]): React.ReactNode => (
+    <div className="space-y-2">
+      {nodeIds.map((nodeId, index) => {
+        const isActiveBranch = activeNodeIds.has(nodeId);
+        return (
+          <div
+            key={nodeId}
+            className={`border-l-2 pl-3 ${isActiveBranch ? 'border-l-primary' : 'border-l-muted-foreground/20'}`}
+          >
+            <div className="text-xs text-muted-foreground mb-1">
+              Branch {index + 1}{isActiveBranch ? ' (current)' : ''}
+            </div>
+            {renderChain(nodeId)}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  // Render a linear run of nodes, recursing only at fork points
+  const renderChain = (startId: string): React.ReactNode => {
+    const rows: React.ReactNode[] = [];
+    let nodeId: string | undefined = startId;
+
+    while (nodeId) {
+      rows.push(renderNode(nodeId));
+      const children = visibleChildren(nodeId);
+      if (children.length > 1) {
+        rows.push(
+          <div key={`${nodeId}-fork`} className="mt-2">
+            <div className="flex items-center gap-1 text-xs font-medium text-purple-600 mb-2">
+              <GitBranch className="h-3 w-3" />
+              Fork: {children.length} branches
+            </div>
+            {renderBranches(children)}
+          </div>
+        );
+        break;
+      }
+      nodeId = children[0];
+    }
+
+    return <div className="space-y-1">{rows}</div>;
+  };
+
+  const renderNode = (nodeId: string): React.ReactNode => {
+    const message = mapping[nodeId].message!;
+    const isActive = activeNodeIds.has(nodeId);
+    const isUser = message.author.role === 'user';
+    const text = DataParser.getChatGPTMessageText(message).replace(/\s+/g, ' ').trim();
+
+    return (
+      <button
+        key={nodeId}
+        type="button"
+        onClick={() => onSelectNode(nodeId)}
+        className={`w-full flex items-start gap-2 text-left text-xs p-1.5 rounded transition-colors ${
+          isActive ? 'bg-primary/10 font-medium' : 'text-muted-foreground hover:bg-muted'
+        }`}
+      >
+        {isUser ? (
+          <User className="h-3 w-3 mt-0.5 flex-shrink-0 text-blue-600" />
+        ) : (
+          <Bot className="h-3 w-3 mt-0.5 flex-shrink-0 text-green-600" />
+        )}
+        <span className="truncate">
+          {text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text}
+        </span>
+      </button>
+    );
+  };
+
+  if (rootIds.length === 0) {
+    return <p className="text-sm text-muted-foreground">No messages found in this conversation.</p>;
+  }
+
+  return rootIds.length === 1 ? <>{renderChain(rootIds[0])}</> : <>{renderBranches(rootIds)}</>;
+}
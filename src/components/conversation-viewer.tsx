@@ -1,30 +1,121 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useLayoutEffect } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { MessageCircle, Search, Calendar, User, Bot, Filter } from 'lucide-react';
+import { MessageCircle, Calendar, User, Bot, Filter, GitBranch, Wrench, ChevronUp, ChevronDown, Timer, Hourglass } from 'lucide-react';
 import { MessageItem } from '@/components/message-item';
+import { ConversationTree } from '@/components/conversation-tree';
+import { ApiCallDetails } from '@/components/api-call-details';
+import { SearchQueryInput, useParsedSearch } from '@/components/search-query-input';
+import { findTextRanges, markActiveMatch, scrollRangeIntoView } from '@/components/highlight';
 import { DataParser } from '@/lib/parser';
-import type { ClaudeConversation, ClaudeChatMessage, ChatGPTConversation, ChatGPTMessage } from '@/types/data';
+import { SearchQuery } from '@/lib/search-query';
+import { Timeline } from '@/lib/timeline';
+import { Pacing, IDLE_THRESHOLD } from '@/lib/pacing';
+import { formatDuration } from '@/lib/utils';
+import type { ClaudeConversation, ClaudeChatMessage, ClaudeCodeSession, ApiConversation, ChatGPTConversation, ChatGPTMessage } from '@/types/data';
 
 interface ConversationViewerProps {
   conversation: ClaudeConversation | ChatGPTConversation;
   conversationType: 'claude' | 'chatgpt';
+  // Message to scroll to once the conversation is shown, e.g. from a search hit
+  focusMessage?: { messageId: string } | null;
+  // Message search and sender filter are owned by the caller (the URL) so they survive reloads
+  searchQuery: string;
+  filterSender: SenderFilter;
+  onFiltersChange: (changes: { searchQuery?: string; filterSender?: SenderFilter }) => void;
 }
 
-export function ConversationViewer({ conversation, conversationType }: ConversationViewerProps) {
-  const [searchQuery, setSearchQuery] = useState('');
+export type SenderFilter = 'all' | 'human' | 'assistant' | 'tool';
+
+// Messages vary from one line to pages of code; rows are re-measured after rendering
+const ESTIMATED_MESSAGE_HEIGHT = 180;
+// Frames to wait for a scrolled-to message to mount and settle before revealing a match
+const MAX_REVEAL_FRAMES = 30;
+
+const getMessageId = (message: ClaudeChatMessage | ChatGPTMessage) =>
+  'uuid' in message ? message.uuid : message.id;
+
+export function ConversationViewer({
+  conversation,
+  conversationType,
+  focusMessage,
+  searchQuery,
+  filterSender,
+  onFiltersChange
+}: ConversationViewerProps) {
+  const search = useParsedSearch(searchQuery);
   const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
-  const [filterSender, setFilterSender] = useState<'all' | 'human' | 'assistant'>('all');
+  const [activeLeafId, setActiveLeafId] = useState<string | undefined>(undefined);
+  const [showBranchTree, setShowBranchTree] = useState(false);
+
+  // Switching conversations returns to the conversation's own current_node
+  useEffect(() => {
+    setActiveLeafId(undefined);
+  }, [conversation]);
+
+  // ChatGPT thread ending at the selected leaf (current_node by default), empty for Claude
+  const chatgptThread = useMemo(() => {
+    if (conversationType !== 'chatgpt') return [];
+    return DataParser.extractChatGPTThread(conversation as ChatGPTConversation, activeLeafId);
+  }, [conversation, conversationType, activeLeafId]);
+
+  const activeNodeIds = useMemo(() => new Set(chatgptThread.map(entry => entry.nodeId)), [chatgptThread]);
+
+  const branchSummary = useMemo(() => {
+    if (conversationType !== 'chatgpt') return { forks: 0, hiddenMessages: 0 };
+    const visibleCount = Object.values((conversation as ChatGPTConversation).mapping)
+      .filter(node => DataParser.isVisibleChatGPTMessage(node.message)).length;
+    return {
+      forks: chatgptThread.filter(entry => entry.siblingIds.length > 1).length,
+      hiddenMessages: visibleCount - chatgptThread.length
+    };
+  }, [conversation, conversationType, chatgptThread]);
+
+  const switchBranch = (messageId: string, delta: number) => {
+    const entry = chatgptThread.find(item => item.message.id === messageId);
+    if (!entry) return;
+    const count = entry.siblingIds.length;
+    const siblingId = entry.siblingIds[(entry.siblingIndex + delta + count) % count];
+    setActiveLeafId(DataParser.resolveChatGPTLeaf(conversation as ChatGPTConversation, siblingId));
+  };
+
+  const handleSelectTreeNode = (nodeId: string) => {
+    if (activeNodeIds.has(nodeId)) {
+      const messageId = (conversation as ChatGPTConversation).mapping[nodeId].message?.id;
+      if (messageId) {
+        jumpToMessage(messageId);
+      }
+      return;
+    }
+    setActiveLeafId(DataParser.resolveChatGPTLeaf(conversation as ChatGPTConversation, nodeId));
+  };
+
+  const sessionMetadata = 'session_metadata' in conversation
+    ? (conversation as ClaudeCodeSession).session_metadata
+    : undefined;
+  const apiMetadata = 'api_metadata' in conversation
+    ? (conversation as ApiConversation).api_metadata
+    : undefined;
 
   // Extract messages based on conversation type
   const allMessages = useMemo(() => {
     if (conversationType === 'claude') {
       return (conversation as ClaudeConversation).chat_messages;
     } else {
-      return DataParser.extractChatGPTMessages(conversation as ChatGPTConversation);
+      return chatgptThread.map(entry => entry.message);
     }
-  }, [conversation, conversationType]);
+  }, [conversation, conversationType, chatgptThread]);
+
+  const branchInfoById = useMemo(() => {
+    const info = new Map<string, { index: number; count: number }>();
+    chatgptThread.forEach(entry => {
+      if (entry.siblingIds.length > 1) {
+        info.set(entry.message.id, { index: entry.siblingIndex, count: entry.siblingIds.length });
+      }
+    });
+    return info;
+  }, [chatgptThread]);
 
   const filteredMessages = useMemo(() => {
     let messages = allMessages;
@@ -32,70 +123,233 @@ export function ConversationViewer({ conversation, conversationType }: Conversat
     // Filter by sender
     if (filterSender !== 'all') {
       if (conversationType === 'claude') {
-        messages = (messages as ClaudeChatMessage[]).filter(msg => msg.sender === filterSender);
+        messages = (messages as ClaudeChatMessage[]).filter(msg =>
+          filterSender === 'tool'
+            ? DataParser.isClaudeToolMessage(msg)
+            : msg.sender === filterSender && !DataParser.isClaudeToolResultMessage(msg)
+        );
+      } else if (filterSender === 'tool') {
+        messages = (messages as ChatGPTMessage[]).filter(msg => DataParser.isChatGPTToolMessage(msg));
       } else {
         const senderRole = filterSender === 'human' ? 'user' : 'assistant';
-        messages = (messages as ChatGPTMessage[]).filter(msg => msg.author.role === senderRole);
+        messages = (messages as ChatGPTMessage[]).filter(msg =>
+          msg.author.role === senderRole && !DataParser.isChatGPTToolMessage(msg)
+        );
       }
     }
 
     // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      if (conversationType === 'claude') {
-        messages = (messages as ClaudeChatMessage[]).filter(msg => 
-          msg.text.toLowerCase().includes(query) ||
-          msg.uuid.toLowerCase().includes(query)
-        );
-      } else {
-        messages = (messages as ChatGPTMessage[]).filter(msg => 
-          (msg.content?.parts?.some(part => 
-            typeof part === 'string' && part.toLowerCase().includes(query)
-          ) || false) ||
-          msg.id.toLowerCase().includes(query)
-        );
-      }
+    if (search.node) {
+      const conversationTitle = 'name' in conversation ? conversation.name : conversation.title;
+      messages = (messages as (ClaudeChatMessage | ChatGPTMessage)[]).filter(msg =>
+        SearchQuery.matchesMessage(search.node, msg, conversationTitle)
+      ) as typeof messages;
     }
 
-    // Sort messages
+    // Sort messages (ChatGPT messages are already in thread order)
     if (conversationType === 'claude') {
-      return (messages as ClaudeChatMessage[]).sort((a, b) => 
+      return [...(messages as ClaudeChatMessage[])].sort((a, b) => 
         new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
       );
+    }
+    return messages;
+  }, [allMessages, search, filterSender, conversationType, conversation]);
+
+  // Reply and think times plus idle gaps over the whole visible thread
+  const pacing = useMemo(() => {
+    const report = Pacing.analyze(Timeline.toTimedMessages(allMessages));
+    return {
+      report,
+      medianResponse: Pacing.summarize(report.responseTimes)?.median,
+      medianThink: Pacing.summarize(report.thinkTimes)?.median,
+      gapsByMessageId: new Map(report.idleGaps.map(gap => [gap.messageId, gap]))
+    };
+  }, [allMessages]);
+
+  // Gap separators only make sense between neighbouring messages, i.e. when nothing is filtered out
+  const showIdleGaps = !search.node && filterSender === 'all';
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Offset of the message list below the header cards, which share the scroll container
+  const [listOffset, setListOffset] = useState(0);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    const header = scrollRef.current?.firstElementChild;
+    if (!list || !header) return;
+    const updateOffset = () => setListOffset(list.offsetTop);
+    updateOffset();
+    const observer = new ResizeObserver(updateOffset);
+    observer.observe(header);
+    return () => observer.disconnect();
+  }, []);
+
+  const virtualizer = useVirtualizer({
+    count: filteredMessages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_MESSAGE_HEIGHT,
+    getItemKey: (index) => getMessageId(filteredMessages[index]),
+    scrollMargin: listOffset,
+    overscan: 4
+  });
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [conversation]);
+
+  // Selects a message and scrolls it into view; unmounted rows have no DOM node to scroll to
+  const jumpToMessage = (messageId: string) => {
+    setSelectedMessageId(messageId);
+    const index = filteredMessages.findIndex(message => getMessageId(message) === messageId);
+    if (index !== -1) {
+      virtualizer.scrollToIndex(index, { align: 'center' });
+    }
+  };
+
+  // Matches per visible message, counted in the text MessageItem highlights (body,
+  // thinking blocks and attachment content) so "match N of M" spans the whole thread
+  const matchCounts = useMemo(() => {
+    const matcher = search.matcher;
+    if (!matcher) return [];
+    return (filteredMessages as (ClaudeChatMessage | ChatGPTMessage)[])
+      .map(message => matcher(SearchQuery.fromMessage(message).text).length);
+  }, [filteredMessages, search.matcher]);
+
+  const totalMatches = useMemo(() => matchCounts.reduce((sum, count) => sum + count, 0), [matchCounts]);
+  // The step is kept with the counts it indexes into, so a new query or filter starts
+  // over at -1 (no match selected) in the same render instead of one effect later
+  const [matchStep, setMatchStep] = useState({ index: -1, counts: matchCounts });
+  const activeMatch = matchStep.counts === matchCounts ? matchStep.index : -1;
+
+  const stepMatch = (delta: number) => {
+    if (totalMatches === 0) return;
+    setMatchStep(current => {
+      const index = current.counts === matchCounts ? current.index : -1;
+      return {
+        counts: matchCounts,
+        index: index === -1 ? (delta > 0 ? 0 : totalMatches - 1) : (index + delta + totalMatches) % totalMatches
+      };
+    });
+  };
+
+  // Scrolls the message holding the active match into view, then the match itself once
+  // the row has mounted; collapsed sections containing matches are already open
+  useEffect(() => {
+    const matcher = search.matcher;
+    if (activeMatch === -1 || !matcher) return;
+
+    let index = 0;
+    let occurrence = activeMatch;
+    while (index < matchCounts.length && occurrence >= matchCounts[index]) {
+      occurrence -= matchCounts[index];
+      index++;
+    }
+    if (index >= matchCounts.length) return;
+
+    virtualizer.scrollToIndex(index, { align: 'auto' });
+
+    let frame = 0;
+    let attempts = 0;
+    let lastScrollTop = -1;
+    const reveal = () => {
+      const container = scrollRef.current;
+      if (!container) return;
+      const sections = container.querySelectorAll(`[data-index="${index}"] [data-search-content]`);
+      const settled = container.scrollTop === lastScrollTop;
+      lastScrollTop = container.scrollTop;
+      if ((sections.length === 0 || !settled) && attempts++ < MAX_REVEAL_FRAMES) {
+        frame = requestAnimationFrame(reveal);
+        return;
+      }
+
+      // Rendered Markdown can differ slightly from the source text the count came from
+      const ranges = [...sections].flatMap(section => findTextRanges(section, matcher));
+      const range = ranges[Math.min(occurrence, ranges.length - 1)];
+      if (!range) return;
+      scrollRangeIntoView(range);
+      markActiveMatch(range);
+    };
+
+    frame = requestAnimationFrame(reveal);
+    return () => {
+      cancelAnimationFrame(frame);
+      markActiveMatch(null);
+    };
+  }, [activeMatch, matchCounts, search.matcher, virtualizer]);
+
+  // F3 / Ctrl+G step through matches like a browser's find bar; Shift goes backwards
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (totalMatches === 0) return;
+      if (e.key === 'F3' || ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g')) {
+        e.preventDefault();
+        stepMatch(e.shiftKey ? -1 : 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [totalMatches, matchCounts]);
+
+  // If the requested message is hidden by the current filters or branch, clear them
+  // once and try again on the next render
+  const pendingFocusRef = useRef<{ messageId: string; reset: boolean } | null>(null);
+
+  useEffect(() => {
+    if (focusMessage) {
+      pendingFocusRef.current = { messageId: focusMessage.messageId, reset: false };
+    }
+  }, [focusMessage]);
+
+  useEffect(() => {
+    const pending = pendingFocusRef.current;
+    if (!pending) return;
+
+    if (filteredMessages.some(message => getMessageId(message) === pending.messageId)) {
+      pendingFocusRef.current = null;
+      jumpToMessage(pending.messageId);
+    } else if (!pending.reset && (searchQuery || filterSender !== 'all' || activeLeafId)) {
+      pending.reset = true;
+      onFiltersChange({ searchQuery: '', filterSender: 'all' });
+      setActiveLeafId(undefined);
     } else {
-      return (messages as ChatGPTMessage[]).sort((a, b) => {
-        if (a.create_time === null) return -1;
-        if (b.create_time === null) return 1;
-        return a.create_time - b.create_time;
-      });
+      pendingFocusRef.current = null;
     }
-  }, [allMessages, searchQuery, filterSender, conversationType]);
+  }, [focusMessage, filteredMessages]);
 
   const conversationStats = useMemo(() => {
     const messages = allMessages;
     
     if (conversationType === 'claude') {
       const claudeMessages = messages as ClaudeChatMessage[];
-      const humanCount = claudeMessages.filter(m => m.sender === 'human').length;
+      const humanCount = claudeMessages.filter(m =>
+        m.sender === 'human' && !DataParser.isClaudeToolResultMessage(m)
+      ).length;
       const assistantCount = claudeMessages.filter(m => m.sender === 'assistant').length;
       const feedbackCount = claudeMessages.filter(m => m.chat_feedback).length;
+      const toolCount = claudeMessages.filter(m => DataParser.isClaudeToolMessage(m)).length;
       
       return {
         total: messages.length,
         human: humanCount,
         assistant: assistantCount,
-        feedback: feedbackCount
+        feedback: feedbackCount,
+        tool: toolCount
       };
     } else {
       const chatgptMessages = messages as ChatGPTMessage[];
+      const toolCount = chatgptMessages.filter(m => DataParser.isChatGPTToolMessage(m)).length;
       const humanCount = chatgptMessages.filter(m => m.author.role === 'user').length;
-      const assistantCount = chatgptMessages.filter(m => m.author.role === 'assistant').length;
+      const assistantCount = chatgptMessages.filter(m =>
+        m.author.role === 'assistant' && !DataParser.isChatGPTToolMessage(m)
+      ).length;
       
       return {
         total: messages.length,
         human: humanCount,
         assistant: assistantCount,
-        feedback: 0 // ChatGPT doesn't have feedback in the exported format
+        feedback: 0, // ChatGPT doesn't have feedback in the exported format
+        tool: toolCount
       };
     }
   }, [allMessages, conversationType]);
@@ -106,8 +360,9 @@ export function ConversationViewer({ conversation, conversationType }: Conversat
       const conv = conversation as ClaudeConversation;
       return {
         title: conv.name,
-        createdDate: new Date(conv.created_at).toLocaleDateString(),
-        updatedDate: new Date(conv.updated_at).toLocaleDateString(),
+        // API log records may carry no time at all
+        createdDate: conv.created_at ? new Date(conv.created_at).toLocaleDateString() : 'Unknown',
+        updatedDate: conv.updated_at ? new Date(conv.updated_at).toLocaleDateString() : 'Unknown',
         conversationId: conv.uuid
       };
     } else {
@@ -124,147 +379,309 @@ export function ConversationViewer({ conversation, conversationType }: Conversat
   const assistantName = conversationType === 'claude' ? 'Claude' : 'ChatGPT';
 
   return (
-    <div className="space-y-6">
-      {/* Conversation Header */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <MessageCircle className="h-5 w-5" />
-            {title}
-          </CardTitle>
-          <CardDescription>ID: {conversationId}</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-            <div>
-              <span className="font-medium">Created:</span> {createdDate}
-            </div>
-            <div>
-              <span className="font-medium">Updated:</span> {updatedDate}
-            </div>
-            <div>
-              <span className="font-medium">Messages:</span> {allMessages.length}
+    <div ref={scrollRef} className="relative h-full overflow-y-auto p-6">
+      <div className="space-y-6">
+        {/* Conversation Header */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageCircle className="h-5 w-5" />
+              {title}
+            </CardTitle>
+            <CardDescription>ID: {conversationId}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <span className="font-medium">Created:</span> {createdDate}
+              </div>
+              <div>
+                <span className="font-medium">Updated:</span> {updatedDate}
+              </div>
+              <div>
+                <span className="font-medium">Messages:</span> {allMessages.length}
+              </div>
             </div>
-          </div>
 
-          <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="bg-muted p-3 rounded-lg text-center">
-              <div className="text-2xl font-bold">{conversationStats.total}</div>
-              <div className="text-xs text-muted-foreground">Total Messages</div>
-            </div>
-            <div className="bg-blue-50 p-3 rounded-lg text-center">
-              <div className="text-2xl font-bold text-blue-600">{conversationStats.human}</div>
-              <div className="text-xs text-muted-foreground">User Messages</div>
-            </div>
-            <div className="bg-green-50 p-3 rounded-lg text-center">
-              <div className="text-2xl font-bold text-green-600">{conversationStats.assistant}</div>
-              <div className="text-xs text-muted-foreground">{assistantName} Messages</div>
-            </div>
-            {conversationType === 'claude' && (
-              <div className="bg-orange-50 p-3 rounded-lg text-center">
-                <div className="text-2xl font-bold text-orange-600">{conversationStats.feedback}</div>
-                <div className="text-xs text-muted-foreground">With Feedback</div>
+            {sessionMetadata && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                {sessionMetadata.cwd && (
+                  <div className="truncate">
+                    <span className="font-medium">Directory:</span> <span className="font-mono text-xs">{sessionMetadata.cwd}</span>
+                  </div>
+                )}
+                {sessionMetadata.gitBranch && (
+                  <div>
+                    <span className="font-medium">Git branch:</span> {sessionMetadata.gitBranch}
+                  </div>
+                )}
+                {sessionMetadata.models.length > 0 && (
+                  <div>
+                    <span className="font-medium">Models:</span> {sessionMetadata.models.join(', ')}
+                  </div>
+                )}
+                <div>
+                  <span className="font-medium">Events:</span> {sessionMetadata.eventCount}
+                  {sessionMetadata.version && ` • CLI v${sessionMetadata.version}`}
+                </div>
               </div>
             )}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Search and Filter Controls */}
-      <Card>
-        <CardContent className="pt-6">
-          <div className="flex flex-col md:flex-row gap-4">
-            <div className="flex-1 relative">
-              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search messages..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            <div className="flex gap-2">
-              <Button
-                variant={filterSender === 'all' ? 'default' : 'outline'}
-                size="sm"
-                onClick={() => setFilterSender('all')}
-              >
-                <Filter className="h-4 w-4 mr-1" />
-                All
-              </Button>
-              <Button
-                variant={filterSender === 'human' ? 'default' : 'outline'}
-                size="sm"
-                onClick={() => setFilterSender('human')}
-              >
-                <User className="h-4 w-4 mr-1" />
-                User
-              </Button>
-              <Button
-                variant={filterSender === 'assistant' ? 'default' : 'outline'}
-                size="sm"
-                onClick={() => setFilterSender('assistant')}
-              >
-                <Bot className="h-4 w-4 mr-1" />
-                {assistantName}
-              </Button>
-            </div>
-          </div>
-          
-          {searchQuery && (
-            <div className="mt-2 text-sm text-muted-foreground">
-              Found {filteredMessages.length} message{filteredMessages.length !== 1 ? 's' : ''}
-              {searchQuery && ` matching "${searchQuery}"`}
+
+            {apiMetadata && <ApiCallDetails metadata={apiMetadata} />}
+
+            {pacing.report.messageCount > 1 && (
+              <div className="mt-4 flex flex-wrap items-center gap-x-6 gap-y-1 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <Timer className="h-4 w-4" />
+                  Median reply: {pacing.medianResponse !== undefined ? formatDuration(pacing.medianResponse) : '—'}
+                </span>
+                <span>
+                  Median think time: {pacing.medianThink !== undefined ? formatDuration(pacing.medianThink) : '—'}
+                </span>
+                <span title={`Pauses of ${formatDuration(IDLE_THRESHOLD)} or more`}>
+                  Idle gaps: {pacing.report.idleGaps.length}
+                </span>
+                <span>
+                  Sessions: {pacing.report.sessions.length}
+                </span>
+              </div>
+            )}
+
+            <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-muted p-3 rounded-lg text-center">
+                <div className="text-2xl font-bold">{conversationStats.total}</div>
+                <div className="text-xs text-muted-foreground">Total Messages</div>
+              </div>
+              <div className="bg-blue-50 p-3 rounded-lg text-center">
+                <div className="text-2xl font-bold text-blue-600">{conversationStats.human}</div>
+                <div className="text-xs text-muted-foreground">User Messages</div>
+              </div>
+              <div className="bg-green-50 p-3 rounded-lg text-center">
+                <div className="text-2xl font-bold text-green-600">{conversationStats.assistant}</div>
+                <div className="text-xs text-muted-foreground">{assistantName} Messages</div>
+              </div>
+              {conversationType === 'claude' && (
+                <div className="bg-orange-50 p-3 rounded-lg text-center">
+                  <div className="text-2xl font-bold text-orange-600">{conversationStats.feedback}</div>
+                  <div className="text-xs text-muted-foreground">With Feedback</div>
+                </div>
+              )}
+              {(conversationType === 'chatgpt' || conversationStats.tool > 0) && (
+                <div className="bg-amber-50 p-3 rounded-lg text-center">
+                  <div className="text-2xl font-bold text-amber-600">{conversationStats.tool}</div>
+                  <div className="text-xs text-muted-foreground">Tool Calls & Results</div>
+                </div>
+              )}
             </div>
-          )}
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
 
-      {/* Messages List */}
-      <div className="space-y-4">
-        {filteredMessages.length === 0 ? (
+        {/* Branch Explorer (ChatGPT edit/regenerate history) */}
+        {conversationType === 'chatgpt' && branchSummary.forks + branchSummary.hiddenMessages > 0 && (
           <Card>
-            <CardContent className="p-8 text-center">
-              <MessageCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-              <p className="text-muted-foreground">
-                {searchQuery || filterSender !== 'all' 
-                  ? 'No messages match your current filters.' 
-                  : 'No messages found in this conversation.'}
-              </p>
-              {(searchQuery || filterSender !== 'all') && (
-                <Button 
-                  variant="outline" 
-                  className="mt-4"
-                  onClick={() => {
-                    setSearchQuery('');
-                    setFilterSender('all');
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-2 text-base">
+                <span className="flex items-center gap-2">
+                  <GitBranch className="h-4 w-4" />
+                  Branch Explorer
+                </span>
+                <Button variant="outline" size="sm" onClick={() => setShowBranchTree(!showBranchTree)}>
+                  {showBranchTree ? 'Hide tree' : 'Show tree'}
+                </Button>
+              </CardTitle>
+              <CardDescription>
+                {branchSummary.forks} fork point{branchSummary.forks !== 1 ? 's' : ''} on this path • {branchSummary.hiddenMessages} message{branchSummary.hiddenMessages !== 1 ? 's' : ''} in other branches
+                {activeLeafId && (
+                  <>
+                    {' • '}
+                    <button type="button" className="underline" onClick={() => setActiveLeafId(undefined)}>
+                      Back to current branch
+                    </button>
+                  </>
+                )}
+              </CardDescription>
+            </CardHeader>
+            {showBranchTree && (
+              <CardContent>
+                <div className="max-h-96 overflow-y-auto">
+                  <ConversationTree
+                    conversation={conversation as ChatGPTConversation}
+                    activeNodeIds={activeNodeIds}
+                    onSelectNode={handleSelectTreeNode}
+                  />
+                </div>
+              </CardContent>
+            )}
+          </Card>
+        )}
+
+        {/* Search and Filter Controls */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1">
+                <SearchQueryInput
+                  placeholder='Search messages... ("phrase", /regex/, sender:, has:, before:)'
+                  value={searchQuery}
+                  onChange={(query) => onFiltersChange({ searchQuery: query })}
+                  error={search.error}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      stepMatch(e.shiftKey ? -1 : 1);
+                    }
                   }}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant={filterSender === 'all' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onFiltersChange({ filterSender: 'all' })}
                 >
-                  Clear Filters
+                  <Filter className="h-4 w-4 mr-1" />
+                  All
                 </Button>
-              )}
-            </CardContent>
-          </Card>
-        ) : (
-          filteredMessages.map((message) => {
-            const messageId = conversationType === 'claude' 
-              ? (message as ClaudeChatMessage).uuid 
-              : (message as ChatGPTMessage).id;
-            
-            return (
-              <MessageItem
-                key={messageId}
-                message={message}
-                messageType={conversationType}
-                isSelected={selectedMessageId === messageId}
-                onClick={() => setSelectedMessageId(
-                  selectedMessageId === messageId ? null : messageId
+                <Button
+                  variant={filterSender === 'human' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onFiltersChange({ filterSender: 'human' })}
+                >
+                  <User className="h-4 w-4 mr-1" />
+                  User
+                </Button>
+                <Button
+                  variant={filterSender === 'assistant' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onFiltersChange({ filterSender: 'assistant' })}
+                >
+                  <Bot className="h-4 w-4 mr-1" />
+                  {assistantName}
+                </Button>
+                {(conversationType === 'chatgpt' || conversationStats.tool > 0) && (
+                  <Button
+                    variant={filterSender === 'tool' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => onFiltersChange({ filterSender: 'tool' })}
+                  >
+                    <Wrench className="h-4 w-4 mr-1" />
+                    Tool
+                  </Button>
                 )}
-              />
-            );
-          })
-        )}
+              </div>
+            </div>
+          
+            {search.node && (
+              <div className="mt-2 flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                <span>
+                  Found {filteredMessages.length} message{filteredMessages.length !== 1 ? 's' : ''}
+                  {searchQuery && ` matching "${searchQuery}"`}
+                </span>
+                {totalMatches > 0 && (
+                  <div className="flex flex-shrink-0 items-center gap-1">
+                    <span className="tabular-nums">
+                      {activeMatch === -1
+                        ? `${totalMatches} match${totalMatches !== 1 ? 'es' : ''}`
+                        : `Match ${activeMatch + 1} of ${totalMatches}`}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title="Previous match (Shift+Enter, Shift+F3)"
+                      onClick={() => stepMatch(-1)}
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title="Next match (Enter, F3)"
+                      onClick={() => stepMatch(1)}
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Messages List */}
+        <div ref={listRef}>
+          {filteredMessages.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <MessageCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">
+                  {searchQuery || filterSender !== 'all' 
+                    ? 'No messages match your current filters.' 
+                    : 'No messages found in this conversation.'}
+                </p>
+                {(searchQuery || filterSender !== 'all') && (
+                  <Button 
+                    variant="outline" 
+                    className="mt-4"
+                    onClick={() => {
+                      onFiltersChange({ searchQuery: '', filterSender: 'all' });
+                    }}
+                  >
+                    Clear Filters
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualizer.getVirtualItems().map((virtualRow) => {
+                const message = filteredMessages[virtualRow.index];
+                const messageId = getMessageId(message);
+                const idleGap = showIdleGaps ? pacing.gapsByMessageId.get(messageId) : undefined;
+
+                return (
+                  // flow-root keeps the item's bottom margin inside the measured height
+                  <div
+                    key={virtualRow.key}
+                    ref={virtualizer.measureElement}
+                    data-index={virtualRow.index}
+                    className="absolute inset-x-0 top-0 flow-root"
+                    style={{ transform: `translateY(${virtualRow.start - virtualizer.options.scrollMargin}px)` }}
+                  >
+                    {idleGap && <IdleGapSeparator duration={idleGap.duration} resumedAt={idleGap.start + idleGap.duration} />}
+                    <MessageItem
+                      message={message}
+                      messageType={conversationType}
+                      branch={branchInfoById.get(messageId)}
+                      onSwitchBranch={(delta) => switchBranch(messageId, delta)}
+                      highlight={search.matcher}
+                      isSelected={selectedMessageId === messageId}
+                      onClick={() => setSelectedMessageId(
+                        selectedMessageId === messageId ? null : messageId
+                      )}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Marks where the conversation went quiet for longer than the idle threshold
+function IdleGapSeparator({ duration, resumedAt }: { duration: number; resumedAt: number }) {
+  return (
+    <div className="mb-4 flex items-center gap-3 text-xs text-muted-foreground">
+      <div className="h-px flex-1 bg-border" />
+      <span className="flex items-center gap-1" title={`Resumed ${new Date(resumedAt).toLocaleString()}`}>
+        <Hourglass className="h-3 w-3" />
+        {formatDuration(duration)} later
+      </span>
+      <div className="h-px flex-1 bg-border" />
+    </div>
+  );
+}
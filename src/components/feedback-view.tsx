@@ -0,0 +1,221 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ThumbsUp, ThumbsDown, Download, MessageCircle, X } from 'lucide-react';
+import { Feedback, type FeedbackEntry, type FeedbackFilter, type FeedbackRating } from '@/lib/feedback';
+import { downloadFile } from '@/lib/utils';
+
+interface FeedbackViewProps {
+  entries: FeedbackEntry[];
+  filename: string;
+  onOpenMessage: (conversationId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 100;
+const NO_REASON_LABEL = '(no reason given)';
+
+const RATING_LABELS: Record<FeedbackRating, string> = { good: 'Positive', bad: 'Negative' };
+
+export function FeedbackView({ entries, filename, onOpenMessage, onClose }: FeedbackViewProps) {
+  const [filter, setFilter] = useState<FeedbackFilter>({});
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const groups = useMemo(() => Feedback.group(entries), [entries]);
+  const filteredEntries = useMemo(() => Feedback.filter(entries, filter), [entries, filter]);
+
+  const updateFilter = (changes: Partial<FeedbackFilter>) => {
+    setFilter(current => ({ ...current, ...changes }));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  // Clicking the selected reason again shows every reason of that rating
+  const toggleGroup = (rating: FeedbackRating, reason: string) => {
+    const isActive = filter.rating === rating && filter.reason === reason;
+    updateFilter(isActive ? { reason: undefined } : { rating, reason });
+  };
+
+  const exportJsonl = () => {
+    downloadFile(Feedback.toJsonl(filteredEntries), `${filename.replace(/\.[^.]+$/, '')}-feedback.jsonl`, 'application/x-ndjson');
+  };
+
+  const counts = { good: 0, bad: 0 };
+  for (const entry of entries) counts[entry.rating]++;
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ThumbsDown className="h-5 w-5" />
+                Feedback Review
+              </CardTitle>
+              <CardDescription>
+                {entries.length.toLocaleString()} rated message{entries.length !== 1 ? 's' : ''} • {counts.bad.toLocaleString()} negative • {counts.good.toLocaleString()} positive
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="sm" onClick={exportJsonl} disabled={filteredEntries.length === 0}>
+                <Download className="h-4 w-4 mr-1" />
+                JSONL ({filteredEntries.length.toLocaleString()})
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onClose} className="text-muted-foreground hover:text-foreground">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        {entries.length > 0 && (
+          <CardContent className="flex flex-wrap items-center gap-4">
+            <div className="flex gap-1">
+              <Button
+                variant={!filter.rating ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => updateFilter({ rating: undefined, reason: undefined })}
+              >
+                All
+              </Button>
+              {(['bad', 'good'] as FeedbackRating[]).map(rating => (
+                <Button
+                  key={rating}
+                  variant={filter.rating === rating ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => updateFilter({ rating, reason: undefined })}
+                >
+                  {RATING_LABELS[rating]}
+                </Button>
+              ))}
+            </div>
+            <Input
+              value={filter.text ?? ''}
+              onChange={(event) => updateFilter({ text: event.target.value || undefined })}
+              placeholder="Filter prompts, replies and reasons…"
+              className="max-w-sm"
+            />
+          </CardContent>
+        )}
+      </Card>
+
+      {entries.length === 0 ? (
+        <div className="p-8 text-center text-sm text-muted-foreground">
+          No rated messages in this file. Only Claude exports include thumbs-up/down feedback.
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            {(['bad', 'good'] as FeedbackRating[]).map(rating => {
+              const ratingGroups = groups.filter(group => group.rating === rating);
+              const Icon = rating === 'good' ? ThumbsUp : ThumbsDown;
+              return (
+                <Card key={rating}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <Icon className={`h-4 w-4 ${rating === 'good' ? 'text-green-600' : 'text-red-600'}`} />
+                      {RATING_LABELS[rating]} by reason
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1">
+                    {ratingGroups.length === 0 && (
+                      <div className="text-sm text-muted-foreground">No {RATING_LABELS[rating].toLowerCase()} ratings.</div>
+                    )}
+                    {ratingGroups.map(group => {
+                      const isActive = filter.rating === rating && filter.reason === group.reason;
+                      return (
+                        <button
+                          key={group.reason}
+                          type="button"
+                          onClick={() => toggleGroup(rating, group.reason)}
+                          className={`flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm transition-colors ${isActive ? 'bg-primary/10 ring-1 ring-primary' : 'hover:bg-muted'}`}
+                        >
+                          <span className={`flex-1 truncate ${group.reason ? '' : 'italic text-muted-foreground'}`}>
+                            {group.reason || NO_REASON_LABEL}
+                          </span>
+                          <span className="relative h-2 w-24 flex-shrink-0 rounded-full bg-muted overflow-hidden">
+                            <span
+                              className={`absolute inset-y-0 left-0 ${rating === 'good' ? 'bg-green-500' : 'bg-red-500'}`}
+                              style={{ width: `${(group.entries.length / counts[rating]) * 100}%` }}
+                            />
+                          </span>
+                          <span className="w-12 flex-shrink-0 text-right tabular-nums">{group.entries.length.toLocaleString()}</span>
+                        </button>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {filteredEntries.length === 0 ? (
+            <div className="p-8 text-center text-sm text-muted-foreground">
+              No rated messages match the filter.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {filteredEntries.slice(0, visibleCount).map(entry => (
+                <FeedbackItem key={`${entry.conversationId}:${entry.messageId}`} entry={entry} onOpen={() => onOpenMessage(entry.conversationId, entry.messageId)} />
+              ))}
+              {filteredEntries.length > visibleCount && (
+                <div className="pt-2 text-center">
+                  <Button variant="outline" size="sm" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+                    Show {Math.min(PAGE_SIZE, filteredEntries.length - visibleCount).toLocaleString()} more
+                    ({(filteredEntries.length - visibleCount).toLocaleString()} remaining)
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function FeedbackItem({ entry, onOpen }: { entry: FeedbackEntry; onOpen: () => void }) {
+  const [expanded, setExpanded] = useState(false);
+  const Icon = entry.rating === 'good' ? ThumbsUp : ThumbsDown;
+  // Long replies are clamped until the row is expanded
+  const textClass = `mt-1 whitespace-pre-wrap break-words text-sm ${expanded ? '' : 'line-clamp-4'}`;
+
+  return (
+    <div className="rounded-lg border bg-background p-3">
+      <div className="flex items-center gap-2 text-xs">
+        <span className={`flex flex-shrink-0 items-center gap-1 rounded px-1.5 py-0.5 ${entry.rating === 'good' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+          <Icon className="h-3 w-3" />
+          {entry.reason || RATING_LABELS[entry.rating]}
+        </span>
+        <span className="font-medium text-sm truncate">
+          {entry.conversationTitle.trim() || '[Untitled Conversation]'}
+        </span>
+        {entry.ratedAt !== undefined && (
+          <span className="flex-shrink-0 text-muted-foreground">{new Date(entry.ratedAt).toLocaleString()}</span>
+        )}
+        <div className="ml-auto flex flex-shrink-0 gap-1">
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Collapse' : 'Expand'}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onOpen}>
+            <MessageCircle className="h-3 w-3 mr-1" />
+            Open message
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-2 space-y-2">
+        <div className="rounded bg-blue-50 p-2">
+          <div className="text-xs font-medium text-blue-700">User</div>
+          <p className={textClass}>
+            {entry.prompt ? entry.prompt.text || '(no text)' : <span className="italic text-muted-foreground">No earlier user message</span>}
+          </p>
+        </div>
+        <div className="rounded bg-muted/50 p-2">
+          <div className="text-xs font-medium text-muted-foreground">Assistant</div>
+          <p className={textClass}>{entry.response || '(no text)'}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,35 +1,69 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Upload, FileText, AlertCircle } from 'lucide-react';
-import { DataParser } from '@/lib/parser';
-import type { FileUploadResult, ParsedData } from '@/types/data';
+import { ParseClient, type ParseTask } from '@/lib/parse-client';
+import { formatBytes } from '@/lib/utils';
+import type { ParsedData, ParseProgress } from '@/types/data';
 
 interface FileUploadProps {
   onDataLoaded: (data: ParsedData) => void;
   onError: (error: string) => void;
+  // Called with each batch of a streamed conversation array; `cancel` stops the remaining parse
+  onPartialData?: (data: ParsedData, cancel: () => void) => void;
 }
 
-export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
+interface UploadSummary {
+  filename: string;
+  size: number;
+  format: string;
+  lastModified: Date;
+  conversationFiles?: string[];
+}
+
+export function FileUpload({ onDataLoaded, onError, onPartialData }: FileUploadProps) {
   const [isProcessing, setIsProcessing] = useState(false);
-  const [uploadResult, setUploadResult] = useState<FileUploadResult | null>(null);
+  const [uploadSummary, setUploadSummary] = useState<UploadSummary | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const parseTaskRef = useRef<ParseTask | null>(null);
 
   const processFile = useCallback(async (file: File) => {
     setIsProcessing(true);
+    setProgress({ phase: 'reading', loaded: 0, total: file.size });
+
+    const task = ParseClient.parse(
+      file,
+      setProgress,
+      onPartialData && (data => onPartialData(data, task.cancel))
+    );
+    parseTaskRef.current = task;
     try {
-      const uploadResult = await DataParser.parseFile(file);
-      setUploadResult(uploadResult);
-      
-      const parsedData = DataParser.parseData(uploadResult);
-      onDataLoaded(parsedData);
+      const { data, format } = await task.promise;
+      setUploadSummary({
+        filename: file.name,
+        size: file.size,
+        format,
+        lastModified: new Date(file.lastModified),
+        conversationFiles: data.metadata.archive?.conversationFiles
+      });
+      onDataLoaded(data);
     } catch (error) {
-      onError(error instanceof Error ? error.message : 'Failed to process file');
+      if (!ParseClient.isCancellation(error)) {
+        onError(error instanceof Error ? error.message : 'Failed to process file');
+      }
     } finally {
+      parseTaskRef.current = null;
       setIsProcessing(false);
+      setProgress(null);
     }
-  }, [onDataLoaded, onError]);
+  }, [onDataLoaded, onError, onPartialData]);
+
+  const handleCancel = useCallback((event: React.MouseEvent) => {
+    event.stopPropagation();
+    parseTaskRef.current?.cancel();
+  }, []);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
@@ -41,8 +75,11 @@ export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
     onDrop,
     accept: {
       'application/json': ['.json'],
+      'application/x-ndjson': ['.jsonl', '.ndjson'],
       'text/yaml': ['.yaml', '.yml'],
-      'application/x-yaml': ['.yaml', '.yml']
+      'application/x-yaml': ['.yaml', '.yml'],
+      'application/zip': ['.zip'],
+      'application/x-zip-compressed': ['.zip']
     },
     multiple: false,
     disabled: isProcessing
@@ -64,7 +101,7 @@ export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
             Data File Upload
           </CardTitle>
           <CardDescription>
-            Upload a JSON or YAML file to visualize your data. Supports Claude conversation logs.
+            Upload a JSON, JSONL or YAML file, or an official Claude/ChatGPT export ZIP, to visualize your data.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -84,13 +121,26 @@ export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
               </div>
               
               {isProcessing ? (
-                <div>
-                  <p className="text-sm text-muted-foreground">Processing file...</p>
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    {progress?.phase === 'parsing'
+                      ? 'Parsing data...'
+                      : `Reading file... ${formatBytes(progress?.loaded ?? 0)} / ${formatBytes(progress?.total ?? 0)}`}
+                  </p>
+                  <div className="mx-auto h-2 max-w-xs overflow-hidden rounded-full bg-muted">
+                    <div
+                      className={`h-full bg-primary transition-all ${progress?.phase === 'parsing' ? 'animate-pulse' : ''}`}
+                      style={{ width: `${progress && progress.total > 0 ? (progress.loaded / progress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <Button variant="outline" size="sm" type="button" className="pointer-events-auto" onClick={handleCancel}>
+                    Cancel
+                  </Button>
                 </div>
               ) : isDragActive ? (
                 <div>
                   <p className="text-sm font-medium">Drop your file here</p>
-                  <p className="text-sm text-muted-foreground">JSON and YAML files are supported</p>
+                  <p className="text-sm text-muted-foreground">JSON, JSONL, YAML and ZIP files are supported</p>
                 </div>
               ) : (
                 <div>
@@ -110,18 +160,21 @@ export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
             <Alert className="mt-4">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                Only JSON (.json) and YAML (.yaml, .yml) files are supported.
+                Only JSON (.json), JSON Lines (.jsonl, .ndjson), YAML (.yaml, .yml) and ZIP (.zip) files are supported.
               </AlertDescription>
             </Alert>
           )}
 
-          {uploadResult && (
+          {uploadSummary && (
             <div className="mt-4 p-4 bg-muted rounded-lg">
               <div className="text-sm space-y-1">
-                <p><span className="font-medium">File:</span> {uploadResult.filename}</p>
-                <p><span className="font-medium">Size:</span> {(uploadResult.size / 1024).toFixed(1)} KB</p>
-                <p><span className="font-medium">Type:</span> {uploadResult.type.toUpperCase()}</p>
-                <p><span className="font-medium">Modified:</span> {uploadResult.lastModified.toLocaleString()}</p>
+                <p><span className="font-medium">File:</span> {uploadSummary.filename}</p>
+                <p><span className="font-medium">Size:</span> {formatBytes(uploadSummary.size)}</p>
+                <p><span className="font-medium">Type:</span> {uploadSummary.format.toUpperCase()}</p>
+                <p><span className="font-medium">Modified:</span> {uploadSummary.lastModified.toLocaleString()}</p>
+                {uploadSummary.conversationFiles && (
+                  <p><span className="font-medium">Conversation files:</span> {uploadSummary.conversationFiles.join(', ')}</p>
+                )}
               </div>
             </div>
           )}
@@ -129,4 +182,4 @@ export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
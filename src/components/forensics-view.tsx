@@ -0,0 +1,207 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert, ChevronDown, ChevronRight, MessageCircle, ExternalLink, X } from 'lucide-react';
+import { FINDING_LABELS, type FindingKind, type ForensicFinding } from '@/lib/forensics';
+import type { SearchSender } from '@/lib/search-index';
+
+interface ForensicsViewProps {
+  findings: ForensicFinding[];
+  conversationCount: number;
+  onOpenConversation: (conversationId: string) => void;
+  onOpenMessage: (conversationId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 100;
+
+const KIND_STYLES: Record<FindingKind, string> = {
+  'empty-title': 'bg-red-100 text-red-700',
+  'no-messages': 'bg-red-100 text-red-700',
+  'null-message': 'bg-orange-100 text-orange-700',
+  'dangling-parent': 'bg-orange-100 text-orange-700',
+  'missing-child': 'bg-orange-100 text-orange-700',
+  'edited': 'bg-amber-100 text-amber-700'
+};
+
+const SENDER_LABELS: Record<SearchSender, string> = {
+  human: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+  system: 'System'
+};
+
+export function ForensicsView({ findings, conversationCount, onOpenConversation, onOpenMessage, onClose }: ForensicsViewProps) {
+  const [hiddenKinds, setHiddenKinds] = useState<Set<FindingKind>>(new Set());
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const kindCounts = useMemo(() => {
+    const counts = new Map<FindingKind, number>();
+    for (const finding of findings) counts.set(finding.kind, (counts.get(finding.kind) ?? 0) + 1);
+    return counts;
+  }, [findings]);
+
+  const filteredFindings = useMemo(
+    () => findings.filter(finding => !hiddenKinds.has(finding.kind)),
+    [findings, hiddenKinds]
+  );
+
+  const affectedConversations = useMemo(
+    () => new Set(findings.map(finding => finding.conversationId)).size,
+    [findings]
+  );
+
+  const toggleKind = (kind: FindingKind) => {
+    setHiddenKinds(current => {
+      const next = new Set(current);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldAlert className="h-5 w-5" />
+                Deleted &amp; Orphaned Content
+              </CardTitle>
+              <CardDescription>
+                {findings.length.toLocaleString()} finding{findings.length !== 1 ? 's' : ''} in {affectedConversations.toLocaleString()} of {conversationCount.toLocaleString()} conversations
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose} className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        {kindCounts.size > 0 && (
+          <CardContent className="flex flex-wrap gap-1">
+            {(Object.keys(FINDING_LABELS) as FindingKind[]).filter(kind => kindCounts.has(kind)).map(kind => (
+              <Button
+                key={kind}
+                variant={hiddenKinds.has(kind) ? 'outline' : 'default'}
+                size="sm"
+                onClick={() => toggleKind(kind)}
+              >
+                {FINDING_LABELS[kind]} ({kindCounts.get(kind)!.toLocaleString()})
+              </Button>
+            ))}
+          </CardContent>
+        )}
+      </Card>
+
+      {filteredFindings.length === 0 ? (
+        <div className="p-8 text-center text-sm text-muted-foreground">
+          {findings.length === 0
+            ? 'Nothing in this file looks deleted, orphaned or edited.'
+            : 'All finding types are hidden.'}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {filteredFindings.slice(0, visibleCount).map((finding, index) => (
+            <FindingItem
+              key={`${finding.kind}:${finding.conversationId}:${finding.nodeId ?? finding.messageId ?? ''}:${index}`}
+              finding={finding}
+              onOpenConversation={onOpenConversation}
+              onOpenMessage={onOpenMessage}
+            />
+          ))}
+          {filteredFindings.length > visibleCount && (
+            <div className="pt-2 text-center">
+              <Button variant="outline" size="sm" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+                Show {Math.min(PAGE_SIZE, filteredFindings.length - visibleCount).toLocaleString()} more
+                ({(filteredFindings.length - visibleCount).toLocaleString()} remaining)
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface FindingItemProps {
+  finding: ForensicFinding;
+  onOpenConversation: (conversationId: string) => void;
+  onOpenMessage: (conversationId: string, messageId: string) => void;
+}
+
+function FindingItem({ finding, onOpenConversation, onOpenMessage }: FindingItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { recovered } = finding;
+  const hasContent = recovered.messages.length > 0;
+
+  return (
+    <div className="rounded-lg border bg-background p-3">
+      <div className="flex items-center gap-2 text-xs">
+        <span className={`flex-shrink-0 rounded px-1.5 py-0.5 ${KIND_STYLES[finding.kind]}`}>
+          {FINDING_LABELS[finding.kind]}
+        </span>
+        <span className="font-medium text-sm truncate">
+          {finding.conversationTitle.trim() || '[Untitled Conversation]'}
+        </span>
+        <div className="ml-auto flex flex-shrink-0 gap-1">
+          {finding.messageId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => onOpenMessage(finding.conversationId, finding.messageId!)}
+            >
+              <MessageCircle className="h-3 w-3 mr-1" />
+              Open message
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onOpenConversation(finding.conversationId)}>
+            <ExternalLink className="h-3 w-3 mr-1" />
+            Open conversation
+          </Button>
+        </div>
+      </div>
+
+      <p className="mt-2 text-sm">{finding.reason}</p>
+
+      <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+        {recovered.title && <span>Probable title: "{recovered.title}"</span>}
+        {recovered.timestamps.map(({ label, time }) => (
+          <span key={label}>{label}: {new Date(time).toLocaleString()}</span>
+        ))}
+        <span className="font-mono">{finding.nodeId ?? finding.messageId ?? finding.conversationId}</span>
+      </div>
+
+      {hasContent && (
+        <div className="mt-2">
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            Recovered content ({recovered.messages.length}
+            {recovered.survivingMessages !== undefined && recovered.survivingMessages > recovered.messages.length
+              ? ` of ${recovered.survivingMessages.toLocaleString()}`
+              : ''} message{recovered.messages.length !== 1 ? 's' : ''})
+          </button>
+          {expanded && (
+            <div className="mt-2 space-y-2">
+              {recovered.messages.map((message, index) => (
+                <div key={index} className="rounded bg-muted/50 p-2">
+                  <div className="text-xs font-medium text-muted-foreground">{SENDER_LABELS[message.sender]}</div>
+                  <pre className="mt-1 max-h-48 overflow-y-auto whitespace-pre-wrap break-words font-sans text-sm">
+                    {message.text || '(no text)'}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import React, { useState, useMemo, useEffect, useRef, useDeferredValue } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Search, X, TextSearch, Brain, Paperclip, Calendar, Loader2 } from 'lucide-react';
+import { SearchIndex, type SearchHit, type SearchSender } from '@/lib/search-index';
+import type { ClaudeConversation, ClaudeConversations, ChatGPTConversation, ChatGPTConversations } from '@/types/data';
+
+interface GlobalSearchProps {
+  conversations: ClaudeConversations | ChatGPTConversations;
+  onOpenMessage: (conversationId: string, messageId: string) => void;
+  onClose: () => void;
+  // Fills in the query, e.g. a term clicked in the word frequency view; a new object re-applies it
+  presetQuery?: { query: string } | null;
+}
+
+const RESULT_LIMIT = 200;
+// Indexing yields back to the browser after this long so typing stays responsive
+const INDEX_SLICE_MS = 12;
+
+const SENDER_LABELS: Record<SearchSender, string> = {
+  human: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+  system: 'System'
+};
+
+const SENDER_STYLES: Record<SearchSender, string> = {
+  human: 'bg-blue-100 text-blue-700',
+  assistant: 'bg-green-100 text-green-700',
+  tool: 'bg-amber-100 text-amber-700',
+  system: 'bg-muted text-muted-foreground'
+};
+
+/**
+ * Builds the index in short time slices. Conversations that arrive later (while a
+ * file is still streaming in) are added to the existing index.
+ */
+function useSearchIndex(conversations: ClaudeConversations | ChatGPTConversations) {
+  const indexRef = useRef(new SearchIndex());
+  const [indexedCount, setIndexedCount] = useState(0);
+  const [isIndexing, setIsIndexing] = useState(true);
+
+  useEffect(() => {
+    const index = indexRef.current;
+    const pending = (conversations as (ClaudeConversation | ChatGPTConversation)[])
+      .filter(conversation => !index.has(conversation));
+    let position = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const step = () => {
+      const deadline = performance.now() + INDEX_SLICE_MS;
+      while (position < pending.length && performance.now() < deadline) {
+        index.add(pending[position++]);
+      }
+      setIndexedCount(index.conversationCount);
+      setIsIndexing(position < pending.length);
+      if (position < pending.length) {
+        timer = setTimeout(step, 0);
+      }
+    };
+
+    timer = setTimeout(step, 0);
+    return () => clearTimeout(timer);
+  }, [conversations]);
+
+  return { index: indexRef.current, indexedCount, isIndexing };
+}
+
+export function GlobalSearch({ conversations, onOpenMessage, onClose, presetQuery }: GlobalSearchProps) {
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (presetQuery) setQuery(presetQuery.query);
+  }, [presetQuery]);
+  const deferredQuery = useDeferredValue(query);
+  const { index, indexedCount, isIndexing } = useSearchIndex(conversations);
+
+  // Re-run as batches land so early results fill in while indexing continues
+  const results = useMemo(
+    () => index.search(deferredQuery, RESULT_LIMIT),
+    [index, deferredQuery, indexedCount]
+  );
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <TextSearch className="h-5 w-5" />
+                Search All Messages
+              </CardTitle>
+              <CardDescription className="flex items-center gap-1">
+                {isIndexing && <Loader2 className="h-3 w-3 animate-spin" />}
+                {isIndexing
+                  ? `Indexing ${indexedCount.toLocaleString()} of ${conversations.length.toLocaleString()} conversations…`
+                  : `${index.documentCount.toLocaleString()} messages, thinking blocks and attachments in ${indexedCount.toLocaleString()} conversations`}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose} className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              autoFocus
+              placeholder="Search every message, thinking block and attachment..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          {deferredQuery.trim() && (
+            <div className="mt-2 text-sm text-muted-foreground">
+              {results.total.toLocaleString()} hit{results.total !== 1 ? 's' : ''}
+              {results.total > RESULT_LIMIT && ` • showing the best ${RESULT_LIMIT}`}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {deferredQuery.trim() && results.hits.length === 0 && !isIndexing && (
+        <div className="p-8 text-center text-sm text-muted-foreground">
+          No messages match "{deferredQuery}".
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {results.hits.map((hit, position) => (
+          <SearchHitItem
+            key={`${hit.document.messageId}-${hit.document.field}-${position}`}
+            hit={hit}
+            onOpen={() => onOpenMessage(hit.document.conversationId, hit.document.messageId)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SearchHitItem({ hit, onOpen }: { hit: SearchHit; onOpen: () => void }) {
+  const { document } = hit;
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className="w-full rounded-lg border bg-background p-3 text-left transition-colors hover:bg-muted"
+    >
+      <div className="flex items-center gap-2 text-xs">
+        <span className="font-medium text-sm truncate">
+          {document.conversationTitle.trim() || '[Untitled Conversation]'}
+        </span>
+        <span className={`flex-shrink-0 rounded px-1.5 py-0.5 ${SENDER_STYLES[document.sender]}`}>
+          {SENDER_LABELS[document.sender]}
+        </span>
+        {document.field === 'thinking' && (
+          <span className="flex flex-shrink-0 items-center gap-1 rounded bg-violet-100 px-1.5 py-0.5 text-violet-700">
+            <Brain className="h-3 w-3" />
+            Thinking
+          </span>
+        )}
+        {document.field === 'attachment' && (
+          <span className="flex min-w-0 items-center gap-1 rounded bg-muted px-1.5 py-0.5 text-muted-foreground">
+            <Paperclip className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{document.label}</span>
+          </span>
+        )}
+        {document.timestamp && (
+          <span className="ml-auto flex flex-shrink-0 items-center gap-1 text-muted-foreground">
+            <Calendar className="h-3 w-3" />
+            {new Date(document.timestamp).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+      <p className="mt-2 text-sm text-muted-foreground break-words">
+        {hit.snippet.map((part, index) => (
+          part.match
+            ? <mark key={index} className="bg-yellow-300 text-foreground">{part.text}</mark>
+            : <React.Fragment key={index}>{part.text}</React.Fragment>
+        ))}
+      </p>
+    </button>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useEffect, type RefObject } from 'react';
+import type { TextMatcher } from '@/lib/search-query';
+
+// A plain string is matched case-insensitively; a matcher comes from a parsed search query
+export type HighlightQuery = string | TextMatcher | null;
+
+interface HighlightProps {
+  text: string;
+  query: HighlightQuery;
+  className?: string;
+}
+
+export function toMatcher(query: HighlightQuery): TextMatcher | null {
+  if (typeof query !== 'string') return query;
+
+  const needle = query.trim().toLowerCase();
+  if (!needle) return null;
+  return (text: string) => {
+    const ranges: [number, number][] = [];
+    const haystack = text.toLowerCase();
+    for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+      ranges.push([index, index + needle.length]);
+    }
+    return ranges;
+  };
+}
+
+// Marks every match of `query` in `text`
+export function Highlight({ text, query, className = 'bg-yellow-300' }: HighlightProps) {
+  const matcher = toMatcher(query);
+  if (!matcher) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of matcher(text)) {
+    parts.push(text.slice(position, start));
+    parts.push(<mark key={start} className={className}>{text.slice(start, end)}</mark>);
+    position = end;
+  }
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+const SEARCH_HIGHLIGHT_NAME = 'search-match';
+
+/**
+ * Highlights `query` inside already-rendered content (Markdown, code blocks) using the
+ * CSS Custom Highlight API, so the DOM itself is left untouched. Each mounted element
+ * registers its own ranges, which keeps this cheap inside virtualized lists.
+ * `contentKey` should change whenever the element's content is re-rendered.
+ */
+export function useTextHighlight(ref: RefObject<HTMLElement | null>, query: HighlightQuery, contentKey?: unknown) {
+  useEffect(() => {
+    const root = ref.current;
+    const matcher = toMatcher(query);
+    if (!root || !matcher || typeof CSS === 'undefined' || !CSS.highlights) return;
+
+    let highlight = CSS.highlights.get(SEARCH_HIGHLIGHT_NAME);
+    if (!highlight) {
+      // `Highlight` here is the React component above, so reach for the DOM class explicitly
+      highlight = new globalThis.Highlight();
+      CSS.highlights.set(SEARCH_HIGHLIGHT_NAME, highlight);
+    }
+
+    const ranges = findTextRanges(root, matcher);
+    ranges.forEach(range => highlight.add(range));
+    return () => ranges.forEach(range => highlight.delete(range));
+  }, [ref, query, contentKey]);
+}
+
+export function findTextRanges(root: Node, matcher: TextMatcher): Range[] {
+  const ranges: Range[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    for (const [start, end] of matcher(node.textContent ?? '')) {
+      const range = document.createRange();
+      range.setStart(node, start);
+      range.setEnd(node, end);
+      ranges.push(range);
+    }
+  }
+  return ranges;
+}
+
+const ACTIVE_HIGHLIGHT_NAME = 'search-match-active';
+
+// Marks the match the user has stepped to on top of the regular search highlight
+export function markActiveMatch(range: Range | null) {
+  if (typeof CSS === 'undefined' || !CSS.highlights) return;
+  if (!range) {
+    CSS.highlights.delete(ACTIVE_HIGHLIGHT_NAME);
+    return;
+  }
+  const highlight = new globalThis.Highlight(range);
+  highlight.priority = 1;
+  CSS.highlights.set(ACTIVE_HIGHLIGHT_NAME, highlight);
+}
+
+/**
+ * Centers `range` in every scrollable ancestor, innermost first, so matches inside
+ * height-capped blocks (tool output, attachments) are revealed as well.
+ */
+export function scrollRangeIntoView(range: Range) {
+  for (let element = range.startContainer.parentElement; element; element = element.parentElement) {
+    const style = getComputedStyle(element);
+    const rect = range.getBoundingClientRect();
+    const box = element.getBoundingClientRect();
+    if (element.scrollHeight > element.clientHeight && /auto|scroll/.test(style.overflowY)) {
+      element.scrollTop += rect.top - box.top - (element.clientHeight - rect.height) / 2;
+    }
+    if (element.scrollWidth > element.clientWidth && /auto|scroll/.test(style.overflowX)) {
+      element.scrollLeft += rect.left - box.left - (element.clientWidth - rect.width) / 2;
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Braces, Search, X, ChevronDown, ChevronRight, Copy, Check } from 'lucide-react';
+import { Highlight } from '@/components/highlight';
+import { JsonPath, type JsonPathSegment, type JsonSearchResult } from '@/lib/json-path';
+
+interface JsonTreeProps {
+  data: unknown;
+  filename: string;
+  format: 'json' | 'yaml';
+  onReset: () => void;
+}
+
+// Children are rendered in chunks so opening a 100k-item array stays cheap
+const CHUNK_SIZE = 100;
+const STRING_PREVIEW_LENGTH = 200;
+
+const TYPE_STYLES: Record<string, string> = {
+  object: 'bg-violet-100 text-violet-700',
+  array: 'bg-sky-100 text-sky-700',
+  string: 'bg-green-100 text-green-700',
+  number: 'bg-amber-100 text-amber-700',
+  boolean: 'bg-pink-100 text-pink-700',
+  null: 'bg-muted text-muted-foreground'
+};
+
+export function JsonTree({ data, filename, format, onReset }: JsonTreeProps) {
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const search = useMemo(() => JsonPath.search(data, searchQuery), [data, searchQuery]);
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Braces className="h-5 w-5" />
+                {format === 'yaml' ? 'YAML' : 'JSON'} Explorer
+              </CardTitle>
+              <CardDescription>
+                {filename} • root {valueType(data)} {sizeLabel(data)}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onReset} className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {/* Search runs on submit; walking a large document on every keystroke is too slow */}
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => { e.preventDefault(); setSearchQuery(searchInput); }}
+          >
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search keys and values..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Button type="submit" variant="outline">Search</Button>
+            {searchQuery && (
+              <Button type="button" variant="ghost" onClick={() => { setSearchInput(''); setSearchQuery(''); }}>
+                Clear
+              </Button>
+            )}
+          </form>
+          {searchQuery && (
+            <div className="mt-2 text-sm text-muted-foreground">
+              {search.matches.size.toLocaleString()}{search.truncated ? '+' : ''} match{search.matches.size !== 1 ? 'es' : ''} for "{searchQuery}"
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="py-4 font-mono text-xs overflow-x-auto">
+          <JsonNode
+            name={null}
+            value={data}
+            path="$"
+            depth={0}
+            search={search}
+            query={searchQuery}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+const EMPTY_SEARCH: JsonSearchResult = { matches: new Set(), ancestors: new Set(), truncated: false };
+
+// Bare tree without the explorer chrome, for embedding query results and previews
+export function JsonValueTree({ value }: { value: unknown }) {
+  return (
+    <div className="font-mono text-xs">
+      <JsonNode name={null} value={value} path="$" depth={0} search={EMPTY_SEARCH} query="" />
+    </div>
+  );
+}
+
+interface JsonNodeProps {
+  name: JsonPathSegment | null;
+  value: unknown;
+  path: string;
+  depth: number;
+  search: JsonSearchResult;
+  query: string;
+}
+
+function JsonNode({ name, value, path, depth, search, query }: JsonNodeProps) {
+  const [isExpanded, setIsExpanded] = useState(depth === 0);
+  const [visibleCount, setVisibleCount] = useState(CHUNK_SIZE);
+
+  const isContainer = value !== null && typeof value === 'object';
+  const isOpen = isContainer && (isExpanded || search.ancestors.has(path));
+  const isMatch = search.matches.has(path);
+
+  const entries = useMemo<[JsonPathSegment, unknown][]>(() => {
+    if (!isOpen) return [];
+    return Array.isArray(value)
+      ? value.map((item, index) => [index, item])
+      : Object.entries(value as Record<string, unknown>);
+  }, [isOpen, value]);
+
+  return (
+    <div>
+      <div
+        className={`group flex items-start gap-1 rounded px-1 py-0.5 hover:bg-muted/60 ${isMatch ? 'bg-yellow-100' : ''}`}
+        style={{ paddingLeft: depth * 16 }}
+      >
+        {isContainer ? (
+          <button type="button" className="mt-0.5 flex-shrink-0" onClick={() => setIsExpanded(!isOpen)}>
+            {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          </button>
+        ) : (
+          <span className="w-3 flex-shrink-0" />
+        )}
+
+        {name !== null && (
+          <span className={typeof name === 'number' ? 'text-muted-foreground' : 'text-violet-800'}>
+            <Highlight text={String(name)} query={typeof name === 'string' ? query : ''} />
+            <span className="text-muted-foreground">:</span>
+          </span>
+        )}
+
+        {isContainer ? (
+          <button type="button" className="text-muted-foreground" onClick={() => setIsExpanded(!isOpen)}>
+            {Array.isArray(value) ? '[…]' : '{…}'}
+          </button>
+        ) : (
+          <PrimitiveValue value={value} query={query} />
+        )}
+
+        <span className={`ml-1 rounded px-1 text-[10px] font-sans ${TYPE_STYLES[valueType(value)]}`}>
+          {valueType(value)}
+        </span>
+        {sizeLabel(value) && (
+          <span className="rounded bg-muted px-1 text-[10px] font-sans text-muted-foreground">{sizeLabel(value)}</span>
+        )}
+        <CopyPathButton path={path} />
+      </div>
+
+      {isOpen && (
+        <div>
+          {entries.slice(0, visibleCount).map(([key, item]) => (
+            <JsonNode
+              key={String(key)}
+              name={key}
+              value={item}
+              path={JsonPath.child(path, key)}
+              depth={depth + 1}
+              search={search}
+              query={query}
+            />
+          ))}
+          {entries.length > visibleCount && (
+            <button
+              type="button"
+              className="ml-4 py-0.5 text-primary underline font-sans"
+              style={{ paddingLeft: (depth + 1) * 16 }}
+              onClick={() => setVisibleCount(visibleCount + CHUNK_SIZE)}
+            >
+              Show {Math.min(CHUNK_SIZE, entries.length - visibleCount)} more of {(entries.length - visibleCount).toLocaleString()} remaining
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PrimitiveValue({ value, query }: { value: unknown; query: string }) {
+  const [showFull, setShowFull] = useState(false);
+
+  if (typeof value !== 'string') {
+    const color = typeof value === 'number' ? 'text-amber-700' : typeof value === 'boolean' ? 'text-pink-700' : 'text-muted-foreground';
+    return <span className={color}><Highlight text={String(value)} query={query} /></span>;
+  }
+
+  const isLong = value.length > STRING_PREVIEW_LENGTH;
+  const text = isLong && !showFull ? `${value.slice(0, STRING_PREVIEW_LENGTH)}…` : value;
+
+  return (
+    <span className="text-green-700 whitespace-pre-wrap break-all">
+      "<Highlight text={text} query={query} />"
+      {isLong && (
+        <button type="button" className="ml-1 text-primary underline font-sans" onClick={() => setShowFull(!showFull)}>
+          {showFull ? 'less' : 'more'}
+        </button>
+      )}
+    </span>
+  );
+}
+
+function CopyPathButton({ path }: { path: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(path);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard access can be denied; the path is shown in the tooltip
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      title={`Copy JSONPath: ${path}`}
+      className="ml-1 flex items-center gap-1 text-[10px] font-sans text-muted-foreground opacity-0 transition-opacity group-hover:opacity-100"
+    >
+      {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+      {copied ? 'Copied' : 'Path'}
+    </button>
+  );
+}
+
+function valueType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function sizeLabel(value: unknown): string {
+  if (Array.isArray(value)) return `${value.length.toLocaleString()} item${value.length !== 1 ? 's' : ''}`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).length;
+    return `${keys.toLocaleString()} key${keys !== 1 ? 's' : ''}`;
+  }
+  if (typeof value === 'string') return `${value.length.toLocaleString()} char${value.length !== 1 ? 's' : ''}`;
+  return '';
+}
@@ -0,0 +1,335 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { ScrollText, Search, X, Layers, ChevronDown, ChevronRight, Braces } from 'lucide-react';
+import type { LogLevel, LogRecord } from '@/types/data';
+
+interface LogViewerProps {
+  records: LogRecord[];
+  filename: string;
+  onReset: () => void;
+}
+
+const PAGE_SIZE = 500;
+const ALL_STREAMS = '__all__';
+const LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug', 'trace', 'unknown'];
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  error: 'bg-red-100 text-red-700',
+  warn: 'bg-amber-100 text-amber-700',
+  info: 'bg-blue-100 text-blue-700',
+  debug: 'bg-zinc-100 text-zinc-600',
+  trace: 'bg-zinc-100 text-zinc-500',
+  unknown: 'bg-muted text-muted-foreground'
+};
+
+export function LogViewer({ records, filename, onReset }: LogViewerProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [hiddenLevels, setHiddenLevels] = useState<Set<LogLevel>>(new Set());
+  const [selectedStream, setSelectedStream] = useState(ALL_STREAMS);
+  const [groupByStream, setGroupByStream] = useState(false);
+  const [rangeStart, setRangeStart] = useState('');
+  const [rangeEnd, setRangeEnd] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const streams = useMemo(() => {
+    const counts = new Map<string, number>();
+    records.forEach(record => {
+      const stream = streamKey(record);
+      counts.set(stream, (counts.get(stream) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  }, [records]);
+
+  const levelCounts = useMemo(() => {
+    const counts = Object.fromEntries(LEVELS.map(level => [level, 0])) as Record<LogLevel, number>;
+    records.forEach(record => counts[record.level]++);
+    return counts;
+  }, [records]);
+
+  const timeBounds = useMemo(() => {
+    const timestamps = records.map(record => record.timestamp).filter(timestamp => timestamp > 0);
+    if (timestamps.length === 0) return null;
+    return { start: timestamps[0], end: timestamps[timestamps.length - 1] };
+  }, [records]);
+
+  const filteredRecords = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const start = rangeStart ? new Date(rangeStart).getTime() : -Infinity;
+    // datetime-local has minute precision; include the whole end minute
+    const end = rangeEnd ? new Date(rangeEnd).getTime() + 60_000 - 1 : Infinity;
+
+    return records.filter(record =>
+      !hiddenLevels.has(record.level) &&
+      (selectedStream === ALL_STREAMS || streamKey(record) === selectedStream) &&
+      record.timestamp >= start &&
+      record.timestamp <= end &&
+      (!query || record.message.toLowerCase().includes(query))
+    );
+  }, [records, searchQuery, hiddenLevels, selectedStream, rangeStart, rangeEnd]);
+
+  const visibleRecords = useMemo(() => filteredRecords.slice(0, visibleCount), [filteredRecords, visibleCount]);
+
+  const groupedRecords = useMemo(() => {
+    if (!groupByStream) return [];
+    const groups = new Map<string, LogRecord[]>();
+    visibleRecords.forEach(record => {
+      const stream = streamKey(record);
+      groups.set(stream, [...(groups.get(stream) ?? []), record]);
+    });
+    return Array.from(groups.entries());
+  }, [groupByStream, visibleRecords]);
+
+  const toggleLevel = (level: LogLevel) => {
+    const next = new Set(hiddenLevels);
+    if (next.has(level)) {
+      next.delete(level);
+    } else {
+      next.add(level);
+    }
+    setHiddenLevels(next);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setHiddenLevels(new Set());
+    setSelectedStream(ALL_STREAMS);
+    setRangeStart('');
+    setRangeEnd('');
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ScrollText className="h-5 w-5" />
+                CloudWatch Logs
+              </CardTitle>
+              <CardDescription>
+                {records.length.toLocaleString()} events from {filename} • {streams.length} stream{streams.length !== 1 ? 's' : ''}
+                {timeBounds && ` • ${formatTime(timeBounds.start)} – ${formatTime(timeBounds.end)}`}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onReset} className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {LEVELS.filter(level => levelCounts[level] > 0).map(level => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => toggleLevel(level)}
+                className={`rounded px-2 py-1 text-xs font-medium uppercase transition-opacity ${LEVEL_STYLES[level]} ${
+                  hiddenLevels.has(level) ? 'opacity-30' : ''
+                }`}
+              >
+                {level} {levelCounts[level].toLocaleString()}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search messages..."
+                value={searchQuery}
+                onChange={(e) => { setSearchQuery(e.target.value); setVisibleCount(PAGE_SIZE); }}
+                className="pl-10"
+              />
+            </div>
+            <select
+              value={selectedStream}
+              onChange={(e) => { setSelectedStream(e.target.value); setVisibleCount(PAGE_SIZE); }}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            >
+              <option value={ALL_STREAMS}>All streams ({streams.length})</option>
+              {streams.map(([stream, count]) => (
+                <option key={stream} value={stream}>{stream} ({count})</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">From</span>
+            <Input
+              type="datetime-local"
+              value={rangeStart}
+              onChange={(e) => { setRangeStart(e.target.value); setVisibleCount(PAGE_SIZE); }}
+              className="w-auto"
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="datetime-local"
+              value={rangeEnd}
+              onChange={(e) => { setRangeEnd(e.target.value); setVisibleCount(PAGE_SIZE); }}
+              className="w-auto"
+            />
+            <Button
+              variant={groupByStream ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setGroupByStream(!groupByStream)}
+            >
+              <Layers className="h-4 w-4 mr-1" />
+              Group by stream
+            </Button>
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </div>
+
+          <div className="text-sm text-muted-foreground">
+            Showing {visibleRecords.length.toLocaleString()} of {filteredRecords.length.toLocaleString()} matching events
+          </div>
+        </CardContent>
+      </Card>
+
+      {filteredRecords.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No log events match the current filters.
+          </CardContent>
+        </Card>
+      ) : groupByStream ? (
+        groupedRecords.map(([stream, streamRecords]) => (
+          <StreamGroup key={stream} stream={stream} records={streamRecords} />
+        ))
+      ) : (
+        <LogTable records={visibleRecords} showStream={streams.length > 1} />
+      )}
+
+      {visibleCount < filteredRecords.length && (
+        <div className="text-center">
+          <Button variant="outline" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+            Show {Math.min(PAGE_SIZE, filteredRecords.length - visibleCount).toLocaleString()} more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StreamGroup({ stream, records }: { stream: string; records: LogRecord[] }) {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <button
+          type="button"
+          className="flex items-center gap-2 text-left text-sm font-medium"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <span className="font-mono break-all">{stream}</span>
+          <span className="text-muted-foreground font-normal">({records.length})</span>
+        </button>
+      </CardHeader>
+      {isExpanded && (
+        <CardContent>
+          <LogTable records={records} showStream={false} />
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+function LogTable({ records, showStream }: { records: LogRecord[]; showStream: boolean }) {
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="bg-muted text-left">
+          <tr>
+            <th className="w-6 p-2" />
+            <th className="p-2 font-medium whitespace-nowrap">Time</th>
+            <th className="p-2 font-medium">Level</th>
+            {showStream && <th className="p-2 font-medium">Stream</th>}
+            <th className="p-2 font-medium w-full">Message</th>
+          </tr>
+        </thead>
+        <tbody>
+          {records.map(record => (
+            <LogRow key={record.id} record={record} showStream={showStream} />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function LogRow({ record, showStream }: { record: LogRecord; showStream: boolean }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const extraFields = Object.entries(record.fields).filter(([field]) => field !== '@message' && field !== '@ptr');
+
+  return (
+    <>
+      <tr
+        className={`border-t cursor-pointer hover:bg-muted/50 ${record.level === 'error' ? 'bg-red-50/50' : ''}`}
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <td className="p-2 align-top text-muted-foreground">
+          {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        </td>
+        <td className="p-2 align-top font-mono whitespace-nowrap">{formatTime(record.timestamp)}</td>
+        <td className="p-2 align-top">
+          <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium uppercase ${LEVEL_STYLES[record.level]}`}>
+            {record.level === 'unknown' ? '—' : record.level}
+          </span>
+        </td>
+        {showStream && (
+          <td className="p-2 align-top font-mono max-w-48 truncate" title={streamKey(record)}>{streamKey(record)}</td>
+        )}
+        <td className="p-2 align-top font-mono">
+          <div className="flex items-start gap-1">
+            {record.json !== undefined && <Braces className="h-3 w-3 mt-0.5 flex-shrink-0 text-violet-600" />}
+            <span className={isExpanded ? 'whitespace-pre-wrap break-all' : 'line-clamp-1 break-all'}>
+              {record.message}
+            </span>
+          </div>
+        </td>
+      </tr>
+      {isExpanded && (record.json !== undefined || extraFields.length > 0) && (
+        <tr className="bg-muted/30">
+          <td />
+          <td colSpan={showStream ? 4 : 3} className="p-2 space-y-2">
+            {record.json !== undefined && (
+              <pre className="max-h-96 overflow-auto rounded bg-background p-2 text-xs">
+                {JSON.stringify(record.json, null, 2)}
+              </pre>
+            )}
+            {extraFields.length > 0 && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                {extraFields.map(([field, value]) => (
+                  <React.Fragment key={field}>
+                    <dt className="font-medium">{field}</dt>
+                    <dd className="font-mono break-all">{value}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+// Insights rows may only name the log group
+function streamKey(record: LogRecord): string {
+  return record.stream ?? record.group ?? '(no stream)';
+}
+
+function formatTime(timestamp: number): string {
+  if (!timestamp) return '—';
+  const date = new Date(timestamp);
+  return `${date.toLocaleString()}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+}
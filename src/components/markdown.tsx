@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+import 'highlight.js/styles/github.css';
+import type { MessageRenderMode } from '@/types/data';
+
+interface MarkdownProps {
+  text: string;
+}
+
+interface MessageTextProps {
+  text: string;
+  renderMode?: MessageRenderMode;
+}
+
+export function MessageText({ text, renderMode = 'markdown' }: MessageTextProps) {
+  if (!text) {
+    return <div className="text-sm text-muted-foreground">[Empty message]</div>;
+  }
+
+  if (renderMode === 'raw') {
+    return <div className="whitespace-pre-wrap text-sm leading-relaxed">{text}</div>;
+  }
+
+  return <Markdown text={text} />;
+}
+
+// react-markdown never renders raw HTML, so message bodies cannot inject markup
+export function Markdown({ text }: MarkdownProps) {
+  return (
+    <div className="markdown-body">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[[rehypeHighlight, { detect: true }]]}
+        components={{
+          pre: CodeBlock,
+          a: ({ href, children }) => (
+            <a
+              href={href}
+              target={href?.startsWith('#') ? undefined : '_blank'}
+              rel="noopener noreferrer"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {children}
+            </a>
+          )
+        }}
+      >
+        {text}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+function CodeBlock({ children }: React.ComponentProps<'pre'>) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard access can be denied; the code is still selectable
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <pre ref={preRef}>{children}</pre>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-2 right-2 flex items-center gap-1 rounded border bg-background px-2 py-1 text-xs opacity-0 transition-opacity group-hover:opacity-100"
+        aria-label="Copy code"
+      >
+        {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+}
@@ -1,33 +1,50 @@
-import React from 'react';
+import React, { useState, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
-import { User, Bot, Clock, ThumbsUp, ThumbsDown } from 'lucide-react';
-import type { ClaudeChatMessage, ChatGPTMessage } from '@/types/data';
+import { User, Bot, Clock, ThumbsUp, ThumbsDown, GitBranch, ChevronLeft, ChevronRight, ChevronDown, Wrench, FileCode, FileText } from 'lucide-react';
+import { ChatGPTContentView } from '@/components/chatgpt-content';
+import { ClaudeContentView } from '@/components/claude-content';
+import { useTextHighlight, toMatcher, type HighlightQuery } from '@/components/highlight';
+import { DataParser } from '@/lib/parser';
+import type { TextMatcher } from '@/lib/search-query';
+import type { ClaudeChatMessage, ChatGPTMessage, MessageAttachment, MessageFile, MessageRenderMode } from '@/types/data';
 
 interface MessageItemProps {
   message: ClaudeChatMessage | ChatGPTMessage;
   isSelected?: boolean;
   onClick?: () => void;
   messageType?: 'claude' | 'chatgpt';
+  branch?: { index: number; count: number };
+  onSwitchBranch?: (delta: number) => void;
+  highlight?: HighlightQuery;
 }
 
-export function MessageItem({ message, isSelected, onClick, messageType = 'claude' }: MessageItemProps) {
+export function MessageItem({ message, isSelected, onClick, messageType = 'claude', branch, onSwitchBranch, highlight = null }: MessageItemProps) {
+  const [renderMode, setRenderMode] = useState<MessageRenderMode>('markdown');
+  const contentRef = useRef<HTMLDivElement>(null);
+  useTextHighlight(contentRef, highlight, renderMode);
+  const matcher = toMatcher(highlight);
+
+  if (messageType === 'chatgpt' && DataParser.isChatGPTToolMessage(message as ChatGPTMessage)) {
+    return <ToolMessageItem message={message as ChatGPTMessage} isSelected={isSelected} onClick={onClick} highlight={highlight} />;
+  }
+
+  // Tool output sent back to Claude arrives as a human turn; show it as tool traffic instead
+  const isToolResult = messageType === 'claude' && DataParser.isClaudeToolResultMessage(message as ClaudeChatMessage);
+
   // Determine if message is from human/user
-  const isHuman = messageType === 'claude' 
+  const isHuman = !isToolResult && (messageType === 'claude' 
     ? (message as ClaudeChatMessage).sender === 'human'
-    : (message as ChatGPTMessage).author.role === 'user';
+    : (message as ChatGPTMessage).author.role === 'user');
   
   // Get timestamp
   const timestamp = messageType === 'claude'
-    ? new Date((message as ClaudeChatMessage).created_at).toLocaleString()
+    ? ((message as ClaudeChatMessage).created_at
+      ? new Date((message as ClaudeChatMessage).created_at).toLocaleString()
+      : 'Unknown time')
     : (message as ChatGPTMessage).create_time 
-      ? new Date((message as ChatGPTMessage).create_time * 1000).toLocaleString()
+      ? new Date((message as ChatGPTMessage).create_time! * 1000).toLocaleString()
       : 'Unknown time';
   
-  // Get message text
-  const messageText = messageType === 'claude'
-    ? (message as ClaudeChatMessage).text
-    : (message as ChatGPTMessage).content?.parts?.filter(part => typeof part === 'string').join('\n') || '[No content]';
-  
   // Get message ID for selection
   const messageId = messageType === 'claude'
     ? (message as ClaudeChatMessage).uuid
@@ -38,10 +55,11 @@ export function MessageItem({ message, isSelected, onClick, messageType = 'claud
 
   return (
     <Card 
+      id={`message-${messageId}`}
       className={`
         mb-4 cursor-pointer transition-all duration-200 hover:shadow-md
         ${isSelected ? 'ring-2 ring-primary' : ''}
-        ${isHuman ? 'ml-8' : 'mr-8'}
+        ${isToolResult ? 'mx-8' : isHuman ? 'ml-8' : 'mr-8'}
       `}
       onClick={onClick}
     >
@@ -49,28 +67,69 @@ export function MessageItem({ message, isSelected, onClick, messageType = 'claud
         <div className="flex items-start gap-3">
           <div className={`
             flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center
-            ${isHuman ? 'bg-blue-100 text-blue-600' : 'bg-green-100 text-green-600'}
+            ${isToolResult ? 'bg-amber-100 text-amber-600' : isHuman ? 'bg-blue-100 text-blue-600' : 'bg-green-100 text-green-600'}
           `}>
-            {isHuman ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+            {isToolResult ? <Wrench className="h-4 w-4" /> : isHuman ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
           </div>
           
           <div className="flex-1 min-w-0">
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2">
                 <span className="text-sm font-medium">
-                  {isHuman ? 'User' : assistantName}
+                  {isToolResult ? 'Tool result' : isHuman ? 'User' : assistantName}
                 </span>
+                {branch && (
+                  <span
+                    className="flex items-center gap-1 text-xs text-purple-600 bg-purple-50 px-1.5 py-0.5 rounded"
+                    title={`${branch.count - 1} alternate version${branch.count !== 2 ? 's' : ''} of this message`}
+                  >
+                    <GitBranch className="h-3 w-3" />
+                    {onSwitchBranch && (
+                      <button
+                        type="button"
+                        aria-label="Previous branch"
+                        onClick={(e) => { e.stopPropagation(); onSwitchBranch(-1); }}
+                      >
+                        <ChevronLeft className="h-3 w-3" />
+                      </button>
+                    )}
+                    {branch.index + 1} / {branch.count}
+                    {onSwitchBranch && (
+                      <button
+                        type="button"
+                        aria-label="Next branch"
+                        onClick={(e) => { e.stopPropagation(); onSwitchBranch(1); }}
+                      >
+                        <ChevronRight className="h-3 w-3" />
+                      </button>
+                    )}
+                  </span>
+                )}
               </div>
               <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <button
+                  type="button"
+                  className="flex items-center gap-1 rounded px-1.5 py-0.5 hover:bg-muted"
+                  title={renderMode === 'markdown' ? 'Show raw source' : 'Show rendered Markdown'}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setRenderMode(renderMode === 'markdown' ? 'raw' : 'markdown');
+                  }}
+                >
+                  {renderMode === 'markdown' ? <FileCode className="h-3 w-3" /> : <FileText className="h-3 w-3" />}
+                  {renderMode === 'markdown' ? 'Raw' : 'Rendered'}
+                </button>
                 <Clock className="h-3 w-3" />
                 {timestamp}
               </div>
             </div>
             
-            <div className="prose prose-sm max-w-none">
-              <div className="whitespace-pre-wrap text-sm leading-relaxed">
-                {messageText || '[Empty message]'}
-              </div>
+            <div ref={contentRef} className="max-w-none" data-search-content>
+              {messageType === 'claude' ? (
+                <ClaudeContentView message={message as ClaudeChatMessage} renderMode={renderMode} highlight={matcher} />
+              ) : (
+                <ChatGPTContentView content={(message as ChatGPTMessage).content} renderMode={renderMode} />
+              )}
             </div>
 
             {/* Only show attachments for Claude messages */}
@@ -81,20 +140,10 @@ export function MessageItem({ message, isSelected, onClick, messageType = 'claud
                   <div className="mt-3 space-y-2">
                     <div className="text-xs font-medium text-muted-foreground">Attachments:</div>
                     {(message as ClaudeChatMessage).attachments?.map((attachment, index) => (
-                      <div key={`attachment-${index}`} className="text-xs bg-muted p-2 rounded">
-                        <div className="font-medium">{attachment.file_name}</div>
-                        <div className="text-muted-foreground">
-                          {attachment.file_type} • {(attachment.file_size / 1024).toFixed(1)} KB
-                        </div>
-                      </div>
+                      <AttachmentItem key={`attachment-${index}`} attachment={attachment} highlight={matcher} />
                     ))}
                     {(message as ClaudeChatMessage).files?.map((file, index) => (
-                      <div key={`file-${index}`} className="text-xs bg-muted p-2 rounded">
-                        <div className="font-medium">{file.file_name}</div>
-                        <div className="text-muted-foreground">
-                          {file.file_type} • {(file.file_size / 1024).toFixed(1)} KB
-                        </div>
-                      </div>
+                      <AttachmentItem key={`file-${index}`} attachment={file} highlight={matcher} />
                     ))}
                   </div>
                 )}
@@ -120,4 +169,108 @@ export function MessageItem({ message, isSelected, onClick, messageType = 'claud
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+interface AttachmentItemProps {
+  attachment: MessageAttachment | MessageFile;
+  highlight: TextMatcher | null;
+}
+
+// Extracted file text is collapsed by default and opens by itself when it contains a search match
+function AttachmentItem({ attachment, highlight }: AttachmentItemProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const contentRef = useRef<HTMLPreElement>(null);
+  const content = attachment.extracted_content ?? '';
+  const isOpen = isExpanded || (!!highlight && highlight(content).length > 0);
+  useTextHighlight(contentRef, highlight, isOpen);
+
+  return (
+    <div className="text-xs bg-muted p-2 rounded">
+      <div className="font-medium">{attachment.file_name}</div>
+      <div className="flex items-center gap-2 text-muted-foreground">
+        {attachment.file_type} • {(attachment.file_size / 1024).toFixed(1)} KB
+        {content && (
+          <button
+            type="button"
+            className="ml-auto flex items-center gap-1 hover:text-foreground"
+            onClick={(e) => { e.stopPropagation(); setIsExpanded(!isOpen); }}
+          >
+            {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            {isOpen ? 'Hide content' : 'Show content'}
+          </button>
+        )}
+      </div>
+      {isOpen && (
+        <pre
+          ref={contentRef}
+          data-search-content
+          className="mt-2 max-h-96 overflow-y-auto whitespace-pre-wrap break-words rounded bg-background p-2"
+        >
+          {content}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+interface ToolMessageItemProps {
+  message: ChatGPTMessage;
+  isSelected?: boolean;
+  onClick?: () => void;
+  highlight: HighlightQuery;
+}
+
+const TOOL_PREVIEW_LENGTH = 120;
+
+function ToolMessageItem({ message, isSelected, onClick, highlight }: ToolMessageItemProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const text = DataParser.getChatGPTMessageText(message);
+  const matcher = toMatcher(highlight);
+  const isOpen = isExpanded || (!!matcher && matcher(text).length > 0);
+  useTextHighlight(contentRef, highlight, isOpen);
+
+  const isResult = message.author.role === 'tool';
+  const toolName = DataParser.getChatGPTToolName(message);
+  const preview = text.replace(/\s+/g, ' ').trim();
+  const timestamp = message.create_time
+    ? new Date(message.create_time * 1000).toLocaleString()
+    : 'Unknown time';
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={`
+        mb-4 mx-16 rounded-lg border border-dashed border-amber-300 bg-amber-50/50 text-sm cursor-pointer
+        ${isSelected ? 'ring-2 ring-primary' : ''}
+      `}
+      onClick={onClick}
+    >
+      <button
+        type="button"
+        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+        onClick={(e) => { e.stopPropagation(); setIsExpanded(!isOpen); }}
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+        <Wrench className="h-3 w-3 flex-shrink-0 text-amber-600" />
+        <span className="font-medium text-amber-700 flex-shrink-0">
+          {isResult ? `Result from ${toolName}` : `Call to ${toolName}`}
+        </span>
+        {!isOpen && (
+          <span className="truncate text-xs text-muted-foreground">
+            {preview.length > TOOL_PREVIEW_LENGTH ? `${preview.slice(0, TOOL_PREVIEW_LENGTH)}…` : preview}
+          </span>
+        )}
+        <span className="ml-auto flex items-center gap-1 text-xs text-muted-foreground flex-shrink-0">
+          <Clock className="h-3 w-3" />
+          {timestamp}
+        </span>
+      </button>
+      {isOpen && (
+        <div ref={contentRef} className="px-3 pb-3" data-search-content>
+          <ChatGPTContentView content={message.content} />
+        </div>
+      )}
+    </div>
+  );
+}
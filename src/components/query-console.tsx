@@ -0,0 +1,174 @@
+import React, { useState, useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Play, Table, ListTree, Download, X, TerminalSquare } from 'lucide-react';
+import { JsonValueTree } from '@/components/json-tree';
+import { QueryEngine, type QueryLanguage, type QueryResult } from '@/lib/query';
+import { downloadFile } from '@/lib/utils';
+
+interface QueryConsoleProps {
+  data: unknown;
+  filename: string;
+  onClose: () => void;
+}
+
+type ResultView = 'table' | 'tree';
+
+const ROW_LIMIT = 200;
+const CELL_PREVIEW_LENGTH = 120;
+
+const PLACEHOLDERS: Record<QueryLanguage, string> = {
+  jsonpath: '$..attachments[?(@.file_size > 1048576)]',
+  jmespath: "[].chat_messages[?sender=='human'].text[]"
+};
+
+export function QueryConsole({ data, filename, onClose }: QueryConsoleProps) {
+  const [language, setLanguage] = useState<QueryLanguage>('jsonpath');
+  const [expression, setExpression] = useState('');
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<ResultView>('table');
+
+  const table = useMemo(() => (result ? QueryEngine.toTable(result) : null), [result]);
+
+  const runQuery = () => {
+    try {
+      setResult(QueryEngine.run(data, expression, language));
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Query failed');
+    }
+  };
+
+  const exportBase = filename.replace(/\.[^.]+$/, '') + '-query';
+
+  return (
+    <div className="h-full flex flex-col bg-background">
+      <div className="flex items-center gap-2 border-b px-4 py-2">
+        <TerminalSquare className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Query</span>
+        <div className="flex gap-1">
+          {(['jsonpath', 'jmespath'] as QueryLanguage[]).map(option => (
+            <Button
+              key={option}
+              variant={language === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setLanguage(option)}
+            >
+              {option === 'jsonpath' ? 'JSONPath' : 'JMESPath'}
+            </Button>
+          ))}
+        </div>
+        <form
+          className="flex flex-1 gap-2"
+          onSubmit={(e) => { e.preventDefault(); runQuery(); }}
+        >
+          <Input
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            placeholder={PLACEHOLDERS[language]}
+            className="font-mono text-xs"
+          />
+          <Button type="submit" size="sm" disabled={!expression.trim()}>
+            <Play className="h-4 w-4 mr-1" />
+            Run
+          </Button>
+        </form>
+        <Button variant="ghost" size="sm" onClick={onClose} className="text-muted-foreground hover:text-foreground">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {error && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!result && !error && (
+          <p className="text-sm text-muted-foreground">
+            Run a JSONPath or JMESPath expression against the loaded file. Results can be exported as JSON or CSV.
+          </p>
+        )}
+
+        {result && table && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">
+                {result.values.length.toLocaleString()} result{result.values.length !== 1 ? 's' : ''}
+              </span>
+              <div className="flex gap-1 ml-auto">
+                <Button variant={view === 'table' ? 'default' : 'outline'} size="sm" onClick={() => setView('table')}>
+                  <Table className="h-4 w-4 mr-1" />
+                  Table
+                </Button>
+                <Button variant={view === 'tree' ? 'default' : 'outline'} size="sm" onClick={() => setView('tree')}>
+                  <ListTree className="h-4 w-4 mr-1" />
+                  Tree
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadFile(QueryEngine.toJSON(result), `${exportBase}.json`, 'application/json')}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  JSON
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadFile(QueryEngine.toCSV(result), `${exportBase}.csv`, 'text/csv')}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  CSV
+                </Button>
+              </div>
+            </div>
+
+            {view === 'tree' ? (
+              <JsonValueTree value={result.values} />
+            ) : (
+              <div className="rounded-md border overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted text-left">
+                    <tr>
+                      <th className="p-2 font-medium">#</th>
+                      {table.columns.map(column => (
+                        <th key={column} className="p-2 font-medium whitespace-nowrap">{column}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.slice(0, ROW_LIMIT).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t align-top">
+                        <td className="p-2 text-muted-foreground">{rowIndex + 1}</td>
+                        {row.map((cell, cellIndex) => (
+                          <td key={cellIndex} className="p-2 font-mono break-all">{formatCell(cell)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {table.rows.length > ROW_LIMIT && (
+                  <div className="border-t p-2 text-xs text-muted-foreground">
+                    Showing the first {ROW_LIMIT} rows. Export to see all {table.rows.length.toLocaleString()}.
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > CELL_PREVIEW_LENGTH ? `${text.slice(0, CELL_PREVIEW_LENGTH)}…` : text;
+}
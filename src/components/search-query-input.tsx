@@ -0,0 +1,65 @@
+import React, { useMemo, useDeferredValue } from 'react';
+import { Input } from '@/components/ui/input';
+import { Search, AlertCircle } from 'lucide-react';
+import { SearchQuery, type QueryNode, type TextMatcher } from '@/lib/search-query';
+
+export interface ParsedSearch {
+  node: QueryNode | null;
+  matcher: TextMatcher | null;
+  error: string | null;
+}
+
+const SYNTAX_HELP = [
+  'word "exact phrase" /regex/',
+  'sender:human|assistant|tool  has:attachment  has:feedback',
+  'before:2024-01-01  after:2024-01  title:draft',
+  'a OR b  NOT c  -c  (a OR b) c'
+].join('\n');
+
+/**
+ * Parses the search box lazily (typing stays responsive on large files). An invalid
+ * query filters nothing and reports the syntax error instead.
+ */
+export function useParsedSearch(input: string): ParsedSearch {
+  const deferredInput = useDeferredValue(input);
+
+  return useMemo(() => {
+    try {
+      const node = SearchQuery.parse(deferredInput);
+      return { node, matcher: SearchQuery.matcher(node), error: null };
+    } catch (error) {
+      return { node: null, matcher: null, error: error instanceof Error ? error.message : 'Invalid search query' };
+    }
+  }, [deferredInput]);
+}
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  error: string | null;
+  onKeyDown?: React.KeyboardEventHandler<HTMLInputElement>;
+}
+
+export function SearchQueryInput({ value, onChange, placeholder, error, onKeyDown }: SearchQueryInputProps) {
+  return (
+    <div>
+      <div className="relative" title={SYNTAX_HELP}>
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={onKeyDown}
+          className={`pl-10 ${error ? 'border-red-400' : ''}`}
+        />
+      </div>
+      {error && (
+        <div className="mt-1 flex items-center gap-1 text-xs text-red-600">
+          <AlertCircle className="h-3 w-3 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
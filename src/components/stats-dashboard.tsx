@@ -0,0 +1,347 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BarChart3, Users, MessageSquare, Paperclip, Trash2, TrendingUp, Download, X } from 'lucide-react';
+import { CorpusStats, type CorpusSummary, type CorpusTable } from '@/lib/corpus-stats';
+import { downloadFile, formatBytes } from '@/lib/utils';
+
+interface StatsDashboardProps {
+  summary: CorpusSummary;
+  filename: string;
+  // Drill-down key of the row currently filtering the sidebar (see CorpusStats.slice)
+  activeSlice: string | null;
+  onSelectSlice: (slice: string | null) => void;
+  onOpenConversation: (conversationId: string) => void;
+  onClose: () => void;
+}
+
+const SENDER_LABELS: Record<string, string> = {
+  human: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+  system: 'System'
+};
+
+const SENDER_COLORS: Record<string, string> = {
+  human: 'bg-blue-400',
+  assistant: 'bg-green-400',
+  tool: 'bg-amber-400',
+  system: 'bg-slate-400'
+};
+
+// Rows shown in the longest-conversations table; the CSV has all of them
+const LONGEST_LIMIT = 20;
+
+type SizeMetric = 'messages' | 'tokens';
+
+export function StatsDashboard({ summary, filename, activeSlice, onSelectSlice, onOpenConversation, onClose }: StatsDashboardProps) {
+  // Clicking the active row again clears the filter
+  const toggleSlice = (slice: string) => onSelectSlice(activeSlice === slice ? null : slice);
+  const exportBase = filename.replace(/\.[^.]+$/, '');
+  const exportCsv = (table: CorpusTable) =>
+    downloadFile(CorpusStats.toCsv(summary, table), `${exportBase}-${table}.csv`, 'text/csv');
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" />
+                Statistics
+              </CardTitle>
+              <CardDescription>
+                {summary.conversationCount.toLocaleString()} conversations • {summary.messageCount.toLocaleString()} messages
+                {' • '}{summary.characters.toLocaleString()} characters • ~{summary.tokens.toLocaleString()} tokens (estimated)
+                {' • '}Click a row or bar to show its conversations in the sidebar
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose} className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <SenderBreakdown summary={summary} activeSlice={activeSlice} onSelect={toggleSlice} onExportCsv={exportCsv} />
+      <LongestConversations summary={summary} onOpenConversation={onOpenConversation} onExportCsv={exportCsv} />
+      <AttachmentBreakdown summary={summary} activeSlice={activeSlice} onSelect={toggleSlice} onExportCsv={exportCsv} />
+      <DeletedAndGrowth summary={summary} activeSlice={activeSlice} onSelect={toggleSlice} onExportCsv={exportCsv} />
+    </div>
+  );
+}
+
+interface ChartProps {
+  summary: CorpusSummary;
+  activeSlice: string | null;
+  onSelect: (slice: string) => void;
+  onExportCsv: (table: CorpusTable) => void;
+}
+
+interface ChartCardProps {
+  icon: React.ReactNode;
+  title: string;
+  description?: React.ReactNode;
+  onExportCsv: () => void;
+  children: React.ReactNode;
+}
+
+function ChartCard({ icon, title, description, onExportCsv, children }: ChartCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              {icon}
+              {title}
+            </CardTitle>
+            {description && <CardDescription>{description}</CardDescription>}
+          </div>
+          <Button variant="outline" size="sm" onClick={onExportCsv}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+function rowClass(isActive: boolean): string {
+  return `flex w-full items-center gap-3 rounded px-1 py-0.5 text-left text-xs hover:bg-muted ${isActive ? 'bg-muted' : ''}`;
+}
+
+function SenderBreakdown({ summary, activeSlice, onSelect, onExportCsv }: ChartProps) {
+  const maxTokens = Math.max(0, ...summary.senders.map(totals => totals.tokens));
+
+  return (
+    <ChartCard
+      icon={<Users className="h-4 w-4" />}
+      title="Messages by sender"
+      description="Bars show estimated tokens; message text includes thinking and attachment content"
+      onExportCsv={() => onExportCsv('senders')}
+    >
+      <div className="space-y-1">
+        <div className="flex gap-3 px-1 text-xs text-muted-foreground">
+          <span className="w-20 flex-shrink-0">Sender</span>
+          <span className="flex-1" />
+          <span className="w-20 flex-shrink-0 text-right">Messages</span>
+          <span className="w-24 flex-shrink-0 text-right">Characters</span>
+          <span className="w-20 flex-shrink-0 text-right">~Tokens</span>
+        </div>
+        {summary.senders.map(totals => {
+          const slice = `sender:${totals.sender}`;
+          return (
+            <button
+              key={totals.sender}
+              type="button"
+              title={`${totals.conversationIds.size.toLocaleString()} conversations`}
+              onClick={() => onSelect(slice)}
+              className={rowClass(activeSlice === slice)}
+            >
+              <span className="w-20 flex-shrink-0 font-medium">{SENDER_LABELS[totals.sender]}</span>
+              <span className="h-3 flex-1">
+                <span
+                  className={`block h-full rounded-sm ${activeSlice === slice ? 'bg-primary' : SENDER_COLORS[totals.sender]}`}
+                  style={{ width: `${maxTokens > 0 ? (totals.tokens / maxTokens) * 100 : 0}%` }}
+                />
+              </span>
+              <span className="w-20 flex-shrink-0 text-right tabular-nums">{totals.count.toLocaleString()}</span>
+              <span className="w-24 flex-shrink-0 text-right tabular-nums">{totals.characters.toLocaleString()}</span>
+              <span className="w-20 flex-shrink-0 text-right tabular-nums">{totals.tokens.toLocaleString()}</span>
+            </button>
+          );
+        })}
+      </div>
+    </ChartCard>
+  );
+}
+
+function LongestConversations({
+  summary,
+  onOpenConversation,
+  onExportCsv
+}: Pick<ChartProps, 'summary' | 'onExportCsv'> & { onOpenConversation: (conversationId: string) => void }) {
+  const [metric, setMetric] = useState<SizeMetric>('messages');
+
+  const longest = useMemo(() => (
+    (metric === 'messages'
+      ? summary.conversations
+      : [...summary.conversations].sort((a, b) => b.tokens - a.tokens)
+    ).slice(0, LONGEST_LIMIT)
+  ), [summary, metric]);
+  const max = Math.max(0, ...longest.map(size => size[metric]));
+
+  return (
+    <ChartCard
+      icon={<MessageSquare className="h-4 w-4" />}
+      title="Longest conversations"
+      description={
+        <span className="flex items-center gap-1">
+          Top {Math.min(LONGEST_LIMIT, summary.conversations.length)} by
+          <Button variant={metric === 'messages' ? 'default' : 'outline'} size="sm" className="h-6 px-2 text-xs" onClick={() => setMetric('messages')}>
+            messages
+          </Button>
+          <Button variant={metric === 'tokens' ? 'default' : 'outline'} size="sm" className="h-6 px-2 text-xs" onClick={() => setMetric('tokens')}>
+            tokens
+          </Button>
+        </span>
+      }
+      onExportCsv={() => onExportCsv('conversations')}
+    >
+      <div className="space-y-1">
+        {longest.map(size => (
+          <button
+            key={size.id}
+            type="button"
+            title={`Open "${size.title || size.id}"`}
+            onClick={() => onOpenConversation(size.id)}
+            className={rowClass(false)}
+          >
+            <span className={`w-56 flex-shrink-0 truncate ${size.deleted ? 'italic text-red-600' : ''}`}>
+              {size.deleted ? '[Deleted Conversation]' : size.title}
+            </span>
+            <span className="h-3 flex-1">
+              <span
+                className="block h-full rounded-sm bg-sky-400"
+                style={{ width: `${max > 0 ? (size[metric] / max) * 100 : 0}%` }}
+              />
+            </span>
+            <span className="w-20 flex-shrink-0 text-right tabular-nums">{size.messages.toLocaleString()} msgs</span>
+            <span className="w-24 flex-shrink-0 text-right tabular-nums">~{size.tokens.toLocaleString()} tok</span>
+          </button>
+        ))}
+      </div>
+    </ChartCard>
+  );
+}
+
+function AttachmentBreakdown({ summary, activeSlice, onSelect, onExportCsv }: ChartProps) {
+  const max = Math.max(0, ...summary.attachments.map(totals => totals.count));
+  const totalBytes = summary.attachments.reduce((sum, totals) => sum + totals.bytes, 0);
+  const totalFiles = summary.attachments.reduce((sum, totals) => sum + totals.count, 0);
+
+  return (
+    <ChartCard
+      icon={<Paperclip className="h-4 w-4" />}
+      title="Attachments by file type"
+      description={`${totalFiles.toLocaleString()} files • ${formatBytes(totalBytes)}`}
+      onExportCsv={() => onExportCsv('attachments')}
+    >
+      {summary.attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No attachments in this file.</p>
+      ) : (
+        <div className="space-y-1">
+          {summary.attachments.map(totals => {
+            const slice = `attachment:${totals.type}`;
+            return (
+              <button
+                key={totals.type}
+                type="button"
+                title={`${totals.conversationIds.size.toLocaleString()} conversations`}
+                onClick={() => onSelect(slice)}
+                className={rowClass(activeSlice === slice)}
+              >
+                <span className="w-40 flex-shrink-0 truncate font-mono">{totals.type}</span>
+                <span className="h-3 flex-1">
+                  <span
+                    className={`block h-full rounded-sm ${activeSlice === slice ? 'bg-primary' : 'bg-violet-400'}`}
+                    style={{ width: `${max > 0 ? (totals.count / max) * 100 : 0}%` }}
+                  />
+                </span>
+                <span className="w-16 flex-shrink-0 text-right tabular-nums">{totals.count.toLocaleString()}</span>
+                <span className="w-20 flex-shrink-0 text-right tabular-nums">{formatBytes(totals.bytes)}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </ChartCard>
+  );
+}
+
+function DeletedAndGrowth({ summary, activeSlice, onSelect, onExportCsv }: ChartProps) {
+  const deletedRatio = summary.conversationCount > 0 ? summary.deleted.count / summary.conversationCount : 0;
+  const maxCreated = Math.max(0, ...summary.growth.map(month => month.count));
+  const total = summary.growth[summary.growth.length - 1]?.cumulative ?? 0;
+
+  // Cumulative total as a line over the monthly bars, in a 0–100 viewBox
+  const cumulativeLine = summary.growth
+    .map((month, index) => {
+      const x = ((index + 0.5) / summary.growth.length) * 100;
+      const y = 100 - (total > 0 ? (month.cumulative / total) * 100 : 0);
+      return `${x},${y}`;
+    })
+    .join(' ');
+
+  return (
+    <ChartCard
+      icon={<TrendingUp className="h-4 w-4" />}
+      title="Deleted conversations and growth"
+      description={`${summary.deleted.count.toLocaleString()} of ${summary.conversationCount.toLocaleString()} conversations deleted (${(deletedRatio * 100).toFixed(1)}%)`}
+      onExportCsv={() => onExportCsv('growth')}
+    >
+      <div className="flex h-4 overflow-hidden rounded-sm text-xs">
+        <button
+          type="button"
+          title="Conversations not deleted"
+          onClick={() => onSelect('deleted:no')}
+          className={activeSlice === 'deleted:no' ? 'bg-primary' : 'bg-emerald-400 hover:bg-emerald-500'}
+          style={{ width: `${(1 - deletedRatio) * 100}%` }}
+        />
+        <button
+          type="button"
+          title="Deleted conversations"
+          onClick={() => onSelect('deleted:yes')}
+          className={activeSlice === 'deleted:yes' ? 'bg-primary' : 'bg-red-400 hover:bg-red-500'}
+          style={{ width: `${deletedRatio * 100}%` }}
+        />
+      </div>
+      <div className="mt-1 flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-emerald-400" /> Kept</span>
+        <span className="flex items-center gap-1"><Trash2 className="h-3 w-3 text-red-500" /> Deleted</span>
+        <span className="flex items-center gap-1"><span className="h-0.5 w-3 bg-foreground" /> Cumulative total</span>
+      </div>
+
+      {summary.growth.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <div className="relative h-32" style={{ minWidth: summary.growth.length * 6 }}>
+            <div className="flex h-full items-end gap-px">
+              {summary.growth.map(month => {
+                const slice = `growth:${month.month}`;
+                const height = maxCreated > 0 ? (month.count / maxCreated) * 100 : 0;
+                return (
+                  <button
+                    key={month.month}
+                    type="button"
+                    disabled={month.count === 0}
+                    title={`${month.month}: ${month.count} created, ${month.deleted} deleted, ${month.cumulative} total`}
+                    onClick={() => onSelect(slice)}
+                    className={`flex flex-1 flex-col justify-end overflow-hidden rounded-t-sm ${
+                      activeSlice === slice ? 'bg-primary' : 'bg-sky-400 hover:bg-sky-500'
+                    }`}
+                    style={{ height: `${height}%` }}
+                  >
+                    {month.deleted > 0 && activeSlice !== slice && (
+                      <span className="block w-full bg-red-400" style={{ height: `${(month.deleted / month.count) * 100}%` }} />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            <svg className="pointer-events-none absolute inset-0 h-full w-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+              <polyline points={cumulativeLine} fill="none" stroke="currentColor" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+            </svg>
+          </div>
+          <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+            <span>{summary.growth[0].month}</span>
+            <span>{summary.growth[summary.growth.length - 1].month}</span>
+          </div>
+        </div>
+      )}
+    </ChartCard>
+  );
+}
@@ -0,0 +1,268 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CalendarDays, Clock, BarChart3, Timer, X } from 'lucide-react';
+import { Timeline, WEEKDAY_LABELS, type ActivityCell, type TimelineStats } from '@/lib/timeline';
+import { formatDuration } from '@/lib/utils';
+
+interface TimelineDashboardProps {
+  stats: TimelineStats;
+  // Slice key of the cell currently filtering the sidebar
+  activeSlice: string | null;
+  onSelectSlice: (slice: string | null) => void;
+  onClose: () => void;
+}
+
+const HEAT_LEVELS = ['bg-muted', 'bg-emerald-200', 'bg-emerald-300', 'bg-emerald-500', 'bg-emerald-700'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function heatLevel(count: number, max: number): string {
+  if (count === 0 || max === 0) return HEAT_LEVELS[0];
+  return HEAT_LEVELS[Math.min(HEAT_LEVELS.length - 1, Math.ceil((count / max) * (HEAT_LEVELS.length - 1)))];
+}
+
+export function TimelineDashboard({ stats, activeSlice, onSelectSlice, onClose }: TimelineDashboardProps) {
+  // Clicking the active cell again clears the filter
+  const toggleSlice = (slice: string) => onSelectSlice(activeSlice === slice ? null : slice);
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5" />
+                Timeline
+              </CardTitle>
+              <CardDescription>
+                {stats.messageCount.toLocaleString()} messages in {stats.conversationCount.toLocaleString()} conversations
+                {stats.firstMessage !== undefined && stats.lastMessage !== undefined && (
+                  <> • {new Date(stats.firstMessage).toLocaleDateString()} – {new Date(stats.lastMessage).toLocaleDateString()}</>
+                )}
+                {' • '}Click any cell to show its conversations in the sidebar
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose} className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <CalendarHeatmap stats={stats} activeSlice={activeSlice} onSelect={toggleSlice} />
+      <HourOfWeekGrid stats={stats} activeSlice={activeSlice} onSelect={toggleSlice} />
+      <MonthlyConversations stats={stats} activeSlice={activeSlice} onSelect={toggleSlice} />
+      <LatencyDistribution stats={stats} activeSlice={activeSlice} onSelect={toggleSlice} />
+    </div>
+  );
+}
+
+interface ChartProps {
+  stats: TimelineStats;
+  activeSlice: string | null;
+  onSelect: (slice: string) => void;
+}
+
+function cellTitle(label: string, cell: ActivityCell | undefined, unit: string): string {
+  const count = cell?.count ?? 0;
+  const conversations = cell?.conversationIds.size ?? 0;
+  return `${label}: ${count.toLocaleString()} ${unit}${count !== 1 ? 's' : ''} in ${conversations} conversation${conversations !== 1 ? 's' : ''}`;
+}
+
+// One GitHub-style grid per year: a column per week, Sunday at the top
+function CalendarHeatmap({ stats, activeSlice, onSelect }: ChartProps) {
+  const max = useMemo(() => Math.max(0, ...[...stats.days.values()].map(cell => cell.count)), [stats]);
+
+  if (stats.firstMessage === undefined || stats.lastMessage === undefined) return null;
+  const firstYear = new Date(stats.firstMessage).getFullYear();
+  const lastYear = new Date(stats.lastMessage).getFullYear();
+  const years = Array.from({ length: lastYear - firstYear + 1 }, (_, index) => lastYear - index);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarDays className="h-4 w-4" />
+          Messages per day
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 overflow-x-auto">
+        {years.map(year => {
+          const start = new Date(year, 0, 1);
+          const dayCount = Math.round((new Date(year + 1, 0, 1).getTime() - start.getTime()) / DAY_MS);
+
+          return (
+            <div key={year}>
+              <div className="mb-1 text-xs font-medium text-muted-foreground">{year}</div>
+              <div className="grid w-max grid-flow-col grid-rows-7 auto-cols-[11px] gap-[2px]">
+                {Array.from({ length: start.getDay() }, (_, index) => (
+                  <div key={`blank-${index}`} />
+                ))}
+                {Array.from({ length: dayCount }, (_, index) => {
+                  const date = new Date(year, 0, 1 + index);
+                  const key = Timeline.dayKey(date.getTime());
+                  const cell = stats.days.get(key);
+                  const slice = `day:${key}`;
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      disabled={!cell}
+                      title={cellTitle(date.toLocaleDateString(), cell, 'message')}
+                      onClick={() => onSelect(slice)}
+                      className={`h-[11px] w-[11px] rounded-sm ${heatLevel(cell?.count ?? 0, max)} ${
+                        activeSlice === slice ? 'ring-2 ring-primary' : ''
+                      }`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+function HourOfWeekGrid({ stats, activeSlice, onSelect }: ChartProps) {
+  const max = useMemo(() => Math.max(0, ...stats.hourOfWeek.flat().map(cell => cell.count)), [stats]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Clock className="h-4 w-4" />
+          Activity by weekday and hour
+        </CardTitle>
+        <CardDescription>Local time</CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <div className="grid min-w-[480px] grid-cols-[auto_repeat(24,minmax(0,1fr))] gap-[2px] text-xs">
+          <div />
+          {Array.from({ length: 24 }, (_, hour) => (
+            <div key={hour} className="text-center text-muted-foreground">
+              {hour % 3 === 0 ? hour : ''}
+            </div>
+          ))}
+          {stats.hourOfWeek.map((hours, weekday) => (
+            <React.Fragment key={weekday}>
+              <div className="pr-2 text-muted-foreground">{WEEKDAY_LABELS[weekday]}</div>
+              {hours.map((cell, hour) => {
+                const slice = `hour:${weekday}-${hour}`;
+                return (
+                  <button
+                    key={hour}
+                    type="button"
+                    disabled={cell.count === 0}
+                    title={cellTitle(`${WEEKDAY_LABELS[weekday]} ${hour}:00`, cell, 'message')}
+                    onClick={() => onSelect(slice)}
+                    className={`h-5 rounded-sm ${heatLevel(cell.count, max)} ${
+                      activeSlice === slice ? 'ring-2 ring-primary' : ''
+                    }`}
+                  />
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function MonthlyConversations({ stats, activeSlice, onSelect }: ChartProps) {
+  // Every month between the first and last one, so quiet months show as gaps
+  const months = useMemo(() => {
+    const keys = [...stats.months.keys()].sort();
+    if (keys.length === 0) return [];
+    const [firstYear, firstMonth] = keys[0].split('-').map(Number);
+    const [lastYear, lastMonth] = keys[keys.length - 1].split('-').map(Number);
+    const count = (lastYear - firstYear) * 12 + (lastMonth - firstMonth) + 1;
+    return Array.from({ length: count }, (_, index) => Timeline.monthKey(new Date(firstYear, firstMonth - 1 + index, 1).getTime()));
+  }, [stats]);
+  const max = Math.max(0, ...[...stats.months.values()].map(cell => cell.count));
+
+  if (months.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <BarChart3 className="h-4 w-4" />
+          Conversations started per month
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <div className="flex h-32 items-end gap-px" style={{ minWidth: months.length * 6 }}>
+          {months.map(month => {
+            const cell = stats.months.get(month);
+            const slice = `month:${month}`;
+            return (
+              <button
+                key={month}
+                type="button"
+                disabled={!cell}
+                title={cellTitle(month, cell, 'conversation')}
+                onClick={() => onSelect(slice)}
+                className={`flex-1 rounded-t-sm ${activeSlice === slice ? 'bg-primary' : 'bg-sky-400 hover:bg-sky-500'}`}
+                style={{ height: `${max > 0 ? ((cell?.count ?? 0) / max) * 100 : 0}%` }}
+              />
+            );
+          })}
+        </div>
+        <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+          <span>{months[0]}</span>
+          <span>{months[months.length - 1]}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LatencyDistribution({ stats, activeSlice, onSelect }: ChartProps) {
+  const max = Math.max(0, ...stats.latency.map(bucket => bucket.count));
+  const total = stats.latency.reduce((sum, bucket) => sum + bucket.count, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Timer className="h-4 w-4" />
+          Response latency
+        </CardTitle>
+        <CardDescription>
+          Time from a user message to the assistant's reply • {total.toLocaleString()} replies
+          {stats.medianLatency !== undefined && ` • median ${formatDuration(stats.medianLatency)}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {stats.latency.map((bucket, index) => {
+          const slice = `latency:${index}`;
+          return (
+            <button
+              key={bucket.label}
+              type="button"
+              disabled={bucket.count === 0}
+              title={cellTitle(bucket.label, bucket, 'reply')}
+              onClick={() => onSelect(slice)}
+              className={`flex w-full items-center gap-3 rounded px-1 text-left text-xs hover:bg-muted disabled:hover:bg-transparent ${
+                activeSlice === slice ? 'bg-muted' : ''
+              }`}
+            >
+              <span className="w-16 flex-shrink-0 text-muted-foreground">{bucket.label}</span>
+              <span className="h-3 flex-1">
+                <span
+                  className={`block h-full rounded-sm ${activeSlice === slice ? 'bg-primary' : 'bg-violet-400'}`}
+                  style={{ width: `${max > 0 ? (bucket.count / max) * 100 : 0}%` }}
+                />
+              </span>
+              <span className="w-12 flex-shrink-0 text-right tabular-nums">{bucket.count.toLocaleString()}</span>
+            </button>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
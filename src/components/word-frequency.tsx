@@ -0,0 +1,229 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Cloud, Table, ArrowDown, ArrowUp, Loader2, X } from 'lucide-react';
+import { TermFrequency, type NgramSize, type TermEntry, type TermOptions, type TermSender } from '@/lib/term-frequency';
+import type { ClaudeConversation, ChatGPTConversation } from '@/types/data';
+
+interface WordFrequencyProps {
+  conversations: (ClaudeConversation | ChatGPTConversation)[];
+  // Where the selection comes from, e.g. the sidebar search
+  selectionLabel: string;
+  onSearchTerm: (term: string) => void;
+  onClose: () => void;
+}
+
+const TERM_LIMIT = 200;
+const CLOUD_LIMIT = 80;
+// Tokenizing yields back to the browser after this long so the page stays responsive
+const ANALYZE_SLICE_MS = 12;
+// How often the ranking is refreshed while a large selection is still being counted
+const PREVIEW_INTERVAL_MS = 500;
+
+const CLOUD_COLORS = ['text-sky-700', 'text-emerald-700', 'text-violet-700', 'text-amber-700', 'text-rose-700', 'text-teal-700'];
+
+const NGRAM_LABELS: Record<NgramSize, string> = { 1: 'Words', 2: '2-grams', 3: '3-grams' };
+const SENDER_LABELS: Record<TermSender, string> = { all: 'Everyone', human: 'User', assistant: 'Assistant' };
+
+type SortKey = 'term' | 'count' | 'conversations';
+
+function useTermFrequency(conversations: (ClaudeConversation | ChatGPTConversation)[], options: TermOptions) {
+  const [result, setResult] = useState<{ terms: TermEntry[]; analyzed: number }>({ terms: [], analyzed: 0 });
+
+  useEffect(() => {
+    const counter = new TermFrequency(options);
+    let position = 0;
+    let lastPreview = performance.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const step = () => {
+      const deadline = performance.now() + ANALYZE_SLICE_MS;
+      while (position < conversations.length && performance.now() < deadline) {
+        counter.add(conversations[position++]);
+      }
+
+      const done = position >= conversations.length;
+      if (done || performance.now() - lastPreview > PREVIEW_INTERVAL_MS) {
+        lastPreview = performance.now();
+        setResult({ terms: counter.top(TERM_LIMIT), analyzed: position });
+      } else {
+        setResult(previous => ({ ...previous, analyzed: position }));
+      }
+      if (!done) {
+        timer = setTimeout(step, 0);
+      }
+    };
+
+    setResult({ terms: [], analyzed: 0 });
+    timer = setTimeout(step, 0);
+    return () => clearTimeout(timer);
+  }, [conversations, options.n, options.sender]);
+
+  return { ...result, isAnalyzing: result.analyzed < conversations.length };
+}
+
+export function WordFrequency({ conversations, selectionLabel, onSearchTerm, onClose }: WordFrequencyProps) {
+  const [n, setN] = useState<NgramSize>(1);
+  const [sender, setSender] = useState<TermSender>('all');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'count', descending: true });
+  const { terms, analyzed, isAnalyzing } = useTermFrequency(conversations, { n, sender });
+
+  const sortedTerms = useMemo(() => {
+    const direction = sort.descending ? -1 : 1;
+    return [...terms].sort((a, b) => direction * (
+      sort.key === 'term' ? a.term.localeCompare(b.term) : a[sort.key] - b[sort.key]
+    ));
+  }, [terms, sort]);
+
+  const toggleSort = (key: SortKey) => setSort(current => ({
+    key,
+    // Numbers start with the largest, terms alphabetically
+    descending: current.key === key ? !current.descending : key !== 'term'
+  }));
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Cloud className="h-5 w-5" />
+                Word Frequency
+              </CardTitle>
+              <CardDescription className="flex items-center gap-1">
+                {isAnalyzing && <Loader2 className="h-3 w-3 animate-spin" />}
+                {isAnalyzing
+                  ? `Analyzing ${analyzed.toLocaleString()} of ${conversations.length.toLocaleString()} conversations…`
+                  : `${selectionLabel} • Click a term to search all messages for it`}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose} className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-4">
+          <div className="flex gap-1">
+            {([1, 2, 3] as NgramSize[]).map(size => (
+              <Button key={size} variant={n === size ? 'default' : 'outline'} size="sm" onClick={() => setN(size)}>
+                {NGRAM_LABELS[size]}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {(['all', 'human', 'assistant'] as TermSender[]).map(value => (
+              <Button key={value} variant={sender === value ? 'default' : 'outline'} size="sm" onClick={() => setSender(value)}>
+                {SENDER_LABELS[value]}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {!isAnalyzing && terms.length === 0 ? (
+        <div className="p-8 text-center text-sm text-muted-foreground">
+          No terms found in the selected conversations.
+        </div>
+      ) : (
+        <>
+          <WordCloud terms={terms} onSearchTerm={onSearchTerm} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Table className="h-4 w-4" />
+                Top {Math.min(TERM_LIMIT, terms.length)} terms
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-xs text-muted-foreground">
+                    <tr>
+                      <th className="w-12 px-3 py-2 text-right font-medium">#</th>
+                      <SortHeader label="Term" sortKey="term" sort={sort} onSort={toggleSort} align="left" />
+                      <SortHeader label="Count" sortKey="count" sort={sort} onSort={toggleSort} align="right" />
+                      <SortHeader label="Conversations" sortKey="conversations" sort={sort} onSort={toggleSort} align="right" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedTerms.map((entry, index) => (
+                      <tr key={entry.term} className="border-t hover:bg-muted/50">
+                        <td className="px-3 py-1.5 text-right text-muted-foreground tabular-nums">{index + 1}</td>
+                        <td className="px-3 py-1.5">
+                          <button type="button" className="text-left hover:underline" onClick={() => onSearchTerm(entry.term)}>
+                            {entry.term}
+                          </button>
+                        </td>
+                        <td className="px-3 py-1.5 text-right tabular-nums">{entry.count.toLocaleString()}</td>
+                        <td className="px-3 py-1.5 text-right tabular-nums">{entry.conversations.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface SortHeaderProps {
+  label: string;
+  sortKey: SortKey;
+  sort: { key: SortKey; descending: boolean };
+  onSort: (key: SortKey) => void;
+  align: 'left' | 'right';
+}
+
+function SortHeader({ label, sortKey, sort, onSort, align }: SortHeaderProps) {
+  const SortIcon = sort.descending ? ArrowDown : ArrowUp;
+  return (
+    <th className={`px-3 py-2 font-medium ${align === 'right' ? 'text-right' : 'text-left'}`}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => onSort(sortKey)}>
+        {label}
+        {sort.key === sortKey && <SortIcon className="h-3 w-3" />}
+      </button>
+    </th>
+  );
+}
+
+// Font size grows with the square root of the count so a few very common terms don't dwarf the rest
+function WordCloud({ terms, onSearchTerm }: { terms: TermEntry[]; onSearchTerm: (term: string) => void }) {
+  const cloud = useMemo(() => {
+    const top = terms.slice(0, CLOUD_LIMIT);
+    const max = top[0]?.count ?? 0;
+    const min = top[top.length - 1]?.count ?? 0;
+    return top
+      .map((entry, rank) => ({
+        ...entry,
+        size: 12 + 30 * (max > min ? Math.sqrt((entry.count - min) / (max - min)) : 0.5),
+        color: CLOUD_COLORS[rank % CLOUD_COLORS.length]
+      }))
+      .sort((a, b) => a.term.localeCompare(b.term));
+  }, [terms]);
+
+  if (cloud.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="flex flex-wrap items-baseline justify-center gap-x-4 gap-y-2 p-6">
+        {cloud.map(entry => (
+          <button
+            key={entry.term}
+            type="button"
+            title={`${entry.count.toLocaleString()} occurrences in ${entry.conversations.toLocaleString()} conversations`}
+            onClick={() => onSearchTerm(entry.term)}
+            className={`leading-tight hover:underline ${entry.color}`}
+            style={{ fontSize: entry.size }}
+          >
+            {entry.term}
+          </button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { ApiLogs } from './api-logs';
+
+const anthropicPair = {
+  id: 'call-1',
+  timestamp: '2024-05-01T10:00:00.000Z',
+  request: {
+    model: 'claude-sonnet-4',
+    system: 'Be brief.',
+    messages: [{ role: 'user', content: 'What is 2 + 2?' }]
+  },
+  response: {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4',
+    content: [{ type: 'text', text: '4' }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 10, output_tokens: 1 }
+  }
+};
+
+const openAIResponse = {
+  id: 'chatcmpl-1',
+  created: 1714557600,
+  model: 'gpt-4o',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }
+};
+
+describe('ApiLogs.isApiLog', () => {
+  it('accepts requests, responses and request/response pairs', () => {
+    expect(ApiLogs.isApiLog(anthropicPair)).toBe(true);
+    expect(ApiLogs.isApiLog([anthropicPair.request, openAIResponse])).toBe(true);
+  });
+
+  it('rejects lists with anything else in them', () => {
+    expect(ApiLogs.isApiLog([])).toBe(false);
+    expect(ApiLogs.isApiLog([anthropicPair, { hello: 'world' }])).toBe(false);
+    expect(ApiLogs.isApiLog({ messages: [{ role: 'narrator', content: 'x' }] })).toBe(false);
+    expect(ApiLogs.isApiLog({ messages: [] })).toBe(false);
+  });
+});
+
+describe('ApiLogs.toConversations', () => {
+  it('turns a pair into a conversation with the system prompt and usage', () => {
+    const [conversation] = ApiLogs.toConversations(anthropicPair);
+    expect(conversation.uuid).toBe('call-1');
+    expect(conversation.name).toBe('What is 2 + 2?');
+    expect(conversation.created_at).toBe('2024-05-01T10:00:00.000Z');
+    expect(conversation.chat_messages.map(message => [message.sender, message.text])).toEqual([
+      ['human', 'What is 2 + 2?'],
+      ['assistant', '4']
+    ]);
+    expect(conversation.api_metadata).toMatchObject({
+      provider: 'anthropic',
+      model: 'claude-sonnet-4',
+      system: 'Be brief.',
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 1 }
+    });
+  });
+
+  it('reads OpenAI responses, their creation time and token counts', () => {
+    const [conversation] = ApiLogs.toConversations(openAIResponse);
+    expect(conversation.created_at).toBe(new Date(1714557600 * 1000).toISOString());
+    expect(conversation.api_metadata).toMatchObject({
+      provider: 'openai',
+      stop_reason: 'stop',
+      usage: { input_tokens: 5, output_tokens: 1, total_tokens: 6 }
+    });
+  });
+
+  it('reads numeric timestamps as Unix seconds', () => {
+    const [conversation] = ApiLogs.toConversations({ ...anthropicPair, timestamp: 1714557600 });
+    expect(conversation.created_at).toBe('2024-05-01T10:00:00.000Z');
+  });
+
+  it('leaves the timestamp empty when the record has none', () => {
+    const [conversation] = ApiLogs.toConversations(anthropicPair.request);
+    expect(conversation.created_at).toBe('');
+    expect(conversation.chat_messages.every(message => message.created_at === '')).toBe(true);
+  });
+
+  it('leaves the end of thinking blocks unknown', () => {
+    const [conversation] = ApiLogs.toConversations({
+      ...anthropicPair,
+      response: { ...anthropicPair.response, content: [{ type: 'thinking', thinking: 'Adding' }, { type: 'text', text: '4' }] }
+    });
+    const [thinking, text] = conversation.chat_messages[1].content ?? [];
+    expect(thinking).toMatchObject({ type: 'thinking', start_timestamp: '2024-05-01T10:00:00.000Z', stop_timestamp: '' });
+    expect(text.stop_timestamp).toBe('2024-05-01T10:00:00.000Z');
+  });
+
+  it('folds OpenAI tool calls and tool output into tool blocks', () => {
+    const [conversation] = ApiLogs.toConversations({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'user', content: 'Weather?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 't1', type: 'function', function: { name: 'weather', arguments: '{"city":"Tokyo"}' } }]
+        },
+        { role: 'tool', tool_call_id: 't1', content: 'Sunny' }
+      ]
+    });
+    const [, call, result] = conversation.chat_messages;
+    expect(call.content?.[0]).toMatchObject({ type: 'tool_use', id: 't1', name: 'weather', input: { city: 'Tokyo' } });
+    expect(result.content?.[0]).toMatchObject({ type: 'tool_result', tool_use_id: 't1', content: 'Sunny' });
+    expect(conversation.api_metadata.provider).toBe('openai');
+  });
+});
@@ -0,0 +1,278 @@
+import type {
+  ApiContentBlock,
+  ApiConversation,
+  ApiLogEntry,
+  ApiProvider,
+  ApiRequest,
+  ApiRequestMessage,
+  ApiResponse,
+  ApiUsage,
+  ClaudeChatMessage,
+  MessageContent,
+  OpenAIChatCompletionResponse
+} from '@/types/data';
+
+const TITLE_LENGTH = 80;
+const SYSTEM_ROLES = ['system', 'developer'];
+const MESSAGE_ROLES = ['system', 'developer', 'user', 'assistant', 'tool'];
+
+export class ApiLogs {
+  /**
+   * Recognize a single API payload or a list of them (NDJSON logs parse to an array).
+   * Every record must be a request, a response, or a request/response pair.
+   */
+  static isApiLog(data: unknown): boolean {
+    const records = Array.isArray(data) ? data : [data];
+    return records.length > 0 && records.every(record => this.toEntry(record) !== null);
+  }
+
+  static toConversations(data: unknown): ApiConversation[] {
+    const records = Array.isArray(data) ? data : [data];
+    return records
+      .map(record => this.toEntry(record))
+      .filter((entry): entry is ApiLogEntry => entry !== null)
+      .map((entry, index) => this.buildConversation(entry, index));
+  }
+
+  private static toEntry(record: unknown): ApiLogEntry | null {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) return null;
+    const obj = record as Record<string, unknown>;
+
+    if (this.isRequest(obj)) return { request: obj as unknown as ApiRequest };
+    if (this.isResponse(obj)) return { response: obj as unknown as ApiResponse };
+
+    const request = this.isRequest(obj.request) ? obj.request as ApiRequest : undefined;
+    const response = this.isResponse(obj.response) ? obj.response as ApiResponse : undefined;
+    if (!request && !response) return null;
+
+    return {
+      id: typeof obj.id === 'string' ? obj.id : undefined,
+      timestamp: typeof obj.timestamp === 'string' || typeof obj.timestamp === 'number' ? obj.timestamp : undefined,
+      request,
+      response
+    };
+  }
+
+  private static isRequest(value: unknown): boolean {
+    if (!value || typeof value !== 'object') return false;
+    const obj = value as Record<string, unknown>;
+    return (
+      Array.isArray(obj.messages) &&
+      obj.messages.length > 0 &&
+      obj.messages.every(message =>
+        !!message &&
+        typeof message === 'object' &&
+        MESSAGE_ROLES.includes((message as Record<string, unknown>).role as string) &&
+        'content' in message
+      )
+    );
+  }
+
+  private static isResponse(value: unknown): boolean {
+    if (!value || typeof value !== 'object') return false;
+    const obj = value as Record<string, unknown>;
+
+    if (obj.type === 'message' && obj.role === 'assistant' && Array.isArray(obj.content)) {
+      return true;
+    }
+    return (
+      Array.isArray(obj.choices) &&
+      obj.choices.length > 0 &&
+      obj.choices.every(choice => !!choice && typeof choice === 'object' && 'message' in choice)
+    );
+  }
+
+  private static isOpenAIResponse(response: ApiResponse): response is OpenAIChatCompletionResponse {
+    return 'choices' in response;
+  }
+
+  private static buildConversation(entry: ApiLogEntry, index: number): ApiConversation {
+    const { request, response } = entry;
+    // Records without a time keep an empty timestamp, which viewers and exports show as unknown
+    const timestamp = this.entryTimestamp(entry) ?? '';
+    const messages: ClaudeChatMessage[] = [];
+
+    const pushMessage = (sender: ClaudeChatMessage['sender'], blocks: MessageContent[]) => {
+      messages.push({
+        uuid: `${entry.id ?? response?.id ?? `api-${index}`}-${messages.length}`,
+        text: this.joinText(blocks),
+        content: blocks,
+        sender,
+        created_at: timestamp,
+        updated_at: timestamp
+      });
+    };
+
+    (request?.messages ?? [])
+      .filter(message => !SYSTEM_ROLES.includes(message.role))
+      .forEach(message => {
+        pushMessage(message.role === 'assistant' ? 'assistant' : 'human', this.messageBlocks(message, timestamp));
+      });
+
+    if (response) {
+      const blocks = this.isOpenAIResponse(response)
+        ? this.messageBlocks(response.choices[0].message, timestamp)
+        : this.toContentBlocks(response.content, timestamp);
+      pushMessage('assistant', blocks);
+    }
+
+    const model = response?.model ?? request?.model;
+    const system = request ? this.systemPrompt(request) : undefined;
+
+    return {
+      uuid: entry.id ?? response?.id ?? `api-${index}`,
+      name: this.firstPrompt(messages) ?? `${model ?? 'API'} call ${index + 1}`,
+      created_at: timestamp,
+      updated_at: timestamp,
+      chat_messages: messages,
+      api_metadata: {
+        provider: this.detectProvider(entry),
+        model,
+        system,
+        usage: response?.usage ? this.normalizeUsage(response.usage) : undefined,
+        stop_reason: response
+          ? (this.isOpenAIResponse(response) ? response.choices[0].finish_reason : response.stop_reason) ?? undefined
+          : undefined
+      }
+    };
+  }
+
+  private static entryTimestamp(entry: ApiLogEntry): string | undefined {
+    if (typeof entry.timestamp === 'string') return entry.timestamp;
+    // Numeric timestamps are Unix seconds, the same unit as OpenAI's `created`
+    const seconds = typeof entry.timestamp === 'number'
+      ? entry.timestamp
+      : entry.response && this.isOpenAIResponse(entry.response) ? entry.response.created : undefined;
+    return seconds !== undefined ? new Date(seconds * 1000).toISOString() : undefined;
+  }
+
+  private static detectProvider(entry: ApiLogEntry): ApiProvider {
+    if (entry.response) {
+      return this.isOpenAIResponse(entry.response) ? 'openai' : 'anthropic';
+    }
+
+    const messages = entry.request?.messages ?? [];
+    const usesOpenAIShape = messages.some(message =>
+      (message.role !== 'user' && message.role !== 'assistant') ||
+      !!message.tool_calls ||
+      message.content === null
+    );
+    return usesOpenAIShape || /^(gpt|o\d)/i.test(entry.request?.model ?? '') ? 'openai' : 'anthropic';
+  }
+
+  private static messageBlocks(message: ApiRequestMessage, timestamp: string): MessageContent[] {
+    // OpenAI returns tool output as its own role; fold it into a tool_result block
+    if (message.role === 'tool') {
+      return [{
+        type: 'tool_result',
+        tool_use_id: message.tool_call_id,
+        content: typeof message.content === 'string' ? message.content : this.blocksToText(message.content ?? []),
+        start_timestamp: timestamp,
+        stop_timestamp: timestamp
+      }];
+    }
+
+    const blocks = typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content, start_timestamp: timestamp, stop_timestamp: timestamp } as MessageContent]
+      : this.toContentBlocks(message.content ?? [], timestamp);
+
+    (message.tool_calls ?? []).forEach(call => {
+      blocks.push({
+        type: 'tool_use',
+        id: call.id,
+        name: call.function.name,
+        input: this.parseArguments(call.function.arguments),
+        start_timestamp: timestamp,
+        stop_timestamp: timestamp
+      });
+    });
+
+    return blocks;
+  }
+
+  private static toContentBlocks(content: ApiContentBlock[], timestamp: string): MessageContent[] {
+    return content.map(block => {
+      const base = { start_timestamp: timestamp, stop_timestamp: timestamp };
+
+      switch (block.type) {
+        case 'text':
+        case 'input_text':
+        case 'output_text':
+          return { ...base, type: 'text', text: block.text ?? '' };
+        case 'thinking':
+          // A log has one time per record, so how long thinking took is unknown
+          return { ...base, type: 'thinking', thinking: block.thinking ?? '', stop_timestamp: '' };
+        case 'tool_use':
+          return { ...base, type: 'tool_use', id: block.id, name: block.name, input: block.input };
+        case 'tool_result':
+          return {
+            ...base,
+            type: 'tool_result',
+            tool_use_id: block.tool_use_id,
+            content: typeof block.content === 'string' ? block.content : this.blocksToText(block.content ?? []),
+            is_error: block.is_error
+          };
+        default:
+          // Images, documents and redacted thinking carry nothing readable in a log
+          return { ...base, type: 'text', text: `[${block.type}]` };
+      }
+    });
+  }
+
+  private static blocksToText(blocks: ApiContentBlock[]): string {
+    return blocks.map(block => block.text ?? `[${block.type}]`).join('\n');
+  }
+
+  private static parseArguments(args: string): Record<string, unknown> {
+    try {
+      const parsed = JSON.parse(args);
+      return parsed && typeof parsed === 'object' ? parsed : { arguments: parsed };
+    } catch {
+      return { arguments: args };
+    }
+  }
+
+  private static systemPrompt(request: ApiRequest): string | undefined {
+    const parts: string[] = [];
+    if (typeof request.system === 'string') {
+      parts.push(request.system);
+    } else if (Array.isArray(request.system)) {
+      parts.push(this.blocksToText(request.system));
+    }
+
+    request.messages
+      .filter(message => SYSTEM_ROLES.includes(message.role))
+      .forEach(message => {
+        parts.push(typeof message.content === 'string' ? message.content : this.blocksToText(message.content ?? []));
+      });
+
+    const system = parts.filter(part => part.trim()).join('\n\n');
+    return system || undefined;
+  }
+
+  // OpenAI reports prompt/completion tokens; map them onto the Anthropic names
+  private static normalizeUsage(usage: Record<string, number>): ApiUsage {
+    return {
+      input_tokens: usage.input_tokens ?? usage.prompt_tokens,
+      output_tokens: usage.output_tokens ?? usage.completion_tokens,
+      cache_creation_input_tokens: usage.cache_creation_input_tokens,
+      cache_read_input_tokens: usage.cache_read_input_tokens,
+      total_tokens: usage.total_tokens
+    };
+  }
+
+  private static joinText(blocks: MessageContent[]): string {
+    return blocks
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('\n');
+  }
+
+  private static firstPrompt(messages: ClaudeChatMessage[]): string | undefined {
+    const prompt = messages.find(message => message.sender === 'human' && message.text.trim());
+    if (!prompt) return undefined;
+
+    const text = prompt.text.replace(/\s+/g, ' ').trim();
+    return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH)}…` : text;
+  }
+}
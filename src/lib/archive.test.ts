@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { ArchiveReader } from './archive';
+
+const exportZip = () => zipSync({
+  'conversations.json': strToU8('[{"uuid":"c1"}]'),
+  'users.json': strToU8('[{"uuid":"u1"},{"uuid":"u2"}]'),
+  'memories.json': strToU8('not json'),
+  'export/conversations-001.json': strToU8('[]'),
+  'chat.html': strToU8('<html></html>'),
+  '__MACOSX/._conversations.json': strToU8('junk'),
+  '.DS_Store': strToU8('junk')
+});
+
+describe('ArchiveReader.isArchive', () => {
+  it('checks the extension case-insensitively', () => {
+    expect(ArchiveReader.isArchive('export.ZIP')).toBe(true);
+    expect(ArchiveReader.isArchive('conversations.json')).toBe(false);
+  });
+});
+
+describe('ArchiveReader.extract', () => {
+  const lastModified = new Date('2024-06-01T00:00:00Z');
+  const contents = ArchiveReader.extract(exportZip(), lastModified);
+
+  it('lists every entry except folders, macOS metadata and dotfiles', () => {
+    expect(contents.entries.map(entry => entry.path).sort()).toEqual([
+      'chat.html',
+      'conversations.json',
+      'export/conversations-001.json',
+      'memories.json',
+      'users.json'
+    ]);
+    expect(contents.entries.find(entry => entry.path === 'chat.html')?.size).toBe(13);
+  });
+
+  it('returns conversation files, including split ones in subfolders', () => {
+    expect(contents.conversationFiles).toEqual([
+      { filename: 'conversations.json', content: '[{"uuid":"c1"}]', type: 'json', size: 15, lastModified },
+      { filename: 'export/conversations-001.json', content: '[]', type: 'json', size: 2, lastModified }
+    ]);
+  });
+
+  it('parses known extra files and skips the ones that are not JSON', () => {
+    expect(contents.extras).toEqual([
+      { filename: 'users.json', label: 'Users', data: [{ uuid: 'u1' }, { uuid: 'u2' }], recordCount: 2 }
+    ]);
+  });
+
+  it('reports bytes that are not a ZIP archive', () => {
+    expect(() => ArchiveReader.extract(strToU8('plain text'))).toThrow(/Failed to read ZIP archive/);
+  });
+});
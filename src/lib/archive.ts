@@ -0,0 +1,89 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import type { ArchiveContents, ArchiveEntry, ArchiveExtra, FileUploadResult } from '@/types/data';
+
+// Conversation files shipped by Claude (conversations.json) and ChatGPT
+// (conversations.json, or conversations-000.json ... in split exports)
+const CONVERSATION_FILE_PATTERN = /^conversations(-\d+)?\.json$/i;
+
+// Other files found in official exports that are worth surfacing as metadata
+const KNOWN_EXTRA_FILES: Record<string, string> = {
+  'users.json': 'Users',
+  'user.json': 'User',
+  'projects.json': 'Projects',
+  'memories.json': 'Memories',
+  'message_feedback.json': 'Message Feedback',
+  'shared_conversations.json': 'Shared Conversations',
+  'model_comparisons.json': 'Model Comparisons',
+  'group_chats.json': 'Group Chats'
+};
+
+export class ArchiveReader {
+  static isArchive(filename: string): boolean {
+    return filename.toLowerCase().endsWith('.zip');
+  }
+
+  static extract(bytes: Uint8Array, lastModified: Date = new Date()): ArchiveContents {
+    const entries: ArchiveEntry[] = [];
+
+    let files: Record<string, Uint8Array>;
+    try {
+      // Only decompress the files we actually read; images and HTML can be large
+      files = unzipSync(bytes, {
+        filter: (file) => {
+          if (this.isIgnoredEntry(file.name)) return false;
+          entries.push({ path: file.name, size: file.originalSize });
+          const basename = this.basename(file.name);
+          return CONVERSATION_FILE_PATTERN.test(basename) || basename.toLowerCase() in KNOWN_EXTRA_FILES;
+        }
+      });
+    } catch (error) {
+      throw new Error(`Failed to read ZIP archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const conversationFiles: FileUploadResult[] = [];
+    const extras: ArchiveExtra[] = [];
+
+    Object.keys(files).sort().forEach(entryPath => {
+      const basename = this.basename(entryPath);
+      const content = strFromU8(files[entryPath]);
+
+      if (CONVERSATION_FILE_PATTERN.test(basename)) {
+        conversationFiles.push({
+          filename: entryPath,
+          content,
+          type: 'json',
+          size: files[entryPath].length,
+          lastModified
+        });
+        return;
+      }
+
+      try {
+        const data: unknown = JSON.parse(content);
+        extras.push({
+          filename: entryPath,
+          label: KNOWN_EXTRA_FILES[basename.toLowerCase()],
+          data,
+          recordCount: Array.isArray(data) ? data.length : undefined
+        });
+      } catch {
+        // Unparsable extras are not fatal; the conversations are what matter
+      }
+    });
+
+    return { entries, conversationFiles, extras };
+  }
+
+  private static isIgnoredEntry(entryPath: string): boolean {
+    return (
+      entryPath.endsWith('/') ||
+      entryPath.startsWith('__MACOSX/') ||
+      this.basename(entryPath).startsWith('.')
+    );
+  }
+
+  private static basename(entryPath: string): string {
+    const segments = entryPath.split('/');
+    return segments[segments.length - 1];
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { ClaudeCodeSessions } from './claude-code';
+import type { ClaudeCodeEvent } from '@/types/data';
+
+const events: ClaudeCodeEvent[] = [
+  { type: 'summary', summary: 'Fix the build', leafUuid: 'a2' },
+  {
+    type: 'user',
+    uuid: 'u1',
+    sessionId: 's1',
+    timestamp: '2024-03-01T09:00:00.000Z',
+    cwd: '/work/app',
+    gitBranch: 'main',
+    message: { role: 'user', content: 'The build fails' }
+  },
+  {
+    type: 'assistant',
+    uuid: 'a1',
+    sessionId: 's1',
+    timestamp: '2024-03-01T09:00:05.000Z',
+    message: {
+      id: 'msg_1',
+      role: 'assistant',
+      model: 'claude-sonnet-4',
+      content: [{ type: 'thinking', thinking: 'Check the log' }, { type: 'text', text: 'Looking.' }]
+    }
+  },
+  {
+    type: 'assistant',
+    uuid: 'a2',
+    sessionId: 's1',
+    timestamp: '2024-03-01T09:00:06.000Z',
+    message: { id: 'msg_1', role: 'assistant', model: 'claude-sonnet-4', content: [{ type: 'tool_use', id: 't1', name: 'Bash', input: {} }] }
+  },
+  {
+    type: 'user',
+    uuid: 'u2',
+    sessionId: 's2',
+    timestamp: '2024-03-02T09:00:00.000Z',
+    message: { role: 'user', content: '<command-name>/clear</command-name>' }
+  },
+  {
+    type: 'user',
+    uuid: 'u3',
+    sessionId: 's2',
+    timestamp: '2024-03-02T09:00:01.000Z',
+    message: { role: 'user', content: 'Add a   test\nfor the parser' }
+  }
+];
+
+describe('ClaudeCodeSessions.isSessionLog', () => {
+  it('needs at least one user or assistant event with a session ID', () => {
+    expect(ClaudeCodeSessions.isSessionLog(events)).toBe(true);
+    expect(ClaudeCodeSessions.isSessionLog([{ type: 'summary', summary: 'x', leafUuid: 'y' }])).toBe(false);
+    expect(ClaudeCodeSessions.isSessionLog([{ name: 'no type' }])).toBe(false);
+    expect(ClaudeCodeSessions.isSessionLog([])).toBe(false);
+  });
+});
+
+describe('ClaudeCodeSessions.groupSessions', () => {
+  const sessions = ClaudeCodeSessions.groupSessions(events);
+
+  it('groups events by session in order of first appearance', () => {
+    expect(sessions.map(session => session.uuid)).toEqual(['s1', 's2']);
+    expect(sessions[0].created_at).toBe('2024-03-01T09:00:00.000Z');
+    expect(sessions[0].updated_at).toBe('2024-03-01T09:00:06.000Z');
+  });
+
+  it('merges assistant events that share an API message ID', () => {
+    const messages = sessions[0].chat_messages;
+    expect(messages.map(message => message.sender)).toEqual(['human', 'assistant']);
+    expect(messages[1].content?.map(block => block.type)).toEqual(['thinking', 'text', 'tool_use']);
+    expect(messages[1].text).toBe('Looking.');
+    expect(messages[1].updated_at).toBe('2024-03-01T09:00:06.000Z');
+  });
+
+  it('leaves the end of thinking blocks unknown', () => {
+    const [thinking, text] = sessions[0].chat_messages[1].content ?? [];
+    expect(thinking).toMatchObject({ start_timestamp: '2024-03-01T09:00:05.000Z', stop_timestamp: '' });
+    expect(text.stop_timestamp).toBe('2024-03-01T09:00:05.000Z');
+  });
+
+  it('names sessions after their summary, or else the first real prompt', () => {
+    expect(sessions[0].name).toBe('Fix the build');
+    expect(sessions[1].name).toBe('Add a test for the parser');
+  });
+
+  it('collects session metadata', () => {
+    expect(sessions[0].session_metadata).toMatchObject({
+      sessionId: 's1',
+      cwd: '/work/app',
+      gitBranch: 'main',
+      models: ['claude-sonnet-4'],
+      eventCount: 3
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import type {
+  ClaudeChatMessage,
+  ClaudeCodeContentBlock,
+  ClaudeCodeEvent,
+  ClaudeCodeSession,
+  MessageContent
+} from '@/types/data';
+
+const CONVERSATION_EVENT_TYPES = ['user', 'assistant'];
+const CONTENT_BLOCK_TYPES = ['text', 'thinking', 'tool_use', 'tool_result'];
+const TITLE_LENGTH = 80;
+
+export class ClaudeCodeSessions {
+  static isSessionLog(data: unknown): data is ClaudeCodeEvent[] {
+    if (!Array.isArray(data) || data.length === 0) return false;
+
+    let conversationEvents = 0;
+    for (const item of data) {
+      if (!item || typeof item !== 'object' || typeof (item as Record<string, unknown>).type !== 'string') {
+        return false;
+      }
+      const event = item as ClaudeCodeEvent;
+      if (typeof event.sessionId === 'string' && CONVERSATION_EVENT_TYPES.includes(event.type) && event.message) {
+        conversationEvents++;
+      }
+    }
+    return conversationEvents > 0;
+  }
+
+  /**
+   * Group events by session ID, in order of first appearance. Summary events carry
+   * no session ID; they are matched to a session through their leafUuid.
+   */
+  static groupSessions(events: ClaudeCodeEvent[]): ClaudeCodeSession[] {
+    const summariesByLeaf = new Map<string, string>();
+    const eventsBySession = new Map<string, ClaudeCodeEvent[]>();
+
+    events.forEach(event => {
+      if (event.type === 'summary' && event.leafUuid && event.summary) {
+        summariesByLeaf.set(event.leafUuid, event.summary);
+        return;
+      }
+      if (!event.sessionId) return;
+
+      const sessionEvents = eventsBySession.get(event.sessionId);
+      if (sessionEvents) {
+        sessionEvents.push(event);
+      } else {
+        eventsBySession.set(event.sessionId, [event]);
+      }
+    });
+
+    return Array.from(eventsBySession.entries())
+      .map(([sessionId, sessionEvents]) => this.buildSession(sessionId, sessionEvents, summariesByLeaf));
+  }
+
+  private static buildSession(
+    sessionId: string,
+    events: ClaudeCodeEvent[],
+    summariesByLeaf: Map<string, string>
+  ): ClaudeCodeSession {
+    const messages: ClaudeChatMessage[] = [];
+    const models = new Set<string>();
+    let summary: string | undefined;
+    let lastApiMessageId: string | undefined;
+
+    events.forEach(event => {
+      if (event.uuid && summariesByLeaf.has(event.uuid)) {
+        summary = summariesByLeaf.get(event.uuid);
+      }
+      if (!CONVERSATION_EVENT_TYPES.includes(event.type) || !event.message) return;
+
+      if (event.message.model && event.message.model !== '<synthetic>') {
+        models.add(event.message.model);
+      }
+
+      const timestamp = event.timestamp ?? '';
+      const blocks = this.toContentBlocks(event.message.content, timestamp);
+      const previous = messages[messages.length - 1];
+
+      // Assistant replies are written as one event per content block sharing a message id
+      if (
+        event.type === 'assistant' &&
+        previous?.sender === 'assistant' &&
+        event.message.id &&
+        event.message.id === lastApiMessageId
+      ) {
+        previous.content = [...(previous.content ?? []), ...blocks];
+        previous.text = this.joinText(previous.content);
+        previous.updated_at = timestamp;
+        return;
+      }
+
+      messages.push({
+        uuid: event.uuid ?? `${sessionId}-${messages.length}`,
+        text: this.joinText(blocks),
+        content: blocks,
+        sender: event.message.role === 'user' ? 'human' : 'assistant',
+        created_at: timestamp,
+        updated_at: timestamp
+      });
+      lastApiMessageId = event.message.id;
+    });
+
+    const timestamps = events
+      .map(event => event.timestamp)
+      .filter((timestamp): timestamp is string => !!timestamp)
+      .sort();
+    const firstWith = <K extends keyof ClaudeCodeEvent>(key: K) => events.find(event => event[key])?.[key];
+
+    return {
+      uuid: sessionId,
+      name: summary ?? this.firstPrompt(messages) ?? sessionId,
+      created_at: timestamps[0] ?? '',
+      updated_at: timestamps[timestamps.length - 1] ?? '',
+      chat_messages: messages,
+      session_metadata: {
+        sessionId,
+        cwd: firstWith('cwd') as string | undefined,
+        gitBranch: firstWith('gitBranch') as string | undefined,
+        version: firstWith('version') as string | undefined,
+        models: Array.from(models),
+        eventCount: events.length
+      }
+    };
+  }
+
+  private static toContentBlocks(content: string | ClaudeCodeContentBlock[], timestamp: string): MessageContent[] {
+    if (typeof content === 'string') {
+      return [{ type: 'text', text: content, start_timestamp: timestamp, stop_timestamp: timestamp }];
+    }
+
+    return content.map(block => {
+      if (!CONTENT_BLOCK_TYPES.includes(block.type)) {
+        return { type: 'text', text: `[${block.type}]`, start_timestamp: timestamp, stop_timestamp: timestamp };
+      }
+      return {
+        ...block,
+        type: block.type as MessageContent['type'],
+        start_timestamp: timestamp,
+        // Events carry one time per block, so how long thinking took is unknown
+        stop_timestamp: block.type === 'thinking' ? '' : timestamp
+      };
+    });
+  }
+
+  private static joinText(blocks: MessageContent[]): string {
+    return blocks
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('\n');
+  }
+
+  // Skip slash-command and caveat wrappers that Claude Code injects as user turns
+  private static firstPrompt(messages: ClaudeChatMessage[]): string | undefined {
+    const prompt = messages.find(message =>
+      message.sender === 'human' && message.text.trim() && !message.text.trim().startsWith('<')
+    );
+    if (!prompt) return undefined;
+
+    const text = prompt.text.replace(/\s+/g, ' ').trim();
+    return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH)}…` : text;
+  }
+}
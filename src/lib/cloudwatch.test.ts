@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { CloudWatchLogs } from './cloudwatch';
+
+const insightsRow = (timestamp: string, message: string) => [
+  { field: '@timestamp', value: timestamp },
+  { field: '@message', value: message }
+];
+
+describe('CloudWatchLogs.isCloudWatchLog', () => {
+  it('recognizes filter-log-events output', () => {
+    expect(CloudWatchLogs.isCloudWatchLog({ events: [{ timestamp: 1, message: 'hello' }] })).toBe(true);
+    expect(CloudWatchLogs.isCloudWatchLog({ events: [], searchedLogStreams: [] })).toBe(true);
+  });
+
+  it('recognizes get-query-results output', () => {
+    expect(CloudWatchLogs.isCloudWatchLog({ results: [insightsRow('2024-01-01 00:00:00.000', 'hi')] })).toBe(true);
+    expect(CloudWatchLogs.isCloudWatchLog({ results: [], status: 'Complete' })).toBe(true);
+  });
+
+  it('does not claim arbitrary JSON with an empty results or events list', () => {
+    expect(CloudWatchLogs.isCloudWatchLog({ results: [] })).toBe(false);
+    expect(CloudWatchLogs.isCloudWatchLog({ events: [] })).toBe(false);
+    expect(CloudWatchLogs.isCloudWatchLog({ results: [[]] })).toBe(false);
+  });
+
+  it('recognizes Insights console exports', () => {
+    expect(CloudWatchLogs.isCloudWatchLog([{ '@timestamp': '2024-01-01', '@message': 'hi' }])).toBe(true);
+    expect(CloudWatchLogs.isCloudWatchLog([{ name: 'x' }])).toBe(false);
+  });
+});
+
+describe('CloudWatchLogs.toRecords', () => {
+  it('sorts events by timestamp', () => {
+    const records = CloudWatchLogs.toRecords({
+      events: [{ timestamp: 20, message: 'second' }, { timestamp: 10, message: 'first' }]
+    });
+    expect(records.map(record => record.message)).toEqual(['first', 'second']);
+  });
+});
+
+describe('CloudWatchLogs.parseJsonMessage', () => {
+  it('parses a JSON payload after a Lambda prefix', () => {
+    expect(CloudWatchLogs.parseJsonMessage('2024-01-01T00:00:00Z\treq-1\tINFO\t{"level":"warn"}')).toEqual({ level: 'warn' });
+  });
+
+  it('returns undefined for plain text', () => {
+    expect(CloudWatchLogs.parseJsonMessage('no json here')).toBeUndefined();
+    expect(CloudWatchLogs.parseJsonMessage('broken {json')).toBeUndefined();
+  });
+});
+
+describe('CloudWatchLogs.detectLevel', () => {
+  it('prefers a level field in the JSON payload', () => {
+    expect(CloudWatchLogs.detectLevel('INFO something', { severity: 'WARNING' })).toBe('warn');
+  });
+
+  it('falls back to a level word in the message', () => {
+    expect(CloudWatchLogs.detectLevel('[ERROR] failed')).toBe('error');
+    expect(CloudWatchLogs.detectLevel('CRITICAL: disk full')).toBe('error');
+    expect(CloudWatchLogs.detectLevel('nothing to see')).toBe('unknown');
+  });
+});
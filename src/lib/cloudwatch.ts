@@ -0,0 +1,159 @@
+import type {
+  CloudWatchFilterLogEventsOutput,
+  CloudWatchInsightsField,
+  CloudWatchInsightsQueryResults,
+  CloudWatchLogEvent,
+  LogLevel,
+  LogRecord
+} from '@/types/data';
+
+const LEVEL_PATTERN = /\b(FATAL|CRITICAL|ERROR|WARN(?:ING)?|INFO|DEBUG|TRACE)\b/i;
+const LEVEL_FIELDS = ['level', 'levelname', 'log_level', 'logLevel', 'severity', 'lvl'];
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  fatal: 'error',
+  critical: 'error',
+  error: 'error',
+  err: 'error',
+  warn: 'warn',
+  warning: 'warn',
+  info: 'info',
+  information: 'info',
+  debug: 'debug',
+  trace: 'trace'
+};
+
+export class CloudWatchLogs {
+  /**
+   * Recognize CloudWatch output by structure: filter-log-events `events[]`,
+   * get-query-results `results[][]`, or an Insights console export of `@`-prefixed rows.
+   */
+  static isCloudWatchLog(data: unknown): boolean {
+    if (Array.isArray(data)) {
+      return data.length > 0 && (data.every(item => this.isLogEvent(item)) || data.every(item => this.isInsightsRow(item)));
+    }
+    if (!data || typeof data !== 'object') return false;
+
+    const obj = data as Record<string, unknown>;
+    if (Array.isArray(obj.events)) {
+      return obj.events.every(item => this.isLogEvent(item)) && (obj.events.length > 0 || 'searchedLogStreams' in obj);
+    }
+    if (Array.isArray(obj.results)) {
+      // An empty result list is only recognizable by the query's status fields
+      return obj.results.every(row =>
+        Array.isArray(row) && row.length > 0 &&
+        row.every(field => !!field && typeof field === 'object' && 'field' in field && 'value' in field)
+      ) && (obj.results.length > 0 || 'status' in obj || 'statistics' in obj);
+    }
+    return false;
+  }
+
+  static countRecords(data: unknown): number {
+    if (Array.isArray(data)) return data.length;
+    const obj = data as Partial<CloudWatchFilterLogEventsOutput & CloudWatchInsightsQueryResults>;
+    return (obj.events ?? obj.results ?? []).length;
+  }
+
+  static toRecords(data: unknown): LogRecord[] {
+    const records = Array.isArray(data)
+      ? data.every(item => this.isLogEvent(item))
+        ? (data as CloudWatchLogEvent[]).map((event, index) => this.fromEvent(event, index))
+        : (data as Record<string, unknown>[]).map((row, index) => this.fromFields(this.stringifyFields(row), index))
+      : 'events' in (data as object)
+        ? (data as CloudWatchFilterLogEventsOutput).events.map((event, index) => this.fromEvent(event, index))
+        : (data as CloudWatchInsightsQueryResults).results.map((row, index) => this.fromFields(this.rowToFields(row), index));
+
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Pull a JSON object out of a message. Structured loggers often prefix the payload
+   * (Lambda writes `timestamp\trequestId\tLEVEL\t{...}`), so parse from the first brace.
+   */
+  static parseJsonMessage(message: string): unknown {
+    const start = message.search(/[{[]/);
+    if (start === -1) return undefined;
+
+    try {
+      const parsed = JSON.parse(message.slice(start).trim());
+      return parsed && typeof parsed === 'object' ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  static detectLevel(message: string, json?: unknown): LogLevel {
+    if (json && typeof json === 'object' && !Array.isArray(json)) {
+      const obj = json as Record<string, unknown>;
+      for (const field of LEVEL_FIELDS) {
+        const value = obj[field];
+        if (typeof value === 'string' && LEVEL_ALIASES[value.toLowerCase()]) {
+          return LEVEL_ALIASES[value.toLowerCase()];
+        }
+      }
+    }
+
+    const match = message.match(LEVEL_PATTERN);
+    return match ? LEVEL_ALIASES[match[1].toLowerCase()] : 'unknown';
+  }
+
+  private static isLogEvent(item: unknown): boolean {
+    if (!item || typeof item !== 'object') return false;
+    const obj = item as Record<string, unknown>;
+    return typeof obj.timestamp === 'number' && typeof obj.message === 'string';
+  }
+
+  private static isInsightsRow(item: unknown): boolean {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return false;
+    return '@timestamp' in item || '@message' in item;
+  }
+
+  private static fromEvent(event: CloudWatchLogEvent, index: number): LogRecord {
+    const json = this.parseJsonMessage(event.message);
+    return {
+      id: event.eventId ?? `event-${index}`,
+      timestamp: event.timestamp,
+      message: event.message.trimEnd(),
+      stream: event.logStreamName,
+      level: this.detectLevel(event.message, json),
+      json,
+      fields: {}
+    };
+  }
+
+  private static fromFields(fields: Record<string, string>, index: number): LogRecord {
+    const message = fields['@message'] ?? '';
+    const json = this.parseJsonMessage(message);
+    // @log is "accountId:logGroupName"
+    const group = fields['@log']?.replace(/^\d+:/, '');
+
+    return {
+      id: fields['@ptr'] ?? `row-${index}`,
+      timestamp: this.parseInsightsTimestamp(fields['@timestamp']),
+      message: message.trimEnd(),
+      stream: fields['@logStream'],
+      group,
+      level: this.detectLevel(message, json),
+      json,
+      fields
+    };
+  }
+
+  private static rowToFields(row: CloudWatchInsightsField[]): Record<string, string> {
+    return Object.fromEntries(row.map(({ field, value }) => [field, value]));
+  }
+
+  private static stringifyFields(row: Record<string, unknown>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+    );
+  }
+
+  // Insights prints UTC timestamps as "2024-01-31 12:34:56.789"
+  private static parseInsightsTimestamp(value?: string): number {
+    if (!value) return 0;
+    const iso = /^\d{4}-\d{2}-\d{2} \d/.test(value) ? `${value.replace(' ', 'T')}Z` : value;
+    const time = new Date(iso).getTime();
+    return isNaN(time) ? 0 : time;
+  }
+}
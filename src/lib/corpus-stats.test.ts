@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { CorpusStats } from './corpus-stats';
+import type { ClaudeChatMessage, ClaudeConversation } from '@/types/data';
+
+const message = (uuid: string, sender: ClaudeChatMessage['sender'], text: string, overrides: Partial<ClaudeChatMessage> = {}): ClaudeChatMessage => ({
+  uuid,
+  text,
+  sender,
+  created_at: '2024-01-10T10:00:00',
+  updated_at: '2024-01-10T10:00:00',
+  ...overrides
+});
+
+const conversation = (uuid: string, name: string, created_at: string, messages: ClaudeChatMessage[]): ClaudeConversation => ({
+  uuid,
+  name,
+  created_at,
+  updated_at: created_at,
+  chat_messages: messages
+});
+
+const conversations = [
+  conversation('c1', 'Report', '2024-01-10T10:00:00', [
+    message('m1', 'human', 'Summarize this', {
+      attachments: [{ file_name: 'report.pdf', file_type: 'PDF', file_size: 2048, extracted_content: 'Quarterly numbers' }]
+    }),
+    message('m2', 'assistant', 'Revenue grew.')
+  ]),
+  conversation('c2', '', '2024-03-02T10:00:00', [
+    message('m3', 'human', 'こんにちは', { files: [{ file_name: 'photo.PNG', file_type: '', file_size: 512 }] })
+  ])
+];
+
+const sliceIds = (slice: ReturnType<typeof CorpusStats.slice>) => slice ? [...slice.cell.conversationIds] : undefined;
+
+describe('CorpusStats.estimateTokens', () => {
+  it('counts a token per CJK character and per four other characters', () => {
+    expect(CorpusStats.estimateTokens('abcdefgh')).toBe(2);
+    expect(CorpusStats.estimateTokens('こんにちは')).toBe(5);
+    expect(CorpusStats.estimateTokens('日本 ok')).toBe(3);
+  });
+});
+
+describe('CorpusStats.build', () => {
+  const summary = CorpusStats.build(conversations);
+
+  it('totals messages and text by sender', () => {
+    expect(summary.messageCount).toBe(3);
+    expect(summary.senders.map(totals => [totals.sender, totals.count, [...totals.conversationIds]])).toEqual([
+      ['human', 2, ['c1', 'c2']],
+      ['assistant', 1, ['c1']]
+    ]);
+    expect(summary.senders[1].characters).toBe('Revenue grew.'.length);
+  });
+
+  it('sizes conversations, largest first, and marks untitled ones as deleted', () => {
+    expect(summary.conversations.map(size => [size.id, size.messages, size.deleted])).toEqual([
+      ['c1', 2, false],
+      ['c2', 1, true]
+    ]);
+    expect([...summary.deleted.conversationIds]).toEqual(['c2']);
+  });
+
+  it('groups attachments by type, falling back to the extension', () => {
+    expect(summary.attachments.map(totals => [totals.type, totals.count, totals.bytes])).toEqual([
+      ['pdf', 1, 2048],
+      ['png', 1, 512]
+    ]);
+  });
+
+  it('fills every month between the first and last conversation', () => {
+    expect(summary.growth.map(month => [month.month, month.count, month.deleted, month.cumulative])).toEqual([
+      ['2024-01', 1, 0, 1],
+      ['2024-02', 0, 0, 1],
+      ['2024-03', 1, 1, 2]
+    ]);
+  });
+});
+
+describe('CorpusStats.slice', () => {
+  const summary = CorpusStats.build(conversations);
+
+  it('resolves sender, attachment, deletion and growth cells', () => {
+    expect(sliceIds(CorpusStats.slice(summary, 'sender:assistant'))).toEqual(['c1']);
+    expect(sliceIds(CorpusStats.slice(summary, 'attachment:png'))).toEqual(['c2']);
+    expect(CorpusStats.slice(summary, 'deleted:yes')?.label).toBe('Deleted conversations');
+    expect(sliceIds(CorpusStats.slice(summary, 'deleted:no'))).toEqual(['c1']);
+    expect(sliceIds(CorpusStats.slice(summary, 'growth:2024-03'))).toEqual(['c2']);
+  });
+
+  it('returns null for unknown or empty cells', () => {
+    expect(CorpusStats.slice(summary, 'sender:system')).toBeNull();
+    expect(CorpusStats.slice(summary, 'growth:2024-02')).toBeNull();
+    expect(CorpusStats.slice(summary, 'deleted:maybe')).toBeNull();
+  });
+});
+
+describe('CorpusStats.toCsv', () => {
+  it('exports a table per breakdown', () => {
+    expect(CorpusStats.toCsv(CorpusStats.build(conversations), 'attachments')).toBe(
+      'type,files,conversations,bytes\npdf,1,1,2048\npng,1,1,512'
+    );
+  });
+});
@@ -0,0 +1,255 @@
+import { SearchQuery } from './search-query';
+import { Timeline, emptyCell, addToCell, type ActivityCell } from './timeline';
+import { DataParser } from './parser';
+import { toCsv } from './utils';
+import type { SearchSender } from './search-index';
+import type { ClaudeConversation, ChatGPTConversation } from '@/types/data';
+
+export interface SenderTotals extends ActivityCell {
+  sender: SearchSender;
+  characters: number;
+  tokens: number;
+}
+
+export interface ConversationSize {
+  id: string;
+  title: string;
+  deleted: boolean;
+  messages: number;
+  characters: number;
+  tokens: number;
+  createdAt?: number;
+}
+
+export interface AttachmentTotals extends ActivityCell {
+  // Lower-cased file type, e.g. "pdf", "image/png" or "image"
+  type: string;
+  bytes: number;
+}
+
+export interface GrowthMonth extends ActivityCell {
+  // YYYY-MM of creation
+  month: string;
+  deleted: number;
+  // Conversations created up to and including this month
+  cumulative: number;
+}
+
+export interface CorpusSummary {
+  conversationCount: number;
+  messageCount: number;
+  characters: number;
+  tokens: number;
+  // Senders with at least one message, largest first
+  senders: SenderTotals[];
+  // Largest first by message count
+  conversations: ConversationSize[];
+  attachments: AttachmentTotals[];
+  deleted: ActivityCell;
+  // Every month between the first and last creation date
+  growth: GrowthMonth[];
+}
+
+export type CorpusTable = 'senders' | 'conversations' | 'attachments' | 'growth';
+
+const SENDERS: SearchSender[] = ['human', 'assistant', 'tool', 'system'];
+
+// Kana, CJK ideographs, Hangul and full-width forms, which tokenizers split about one per character
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+/**
+ * Size and composition of everything in the loaded file: who wrote how much, which
+ * conversations are largest, what was attached, and how the archive grew. Like
+ * `Timeline`, every cell keeps its conversation IDs so the dashboard can drill down.
+ */
+export class CorpusStats {
+  static build(conversations: (ClaudeConversation | ChatGPTConversation)[]): CorpusSummary {
+    const senders = new Map(SENDERS.map(sender => [sender, { sender, characters: 0, tokens: 0, ...emptyCell() }]));
+    const attachments = new Map<string, AttachmentTotals>();
+    const months = new Map<string, ActivityCell & { deleted: number }>();
+    const summary: CorpusSummary = {
+      conversationCount: conversations.length,
+      messageCount: 0,
+      characters: 0,
+      tokens: 0,
+      senders: [],
+      conversations: [],
+      attachments: [],
+      deleted: emptyCell(),
+      growth: []
+    };
+
+    for (const conversation of conversations) {
+      const normalized = SearchQuery.fromConversation(conversation);
+      const size: ConversationSize = {
+        id: normalized.id,
+        title: normalized.title,
+        deleted: this.isDeleted(conversation),
+        messages: normalized.messages.length,
+        characters: 0,
+        tokens: 0,
+        createdAt: normalized.createdAt
+      };
+
+      for (const message of normalized.messages) {
+        const tokens = this.estimateTokens(message.text);
+        const totals = senders.get(message.sender)!;
+        addToCell(totals, size.id);
+        totals.characters += message.text.length;
+        totals.tokens += tokens;
+        size.characters += message.text.length;
+        size.tokens += tokens;
+      }
+
+      for (const attachment of this.attachmentsOf(conversation)) {
+        let totals = attachments.get(attachment.type);
+        if (!totals) {
+          totals = { type: attachment.type, bytes: 0, ...emptyCell() };
+          attachments.set(attachment.type, totals);
+        }
+        addToCell(totals, size.id);
+        totals.bytes += attachment.bytes;
+      }
+
+      if (size.deleted) addToCell(summary.deleted, size.id);
+
+      if (size.createdAt !== undefined) {
+        const month = Timeline.monthKey(size.createdAt);
+        let cell = months.get(month);
+        if (!cell) {
+          cell = { deleted: 0, ...emptyCell() };
+          months.set(month, cell);
+        }
+        addToCell(cell, size.id);
+        if (size.deleted) cell.deleted++;
+      }
+
+      summary.messageCount += size.messages;
+      summary.characters += size.characters;
+      summary.tokens += size.tokens;
+      summary.conversations.push(size);
+    }
+
+    summary.senders = [...senders.values()].filter(totals => totals.count > 0).sort((a, b) => b.count - a.count);
+    summary.conversations.sort((a, b) => b.messages - a.messages || b.tokens - a.tokens);
+    summary.attachments = [...attachments.values()].sort((a, b) => b.count - a.count || b.bytes - a.bytes);
+    summary.growth = this.growth(months);
+    return summary;
+  }
+
+  /**
+   * Rough token count without a model-specific tokenizer: about one token per CJK
+   * character and one per four characters of everything else.
+   */
+  static estimateTokens(text: string): number {
+    const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+  }
+
+  // Claude exports keep deleted conversations with an empty name; ChatGPT ones can have an empty title
+  static isDeleted(conversation: ClaudeConversation | ChatGPTConversation): boolean {
+    return ('uuid' in conversation ? conversation.name : conversation.title).trim() === '';
+  }
+
+  /**
+   * Drill-down keys, like `Timeline.slice`: `sender:tool`, `attachment:pdf`,
+   * `deleted:yes` (or `no`) and `growth:2024-03`.
+   */
+  static slice(summary: CorpusSummary, key: string): { label: string; cell: ActivityCell } | null {
+    const separator = key.indexOf(':');
+    const kind = key.slice(0, separator);
+    const value = key.slice(separator + 1);
+
+    if (kind === 'sender') {
+      const totals = summary.senders.find(entry => entry.sender === value);
+      if (totals) return { label: `With ${value} messages`, cell: totals };
+    }
+    if (kind === 'attachment') {
+      const totals = summary.attachments.find(entry => entry.type === value);
+      if (totals) return { label: `With ${value} attachments`, cell: totals };
+    }
+    if (kind === 'deleted' && (value === 'yes' || value === 'no')) {
+      if (value === 'yes') return { label: 'Deleted conversations', cell: summary.deleted };
+      const kept = summary.conversations.filter(conversation => !conversation.deleted).map(conversation => conversation.id);
+      return { label: 'Conversations not deleted', cell: { count: kept.length, conversationIds: new Set(kept) } };
+    }
+    if (kind === 'growth') {
+      const month = summary.growth.find(entry => entry.month === value);
+      if (month && month.count > 0) return { label: `Created in ${value}`, cell: month };
+    }
+    return null;
+  }
+
+  static toCsv(summary: CorpusSummary, table: CorpusTable): string {
+    switch (table) {
+      case 'senders':
+        return toCsv(
+          ['sender', 'messages', 'conversations', 'characters', 'estimated_tokens'],
+          summary.senders.map(totals => [totals.sender, totals.count, totals.conversationIds.size, totals.characters, totals.tokens])
+        );
+      case 'conversations':
+        return toCsv(
+          ['id', 'title', 'deleted', 'created', 'messages', 'characters', 'estimated_tokens'],
+          summary.conversations.map(size => [
+            size.id,
+            size.title,
+            size.deleted,
+            size.createdAt !== undefined ? new Date(size.createdAt).toISOString() : '',
+            size.messages,
+            size.characters,
+            size.tokens
+          ])
+        );
+      case 'attachments':
+        return toCsv(
+          ['type', 'files', 'conversations', 'bytes'],
+          summary.attachments.map(totals => [totals.type, totals.count, totals.conversationIds.size, totals.bytes])
+        );
+      case 'growth':
+        return toCsv(
+          ['month', 'created', 'deleted', 'cumulative'],
+          summary.growth.map(month => [month.month, month.count, month.deleted, month.cumulative])
+        );
+    }
+  }
+
+  private static attachmentsOf(conversation: ClaudeConversation | ChatGPTConversation): { type: string; bytes: number }[] {
+    if ('chat_messages' in conversation) {
+      return conversation.chat_messages
+        .flatMap(message => [...(message.attachments ?? []), ...(message.files ?? [])])
+        .map(file => ({ type: this.fileType(file.file_type, file.file_name), bytes: file.file_size || 0 }));
+    }
+
+    // Uploaded images are asset pointers inside the message parts
+    return DataParser.extractChatGPTThread(conversation).flatMap(({ message }) => (
+      message.content?.content_type === 'multimodal_text'
+        ? message.content.parts
+          .filter(part => typeof part === 'object' && part.content_type === 'image_asset_pointer')
+          .map(part => ({ type: 'image', bytes: Number((part as { size_bytes?: number }).size_bytes) || 0 }))
+        : []
+    ));
+  }
+
+  private static fileType(fileType: string | undefined, fileName: string | undefined): string {
+    if (fileType?.trim()) return fileType.trim().toLowerCase();
+    const extension = fileName?.match(/\.([^./]+)$/)?.[1];
+    return extension ? extension.toLowerCase() : 'unknown';
+  }
+
+  private static growth(months: Map<string, ActivityCell & { deleted: number }>): GrowthMonth[] {
+    const keys = [...months.keys()].sort();
+    if (keys.length === 0) return [];
+
+    const [firstYear, firstMonth] = keys[0].split('-').map(Number);
+    const [lastYear, lastMonth] = keys[keys.length - 1].split('-').map(Number);
+    const count = (lastYear - firstYear) * 12 + (lastMonth - firstMonth) + 1;
+
+    let cumulative = 0;
+    return Array.from({ length: count }, (_, index) => {
+      const month = Timeline.monthKey(new Date(firstYear, firstMonth - 1 + index, 1).getTime());
+      const cell = months.get(month) ?? { deleted: 0, ...emptyCell() };
+      cumulative += cell.count;
+      return { month, ...cell, cumulative };
+    });
+  }
+}
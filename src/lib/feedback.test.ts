@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { Feedback } from './feedback';
+import type { ChatFeedback, ClaudeChatMessage, ClaudeConversation } from '@/types/data';
+
+const message = (uuid: string, sender: ClaudeChatMessage['sender'], text: string, feedback?: Partial<ChatFeedback>): ClaudeChatMessage => ({
+  uuid,
+  text,
+  sender,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  chat_feedback: feedback ? { uuid: `f-${uuid}`, type: 'bad', created_at: '2024-01-02T00:00:00.000Z', ...feedback } : undefined
+});
+
+const conversations: ClaudeConversation[] = [
+  {
+    uuid: 'c1',
+    name: 'Unit conversion',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    chat_messages: [
+      message('m1', 'human', 'Convert 5 km to miles'),
+      message('m2', 'assistant', 'About 3.1 miles', { type: 'good' }),
+      {
+        ...message('m3', 'human', ''),
+        content: [{ type: 'tool_result', content: '42', start_timestamp: '', stop_timestamp: '' }]
+      },
+      message('m4', 'assistant', 'Roughly 5000 miles', { reason: '  Wrong answer ', created_at: 'not a date' })
+    ]
+  },
+  {
+    uuid: 'c2',
+    name: 'Poem',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    chat_messages: [message('m5', 'assistant', 'Roses are red', { reason: 'Wrong answer' })]
+  }
+];
+
+describe('Feedback.collect', () => {
+  const entries = Feedback.collect(conversations);
+
+  it('pairs each rating with the last prompt the user typed', () => {
+    expect(entries.map(entry => [entry.messageId, entry.rating, entry.prompt?.messageId])).toEqual([
+      ['m2', 'good', 'm1'],
+      ['m4', 'bad', 'm1'],
+      ['m5', 'bad', undefined]
+    ]);
+    expect(entries[0]).toEqual({
+      conversationId: 'c1',
+      conversationTitle: 'Unit conversion',
+      messageId: 'm2',
+      rating: 'good',
+      reason: '',
+      ratedAt: Date.parse('2024-01-02T00:00:00.000Z'),
+      prompt: { messageId: 'm1', text: 'Convert 5 km to miles' },
+      response: 'About 3.1 miles'
+    });
+  });
+
+  it('trims reasons and drops unreadable rating times', () => {
+    expect(entries[1].reason).toBe('Wrong answer');
+    expect(entries[1].ratedAt).toBeUndefined();
+  });
+});
+
+describe('Feedback.group', () => {
+  it('puts negative ratings first, then the most frequent reasons', () => {
+    const groups = Feedback.group(Feedback.collect(conversations));
+    expect(groups.map(group => [group.rating, group.reason, group.entries.length])).toEqual([
+      ['bad', 'Wrong answer', 2],
+      ['good', '', 1]
+    ]);
+  });
+});
+
+describe('Feedback.filter', () => {
+  const entries = Feedback.collect(conversations);
+
+  it('filters by rating, exact reason and text', () => {
+    expect(Feedback.filter(entries, { rating: 'good' }).map(entry => entry.messageId)).toEqual(['m2']);
+    expect(Feedback.filter(entries, { reason: '' }).map(entry => entry.messageId)).toEqual(['m2']);
+    expect(Feedback.filter(entries, { text: ' KM ' }).map(entry => entry.messageId)).toEqual(['m2', 'm4']);
+    expect(Feedback.filter(entries, { rating: 'bad', text: 'poem' }).map(entry => entry.messageId)).toEqual(['m5']);
+  });
+});
+
+describe('Feedback.toJsonl', () => {
+  it('writes one snake_case record per line with nulls for missing values', () => {
+    const lines = Feedback.toJsonl(Feedback.collect(conversations)).split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[3]).toBe('');
+    expect(JSON.parse(lines[2])).toEqual({
+      conversation_id: 'c2',
+      conversation_title: 'Poem',
+      message_id: 'm5',
+      rating: 'bad',
+      reason: 'Wrong answer',
+      rated_at: '2024-01-02T00:00:00.000Z',
+      prompt_message_id: null,
+      prompt: null,
+      response: 'Roses are red'
+    });
+  });
+
+  it('writes nothing for no entries', () => {
+    expect(Feedback.toJsonl([])).toBe('');
+  });
+});
@@ -0,0 +1,114 @@
+import { DataParser } from './parser';
+import type { ClaudeConversation, ChatGPTConversation } from '@/types/data';
+
+export type FeedbackRating = 'good' | 'bad';
+
+export interface FeedbackEntry {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  rating: FeedbackRating;
+  // Trimmed; empty when the rating was given without one
+  reason: string;
+  ratedAt?: number;
+  // The user message the rated reply answers, if there is one before it
+  prompt?: { messageId: string; text: string };
+  response: string;
+}
+
+export interface FeedbackGroup {
+  rating: FeedbackRating;
+  reason: string;
+  entries: FeedbackEntry[];
+}
+
+export interface FeedbackFilter {
+  rating?: FeedbackRating;
+  // Exact reason; '' selects ratings without one
+  reason?: string;
+  // Case-insensitive substring of the prompt, reply, reason or conversation title
+  text?: string;
+}
+
+/**
+ * Every thumbs-up and thumbs-down in a Claude export, each paired with the prompt it
+ * answered. ChatGPT exports don't include feedback, so their conversations yield
+ * nothing.
+ */
+export class Feedback {
+  static collect(conversations: (ClaudeConversation | ChatGPTConversation)[]): FeedbackEntry[] {
+    const entries: FeedbackEntry[] = [];
+
+    for (const conversation of conversations) {
+      if (!('chat_messages' in conversation)) continue;
+
+      let prompt: FeedbackEntry['prompt'];
+      for (const message of conversation.chat_messages) {
+        // Tool results are sent as human messages, but the prompt is what the user typed
+        if (message.sender === 'human' && !DataParser.isClaudeToolResultMessage(message)) {
+          prompt = { messageId: message.uuid, text: DataParser.getClaudeMessageText(message) };
+        }
+        if (!message.chat_feedback) continue;
+
+        const ratedAt = Date.parse(message.chat_feedback.created_at);
+        entries.push({
+          conversationId: conversation.uuid,
+          conversationTitle: conversation.name,
+          messageId: message.uuid,
+          rating: message.chat_feedback.type,
+          reason: message.chat_feedback.reason?.trim() ?? '',
+          ratedAt: isNaN(ratedAt) ? undefined : ratedAt,
+          prompt: prompt?.messageId !== message.uuid ? prompt : undefined,
+          response: DataParser.getClaudeMessageText(message)
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  /** Negative ratings first, then reasons from most to least frequent. */
+  static group(entries: FeedbackEntry[]): FeedbackGroup[] {
+    const groups = new Map<string, FeedbackGroup>();
+    for (const entry of entries) {
+      const key = `${entry.rating}:${entry.reason}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { rating: entry.rating, reason: entry.reason, entries: [] };
+        groups.set(key, group);
+      }
+      group.entries.push(entry);
+    }
+
+    return [...groups.values()].sort((a, b) => (
+      (a.rating === b.rating ? 0 : a.rating === 'bad' ? -1 : 1) ||
+      b.entries.length - a.entries.length ||
+      a.reason.localeCompare(b.reason)
+    ));
+  }
+
+  static filter(entries: FeedbackEntry[], filter: FeedbackFilter): FeedbackEntry[] {
+    const text = filter.text?.trim().toLowerCase();
+    return entries.filter(entry => (
+      (!filter.rating || entry.rating === filter.rating) &&
+      (filter.reason === undefined || entry.reason === filter.reason) &&
+      (!text || [entry.prompt?.text ?? '', entry.response, entry.reason, entry.conversationTitle]
+        .some(value => value.toLowerCase().includes(text)))
+    ));
+  }
+
+  /** One JSON object per line, ready to load as a review or evaluation dataset. */
+  static toJsonl(entries: FeedbackEntry[]): string {
+    return entries.map(entry => JSON.stringify({
+      conversation_id: entry.conversationId,
+      conversation_title: entry.conversationTitle,
+      message_id: entry.messageId,
+      rating: entry.rating,
+      reason: entry.reason || null,
+      rated_at: entry.ratedAt !== undefined ? new Date(entry.ratedAt).toISOString() : null,
+      prompt_message_id: entry.prompt?.messageId ?? null,
+      prompt: entry.prompt?.text ?? null,
+      response: entry.response
+    })).join('\n') + (entries.length > 0 ? '\n' : '');
+  }
+}
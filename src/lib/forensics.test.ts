@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { Forensics } from './forensics';
+import type { ChatGPTConversation, ChatGPTMessage, ClaudeChatMessage, ClaudeConversation } from '@/types/data';
+
+const claudeMessage = (uuid: string, text: string, sender: ClaudeChatMessage['sender'], updated_at = '2024-01-01T00:00:00Z'): ClaudeChatMessage => ({
+  uuid,
+  text,
+  sender,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at
+});
+
+const claudeConversation = (overrides: Partial<ClaudeConversation>): ClaudeConversation => ({
+  uuid: 'c1',
+  name: 'Plans',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  chat_messages: [],
+  ...overrides
+});
+
+const chatGPTMessage = (id: string, role: ChatGPTMessage['author']['role'], text: string, update_time?: number): ChatGPTMessage => ({
+  id,
+  author: { role },
+  create_time: 1700000000,
+  update_time,
+  content: { content_type: 'text', parts: [text] },
+  status: 'finished_successfully',
+  weight: 1,
+  recipient: 'all'
+});
+
+describe('Forensics.scan on Claude exports', () => {
+  it('flags an empty title and guesses one from the first user message', () => {
+    const findings = Forensics.scan([claudeConversation({
+      name: ' ',
+      chat_messages: [claudeMessage('m1', 'How do I rotate keys?\nThey expire soon.', 'human'), claudeMessage('m2', 'Like this.', 'assistant')]
+    })]);
+    expect(findings.map(finding => finding.kind)).toEqual(['empty-title']);
+    expect(findings[0].recovered).toMatchObject({
+      title: 'How do I rotate keys?',
+      messages: [{ sender: 'human', text: 'How do I rotate keys?\nThey expire soon.' }, { sender: 'assistant', text: 'Like this.' }],
+      survivingMessages: 2
+    });
+  });
+
+  it('flags conversations without messages', () => {
+    expect(Forensics.scan([claudeConversation({})]).map(finding => finding.kind)).toEqual(['no-messages']);
+  });
+
+  it('flags messages updated after they were created, ignoring write latency', () => {
+    const findings = Forensics.scan([claudeConversation({
+      chat_messages: [
+        claudeMessage('m1', 'Original', 'human', '2024-01-01T00:05:00Z'),
+        claudeMessage('m2', 'Reply', 'assistant', '2024-01-01T00:00:00.500Z')
+      ]
+    })]);
+    expect(findings.map(finding => [finding.kind, finding.messageId])).toEqual([['edited', 'm1']]);
+  });
+
+  it('finds nothing in an intact conversation', () => {
+    expect(Forensics.scan([claudeConversation({ chat_messages: [claudeMessage('m1', 'Hi', 'human')] })])).toEqual([]);
+  });
+});
+
+describe('Forensics.scan on ChatGPT exports', () => {
+  const conversation: ChatGPTConversation = {
+    id: 'g1',
+    title: 'Trip',
+    create_time: 1700000000,
+    update_time: 1700000100,
+    current_node: 'a1',
+    mapping: {
+      root: { id: 'root', message: null, parent: null, children: ['u1'] },
+      u1: { id: 'u1', message: chatGPTMessage('u1', 'user', 'Plan a trip', 1700000060), parent: 'root', children: ['gone', 'x1', 'a1'] },
+      x1: { id: 'x1', message: null, parent: 'u1', children: ['a0'] },
+      a0: { id: 'a0', message: chatGPTMessage('a0', 'assistant', 'Old answer'), parent: 'x1', children: [] },
+      a1: { id: 'a1', message: chatGPTMessage('a1', 'assistant', 'Go to Kyoto'), parent: 'u1', children: [] },
+      o1: { id: 'o1', message: chatGPTMessage('o1', 'user', 'Orphaned question'), parent: 'lost', children: ['o2'] },
+      o2: { id: 'o2', message: chatGPTMessage('o2', 'assistant', 'Orphaned answer'), parent: 'o1', children: [] }
+    }
+  };
+  const findings = Forensics.scan([conversation]);
+  const byKind = (kind: string) => findings.filter(finding => finding.kind === kind);
+
+  it('flags removed messages with what survives below them', () => {
+    const [removed] = byKind('null-message');
+    expect(removed.nodeId).toBe('x1');
+    expect(removed.recovered.messages.map(message => message.text)).toEqual(['Old answer']);
+    expect(removed.recovered.survivingMessages).toBe(1);
+  });
+
+  it('flags branches whose parent is missing, counting the node itself', () => {
+    const [dangling] = byKind('dangling-parent');
+    expect(dangling.nodeId).toBe('o1');
+    expect(dangling.recovered.messages.map(message => message.text)).toEqual(['Orphaned question', 'Orphaned answer']);
+    expect(dangling.recovered.survivingMessages).toBe(2);
+  });
+
+  it('flags children missing from the mapping', () => {
+    expect(byKind('missing-child').map(finding => finding.nodeId)).toEqual(['u1']);
+  });
+
+  it('flags edited messages and links them when they are on the shown branch', () => {
+    expect(byKind('edited').map(finding => [finding.nodeId, finding.messageId])).toEqual([['u1', 'u1']]);
+  });
+
+  it('does not flag the root placeholder', () => {
+    expect(findings.some(finding => finding.nodeId === 'root')).toBe(false);
+  });
+});
@@ -0,0 +1,244 @@
+import { DataParser } from './parser';
+import { SearchQuery } from './search-query';
+import { formatDuration } from './utils';
+import type { SearchSender } from './search-index';
+import type { ClaudeConversation, ClaudeChatMessage, ChatGPTConversation, ChatGPTMessage } from '@/types/data';
+
+export type FindingKind = 'empty-title' | 'no-messages' | 'null-message' | 'dangling-parent' | 'missing-child' | 'edited';
+
+export interface RecoveredContent {
+  // Best guess at the title of an untitled conversation, taken from its first user message
+  title?: string;
+  // The first surviving messages, in order
+  messages: RecoveredMessage[];
+  timestamps: { label: string; time: number }[];
+  // Messages still present in the conversation or below the affected node
+  survivingMessages?: number;
+}
+
+export interface RecoveredMessage {
+  sender: SearchSender;
+  text: string;
+}
+
+export interface ForensicFinding {
+  kind: FindingKind;
+  conversationId: string;
+  conversationTitle: string;
+  // The message concerned, when it can still be opened in the viewer
+  messageId?: string;
+  // ChatGPT mapping node concerned
+  nodeId?: string;
+  reason: string;
+  recovered: RecoveredContent;
+}
+
+export const FINDING_LABELS: Record<FindingKind, string> = {
+  'empty-title': 'Empty title',
+  'no-messages': 'No messages',
+  'null-message': 'Removed message',
+  'dangling-parent': 'Dangling parent',
+  'missing-child': 'Missing child',
+  'edited': 'Edited message'
+};
+
+// Exports stamp created/updated separately; differences below this are write latency, not edits
+const EDIT_TOLERANCE = 1000;
+const TITLE_GUESS_LENGTH = 80;
+const RECOVERED_MESSAGE_LIMIT = 5;
+
+/**
+ * Looks for traces of deletion in an export: conversations whose title or messages
+ * were removed, ChatGPT mapping nodes that lost their message or their place in the
+ * tree, and messages changed after they were written. Each finding says why it was
+ * flagged and carries whatever content is still in the file.
+ */
+export class Forensics {
+  static scan(conversations: (ClaudeConversation | ChatGPTConversation)[]): ForensicFinding[] {
+    return conversations.flatMap(conversation => (
+      'chat_messages' in conversation ? this.scanClaude(conversation) : this.scanChatGPT(conversation)
+    ));
+  }
+
+  private static scanClaude(conversation: ClaudeConversation): ForensicFinding[] {
+    const findings: ForensicFinding[] = [];
+    const base = { conversationId: conversation.uuid, conversationTitle: conversation.name };
+    const timestamps = this.timestamps(['Created', Date.parse(conversation.created_at)], ['Updated', Date.parse(conversation.updated_at)]);
+    const messages = conversation.chat_messages ?? [];
+
+    if (conversation.name.trim() === '') {
+      const firstHuman = messages.find(message => message.sender === 'human' && !DataParser.isClaudeToolResultMessage(message));
+      findings.push({
+        ...base,
+        kind: 'empty-title',
+        reason: `The conversation name is empty. Claude exports keep deleted conversations with a blank name; ${messages.length} message${messages.length !== 1 ? 's' : ''} survive${messages.length === 1 ? 's' : ''}.`,
+        recovered: {
+          title: firstHuman ? this.guessTitle(SearchQuery.fromMessage(firstHuman).text) : undefined,
+          messages: this.recover(messages),
+          timestamps,
+          survivingMessages: messages.length
+        }
+      });
+    }
+
+    if (messages.length === 0) {
+      findings.push({
+        ...base,
+        kind: 'no-messages',
+        reason: 'The conversation has no chat_messages. Its messages were deleted, or it was opened and never used.',
+        recovered: { messages: [], timestamps, survivingMessages: 0 }
+      });
+    }
+
+    for (const message of messages) {
+      const created = Date.parse(message.created_at);
+      const updated = Date.parse(message.updated_at);
+      if (!(Math.abs(updated - created) >= EDIT_TOLERANCE)) continue;
+
+      findings.push({
+        ...base,
+        kind: 'edited',
+        messageId: message.uuid,
+        reason: `updated_at is ${formatDuration(Math.abs(updated - created))} ${updated > created ? 'after' : 'before'} created_at, so the message was changed after it was written. Only the latest version is in the export.`,
+        recovered: {
+          messages: this.recover([message]),
+          timestamps: this.timestamps(['Created', created], ['Updated', updated])
+        }
+      });
+    }
+
+    return findings;
+  }
+
+  private static scanChatGPT(conversation: ChatGPTConversation): ForensicFinding[] {
+    const findings: ForensicFinding[] = [];
+    const base = { conversationId: conversation.id, conversationTitle: conversation.title };
+    const mapping = conversation.mapping ?? {};
+    const thread = DataParser.extractChatGPTThread(conversation).map(entry => entry.message);
+    const timestamps = this.timestamps(['Created', conversation.create_time * 1000], ['Updated', conversation.update_time * 1000]);
+
+    if ((conversation.title ?? '').trim() === '') {
+      const firstUser = thread.find(message => message.author.role === 'user');
+      findings.push({
+        ...base,
+        kind: 'empty-title',
+        reason: `The conversation title is empty; ${thread.length} message${thread.length !== 1 ? 's' : ''} on the current branch survive${thread.length === 1 ? 's' : ''}.`,
+        recovered: {
+          title: firstUser ? this.guessTitle(DataParser.getChatGPTMessageText(firstUser)) : undefined,
+          messages: this.recover(thread),
+          timestamps,
+          survivingMessages: thread.length
+        }
+      });
+    }
+
+    if (thread.length === 0) {
+      findings.push({
+        ...base,
+        kind: 'no-messages',
+        reason: `None of the ${Object.keys(mapping).length} mapping nodes holds a visible message.`,
+        recovered: { messages: [], timestamps, survivingMessages: 0 }
+      });
+    }
+
+    for (const [nodeId, node] of Object.entries(mapping)) {
+      // The root of every tree is a placeholder without a message
+      if (node.message === null && node.parent !== null) {
+        const descendants = this.descendantMessages(conversation, nodeId);
+        findings.push({
+          ...base,
+          kind: 'null-message',
+          nodeId,
+          reason: `Node ${nodeId} sits inside the tree (parent ${node.parent}) but its message is null, so the message was removed. ${descendants.length} message${descendants.length !== 1 ? 's' : ''} below it survive${descendants.length === 1 ? 's' : ''}.`,
+          recovered: {
+            messages: this.recover(descendants),
+            timestamps: this.timestamps(['Created', (descendants[0]?.create_time ?? NaN) * 1000]),
+            survivingMessages: descendants.length
+          }
+        });
+      }
+
+      if (node.parent && !mapping[node.parent]) {
+        const descendants = this.descendantMessages(conversation, nodeId);
+        if (DataParser.isVisibleChatGPTMessage(node.message)) descendants.unshift(node.message!);
+        findings.push({
+          ...base,
+          kind: 'dangling-parent',
+          nodeId,
+          reason: `Parent node ${node.parent} is missing from the mapping, so this branch is cut off from the conversation tree and never shown. ${descendants.length} message${descendants.length !== 1 ? 's' : ''} survive${descendants.length === 1 ? 's' : ''} in it.`,
+          recovered: {
+            messages: this.recover(descendants),
+            timestamps: this.timestamps(['Created', (descendants[0]?.create_time ?? NaN) * 1000]),
+            survivingMessages: descendants.length
+          }
+        });
+      }
+
+      for (const childId of node.children ?? []) {
+        if (mapping[childId]) continue;
+        findings.push({
+          ...base,
+          kind: 'missing-child',
+          nodeId,
+          reason: `Node ${nodeId} lists child ${childId}, which is missing from the mapping. The content shown is the parent's, the last message before the gap.`,
+          recovered: {
+            messages: this.recover(node.message ? [node.message] : []),
+            timestamps: this.timestamps(['Created', (node.message?.create_time ?? NaN) * 1000])
+          }
+        });
+      }
+
+      const message = node.message;
+      if (message?.create_time && message.update_time && Math.abs(message.update_time - message.create_time) * 1000 >= EDIT_TOLERANCE) {
+        const difference = (message.update_time - message.create_time) * 1000;
+        findings.push({
+          ...base,
+          kind: 'edited',
+          // Only messages on the shown branch can be scrolled to
+          messageId: thread.includes(message) ? message.id : undefined,
+          nodeId,
+          reason: `update_time is ${formatDuration(Math.abs(difference))} ${difference > 0 ? 'after' : 'before'} create_time, so the message was changed after it was written. Only the latest version is in the export.`,
+          recovered: {
+            messages: this.recover([message]),
+            timestamps: this.timestamps(['Created', message.create_time * 1000], ['Updated', message.update_time * 1000])
+          }
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  // Messages below a node, depth first, skipping nodes without visible content
+  private static descendantMessages(conversation: ChatGPTConversation, nodeId: string): ChatGPTMessage[] {
+    const messages: ChatGPTMessage[] = [];
+    const visited = new Set<string>();
+    const stack = [...(conversation.mapping[nodeId]?.children ?? [])].reverse();
+
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      const node = conversation.mapping[id];
+      if (!node || visited.has(id)) continue;
+      visited.add(id);
+      if (DataParser.isVisibleChatGPTMessage(node.message)) messages.push(node.message!);
+      stack.push(...[...node.children].reverse());
+    }
+    return messages;
+  }
+
+  private static recover(messages: (ClaudeChatMessage | ChatGPTMessage)[]): RecoveredMessage[] {
+    return messages.slice(0, RECOVERED_MESSAGE_LIMIT).map(message => {
+      const { sender, text } = SearchQuery.fromMessage(message);
+      return { sender, text };
+    });
+  }
+
+  private static guessTitle(text: string): string {
+    const firstLine = text.trim().split('\n')[0];
+    return firstLine.length > TITLE_GUESS_LENGTH ? `${firstLine.slice(0, TITLE_GUESS_LENGTH)}…` : firstLine;
+  }
+
+  private static timestamps(...entries: [string, number][]): { label: string; time: number }[] {
+    return entries.filter(([, time]) => !isNaN(time)).map(([label, time]) => ({ label, time }));
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { JsonPath } from './json-path';
+
+describe('JsonPath.format', () => {
+  it('uses dot notation for identifiers and brackets for everything else', () => {
+    expect(JsonPath.format(['items', 0, 'name'])).toBe('$.items[0].name');
+    expect(JsonPath.format(['content-type', "it's"])).toBe("$['content-type']['it\\'s']");
+    expect(JsonPath.format([])).toBe('$');
+  });
+
+  it('appends a key to an existing path', () => {
+    expect(JsonPath.child('$.items[0]', 'tags')).toBe('$.items[0].tags');
+    expect(JsonPath.child('$.items', 2)).toBe('$.items[2]');
+  });
+});
+
+describe('JsonPath.search', () => {
+  const data = { users: [{ name: 'Alice', role: 'admin' }, { name: 'Bob', role: null }], roleCount: 2 };
+
+  it('matches keys and primitive values case-insensitively, with their ancestors', () => {
+    const result = JsonPath.search(data, 'ALICE');
+    expect([...result.matches]).toEqual(['$.users[0].name']);
+    expect([...result.ancestors]).toEqual(['$', '$.users', '$.users[0]']);
+
+    expect([...JsonPath.search(data, 'role').matches]).toEqual(['$.users[0].role', '$.users[1].role', '$.roleCount']);
+    expect([...JsonPath.search(data, 'null').matches]).toEqual(['$.users[1].role']);
+  });
+
+  it('returns nothing for a blank query', () => {
+    expect(JsonPath.search(data, '  ').matches.size).toBe(0);
+  });
+
+  it('stops at the limit and says so', () => {
+    const result = JsonPath.search(data, 'o', 2);
+    expect(result.matches.size).toBe(2);
+    expect(result.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+export type JsonPathSegment = string | number;
+
+export interface JsonSearchResult {
+  matches: Set<string>;
+  // Paths of every container that holds a match, so the tree can open them
+  ancestors: Set<string>;
+  truncated: boolean;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export class JsonPath {
+  static format(segments: JsonPathSegment[]): string {
+    return segments.reduce<string>((path, segment) => {
+      if (typeof segment === 'number') return `${path}[${segment}]`;
+      if (IDENTIFIER.test(segment)) return `${path}.${segment}`;
+      return `${path}['${segment.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+    }, '$');
+  }
+
+  static child(path: string, key: JsonPathSegment): string {
+    return this.format([key]).replace(/^\$/, path);
+  }
+
+  /**
+   * Case-insensitive match against object keys and primitive values.
+   * Stops collecting after `limit` matches so huge files stay responsive.
+   */
+  static search(data: unknown, query: string, limit = 1000): JsonSearchResult {
+    const needle = query.trim().toLowerCase();
+    const result: JsonSearchResult = { matches: new Set(), ancestors: new Set(), truncated: false };
+    if (!needle) return result;
+
+    const visit = (value: unknown, path: string, key: JsonPathSegment | null, parents: string[]): void => {
+      if (result.matches.size >= limit) {
+        result.truncated = true;
+        return;
+      }
+
+      const keyMatches = typeof key === 'string' && key.toLowerCase().includes(needle);
+      const valueMatches = (value === null || typeof value !== 'object') && String(value).toLowerCase().includes(needle);
+      if (keyMatches || valueMatches) {
+        result.matches.add(path);
+        parents.forEach(parent => result.ancestors.add(parent));
+      }
+
+      if (value && typeof value === 'object') {
+        const nextParents = [...parents, path];
+        if (Array.isArray(value)) {
+          value.forEach((item, index) => visit(item, this.child(path, index), index, nextParents));
+        } else {
+          Object.entries(value).forEach(([childKey, item]) => visit(item, this.child(path, childKey), childKey, nextParents));
+        }
+      }
+    };
+
+    visit(data, '$', null, []);
+    return result;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { Pacing } from './pacing';
+import type { TimedMessage } from './timeline';
+
+const MINUTE = 60 * 1000;
+
+const messages: TimedMessage[] = [
+  { id: 'h1', role: 'human', time: 0 },
+  { id: 'a1', role: 'assistant', time: 1 * MINUTE },
+  { id: 'h2', role: 'human', time: 3 * MINUTE },
+  { id: 'h3', role: 'human', time: 4 * MINUTE },
+  { id: 'a2', role: 'assistant', time: 5 * MINUTE },
+  { id: 'h4', role: 'human', time: 65 * MINUTE },
+  { id: 'a3', role: 'assistant', time: 66 * MINUTE }
+];
+
+describe('Pacing.analyze', () => {
+  it('splits sessions at idle gaps', () => {
+    const report = Pacing.analyze(messages, 30 * MINUTE);
+    expect(report.idleGaps).toEqual([{ messageId: 'h4', previousMessageId: 'a2', start: 5 * MINUTE, duration: 60 * MINUTE }]);
+    expect(report.sessions).toEqual([
+      { start: 0, end: 5 * MINUTE, messageCount: 5 },
+      { start: 65 * MINUTE, end: 66 * MINUTE, messageCount: 2 }
+    ]);
+    expect(report.start).toBe(0);
+    expect(report.end).toBe(66 * MINUTE);
+  });
+
+  it('uses the threshold it is given', () => {
+    expect(Pacing.analyze(messages, 2 * MINUTE).idleGaps.map(gap => gap.messageId)).toEqual(['h2', 'h4']);
+  });
+
+  it('handles conversations without messages', () => {
+    const report = Pacing.analyze([]);
+    expect(report.sessions).toEqual([]);
+    expect(report.start).toBeUndefined();
+  });
+});
+
+describe('Pacing.thinkTimes', () => {
+  it('measures from the last reply to the first following user message', () => {
+    expect(Pacing.thinkTimes(messages)).toEqual([2 * MINUTE, 60 * MINUTE]);
+  });
+
+  it('counts tool output as the end of a turn', () => {
+    expect(Pacing.thinkTimes([
+      { id: 'a', role: 'assistant', time: 0 },
+      { id: 't', role: 'tool', time: 10 },
+      { id: 'h', role: 'human', time: 25 }
+    ])).toEqual([15]);
+  });
+});
+
+describe('Pacing.summarize', () => {
+  it('returns null without durations', () => {
+    expect(Pacing.summarize([])).toBeNull();
+  });
+
+  it('reports median, mean, p90 and max', () => {
+    expect(Pacing.summarize([5, 1, 3, 2, 4, 6, 7, 8, 9, 10])).toEqual({ count: 10, median: 6, mean: 5.5, p90: 10, max: 10 });
+  });
+});
@@ -0,0 +1,111 @@
+import { Timeline, type TimedMessage } from './timeline';
+
+// Default inactivity that counts as an idle gap and splits sessions
+export const IDLE_THRESHOLD = 30 * 60 * 1000;
+
+export interface IdleGap {
+  // The message sent after the gap; separators are drawn above it
+  messageId: string;
+  previousMessageId: string;
+  start: number;
+  duration: number;
+}
+
+export interface PacingSession {
+  start: number;
+  end: number;
+  messageCount: number;
+}
+
+export interface DurationSummary {
+  count: number;
+  median: number;
+  mean: number;
+  p90: number;
+  max: number;
+}
+
+export interface PacingReport {
+  messageCount: number;
+  // Human message → assistant reply
+  responseTimes: number[];
+  // Assistant (or tool) message → the user's next message
+  thinkTimes: number[];
+  idleGaps: IdleGap[];
+  // Runs of messages with no gap at or above the idle threshold
+  sessions: PacingSession[];
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Per-conversation pacing: how long replies took, how long the user paused before
+ * answering, and where the conversation went quiet. Works on the timestamped messages
+ * `Timeline` extracts, so Claude, ChatGPT, Claude Code and API logs are handled alike.
+ */
+export class Pacing {
+  static analyze(messages: TimedMessage[], idleThreshold: number = IDLE_THRESHOLD): PacingReport {
+    const report: PacingReport = {
+      messageCount: messages.length,
+      responseTimes: Timeline.responseLatencies(messages),
+      thinkTimes: this.thinkTimes(messages),
+      idleGaps: [],
+      sessions: [],
+      start: messages[0]?.time,
+      end: messages[messages.length - 1]?.time
+    };
+
+    let session: PacingSession | null = null;
+    messages.forEach((message, index) => {
+      const previous = messages[index - 1];
+      if (previous && message.time - previous.time >= idleThreshold) {
+        report.idleGaps.push({
+          messageId: message.id,
+          previousMessageId: previous.id,
+          start: previous.time,
+          duration: message.time - previous.time
+        });
+        session = null;
+      }
+      if (!session) {
+        session = { start: message.time, end: message.time, messageCount: 0 };
+        report.sessions.push(session);
+      }
+      session.end = message.time;
+      session.messageCount++;
+    });
+
+    return report;
+  }
+
+  /**
+   * Time from the last assistant or tool message of a turn to the user's next message.
+   * Consecutive user messages count once, from the first of them.
+   */
+  static thinkTimes(messages: TimedMessage[]): number[] {
+    const thinkTimes: number[] = [];
+    let answeredAt: number | null = null;
+
+    for (const message of messages) {
+      if (message.role === 'assistant' || message.role === 'tool') {
+        answeredAt = message.time;
+      } else if (message.role === 'human' && answeredAt !== null) {
+        if (message.time >= answeredAt) thinkTimes.push(message.time - answeredAt);
+        answeredAt = null;
+      }
+    }
+    return thinkTimes;
+  }
+
+  static summarize(durations: number[]): DurationSummary | null {
+    if (durations.length === 0) return null;
+    const sorted = [...durations].sort((a, b) => a - b);
+    return {
+      count: sorted.length,
+      median: sorted[Math.floor(sorted.length / 2)],
+      mean: sorted.reduce((sum, duration) => sum + duration, 0) / sorted.length,
+      p90: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.9))],
+      max: sorted[sorted.length - 1]
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { DataParser } from './parser';
+import { ArchiveReader } from './archive';
+import type {
+  DataType,
+  ParsedData,
+  ParseProgress,
+  ParseWorkerRequest,
+  ParseWorkerResponse,
+  UploadFormat
+} from '@/types/data';
+
+// Only conversation lists are worth showing before the whole file is read
+const PARTIAL_DATA_TYPES: DataType[] = ['claude-conversation', 'chatgpt-conversation'];
+
+export interface ParseResult {
+  data: ParsedData;
+  format: UploadFormat;
+}
+
+export interface ParseTask {
+  promise: Promise<ParseResult>;
+  // Rejects the promise with an AbortError and stops the worker mid-parse
+  cancel: () => void;
+}
+
+export class ParseClient {
+  static parse(
+    file: File,
+    onProgress: (progress: ParseProgress) => void,
+    onPartialData?: (data: ParsedData) => void
+  ): ParseTask {
+    if (typeof Worker === 'undefined') {
+      return { promise: this.parseOnMainThread(file), cancel: () => {} };
+    }
+
+    const worker = new Worker(new URL('./parse.worker.ts', import.meta.url));
+    let rejectTask: (reason: unknown) => void = () => {};
+    // Replaced rather than appended to, so memoized views see a new array without a
+    // second copy being kept next to it
+    let streamedItems: unknown[] = [];
+    const startTime = new Date();
+
+    const promise = new Promise<ParseResult>((resolve, reject) => {
+      rejectTask = reject;
+
+      worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress(message.progress);
+          return;
+        }
+
+        if (message.type === 'items') {
+          streamedItems = streamedItems.concat(message.items);
+          onProgress(message.progress);
+          if (onPartialData && PARTIAL_DATA_TYPES.includes(message.dataType)) {
+            onPartialData({
+              raw: streamedItems,
+              type: message.dataType,
+              metadata: {
+                filename: file.name,
+                fileSize: file.size,
+                parseTime: startTime,
+                estimatedType: message.dataType,
+                recordCount: streamedItems.length,
+                streaming: message.progress
+              }
+            });
+          }
+          return;
+        }
+
+        worker.terminate();
+        if (message.type === 'done') {
+          resolve({ data: message.data, format: message.format });
+        } else if (message.type === 'stream-end') {
+          resolve({
+            data: {
+              raw: streamedItems,
+              type: message.dataType,
+              metadata: {
+                filename: file.name,
+                fileSize: file.size,
+                parseTime: startTime,
+                estimatedType: message.dataType,
+                recordCount: message.recordCount
+              }
+            },
+            format: message.format
+          });
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Parse worker failed'));
+      };
+
+      worker.postMessage({ type: 'parse', file } satisfies ParseWorkerRequest);
+    });
+
+    return {
+      promise,
+      cancel: () => {
+        worker.terminate();
+        rejectTask(new DOMException('Parsing was cancelled', 'AbortError'));
+      }
+    };
+  }
+
+  static isCancellation(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+  }
+
+  private static async parseOnMainThread(file: File): Promise<ParseResult> {
+    if (ArchiveReader.isArchive(file.name)) {
+      return { data: await DataParser.parseArchiveFile(file), format: 'zip' };
+    }
+
+    const uploadResult = await DataParser.parseFile(file);
+    return { data: DataParser.parseData(uploadResult), format: uploadResult.type };
+  }
+}
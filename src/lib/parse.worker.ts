@@ -0,0 +1,148 @@
+import { DataParser } from './parser';
+import { ArchiveReader } from './archive';
+import { JsonArrayStreamParser } from './stream-parser';
+import type { DataType, ParseProgress, ParseWorkerRequest, ParseWorkerResponse } from '@/types/data';
+
+// Large enough to keep per-chunk overhead low, small enough for smooth progress
+const CHUNK_SIZE = 4 * 1024 * 1024;
+// Streamed arrays use smaller chunks so the first items reach the UI quickly
+const STREAM_CHUNK_SIZE = 1024 * 1024;
+const FLUSH_INTERVAL_MS = 250;
+
+const post = (message: ParseWorkerResponse) => self.postMessage(message);
+
+const reportProgress = (progress: ParseProgress) => post({ type: 'progress', progress });
+
+async function readChunks(
+  file: File,
+  onChunk: (chunk: Uint8Array, loaded: number) => void,
+  chunkSize = CHUNK_SIZE
+): Promise<void> {
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const chunk = new Uint8Array(await file.slice(offset, offset + chunkSize).arrayBuffer());
+    const loaded = Math.min(offset + chunkSize, file.size);
+    onChunk(chunk, loaded);
+    reportProgress({ phase: 'reading', loaded, total: file.size });
+  }
+}
+
+async function isStreamableArray(file: File): Promise<boolean> {
+  if (/\.(jsonl|ndjson|ya?ml)$/i.test(file.name)) return false;
+
+  const head = await file.slice(0, 1024).text();
+  return JsonArrayStreamParser.isArrayStart(head);
+}
+
+async function readBytes(file: File): Promise<Uint8Array> {
+  const bytes = new Uint8Array(file.size);
+  let position = 0;
+  await readChunks(file, chunk => {
+    bytes.set(chunk, position);
+    position += chunk.length;
+  });
+  return bytes;
+}
+
+// Decode incrementally so multi-byte characters split across chunks survive
+async function readText(file: File): Promise<string> {
+  const decoder = new TextDecoder();
+  const parts: string[] = [];
+  await readChunks(file, chunk => parts.push(decoder.decode(chunk, { stream: true })));
+  parts.push(decoder.decode());
+  return parts.join('');
+}
+
+async function parseArchive(file: File): Promise<void> {
+  let bytes: Uint8Array | null = await readBytes(file);
+
+  reportProgress({ phase: 'parsing', loaded: file.size, total: file.size });
+  const data = DataParser.parseArchive(bytes, file.name, file.size, new Date(file.lastModified));
+  // Released before the result is copied to the main thread
+  bytes = null;
+  post({ type: 'done', data, format: 'zip' });
+}
+
+/**
+ * Parse a top-level array element by element, forwarding items in batches so the
+ * sidebar can fill in while the rest of the file is still being read. Each batch is
+ * posted once and then dropped; only the main thread keeps the items. The type is
+ * detected from the first batch so the view cannot switch mid-stream.
+ */
+async function parseArrayStream(file: File): Promise<void> {
+  let batch: unknown[] = [];
+  let lastFlush = 0;
+  let dataType: DataType | null = null;
+  let recordCount = 0;
+
+  const flush = (loaded: number) => {
+    if (batch.length === 0) return;
+    dataType ??= DataParser.detectDataType(batch, file.name);
+    recordCount += DataParser.estimateRecordCount(batch, dataType) ?? batch.length;
+    post({
+      type: 'items',
+      items: batch,
+      dataType,
+      progress: { phase: 'reading', loaded, total: file.size }
+    });
+    batch = [];
+    lastFlush = Date.now();
+  };
+
+  const parser = new JsonArrayStreamParser(item => {
+    batch.push(item);
+  });
+
+  try {
+    await readChunks(file, (chunk, loaded) => {
+      parser.push(chunk);
+      if (lastFlush === 0 || Date.now() - lastFlush >= FLUSH_INTERVAL_MS) {
+        flush(loaded);
+      }
+    }, STREAM_CHUNK_SIZE);
+    parser.end();
+  } catch (error) {
+    throw new Error(`Failed to parse JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  flush(file.size);
+  post({
+    type: 'stream-end',
+    format: 'json',
+    dataType: dataType ?? DataParser.detectDataType([], file.name),
+    recordCount
+  });
+}
+
+async function parseText(file: File): Promise<void> {
+  let content = await readText(file);
+
+  reportProgress({ phase: 'parsing', loaded: file.size, total: file.size });
+  const type = DataParser.determineFileType(file.name, content);
+  const data = DataParser.parseData({
+    filename: file.name,
+    content,
+    type,
+    size: file.size,
+    lastModified: new Date(file.lastModified)
+  });
+  // Released before the result is copied to the main thread
+  content = '';
+  post({ type: 'done', data, format: type });
+}
+
+async function parse(file: File): Promise<void> {
+  if (ArchiveReader.isArchive(file.name)) {
+    await parseArchive(file);
+  } else if (await isStreamableArray(file)) {
+    await parseArrayStream(file);
+  } else {
+    await parseText(file);
+  }
+}
+
+self.onmessage = (event: MessageEvent<ParseWorkerRequest>) => {
+  if (event.data.type !== 'parse') return;
+
+  parse(event.data.file).catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to process file' });
+  });
+};
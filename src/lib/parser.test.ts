@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { DataParser } from './parser';
+import type { ChatGPTConversation, ChatGPTMessage, ClaudeChatMessage, ClaudeConversation } from '@/types/data';
+
+const claudeMessage = (overrides: Partial<ClaudeChatMessage> = {}): ClaudeChatMessage => ({
+  uuid: 'm1',
+  text: 'Hello',
+  sender: 'human',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides
+});
+
+const claudeConversation: ClaudeConversation = {
+  uuid: 'c1',
+  name: 'Greeting',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:01:00Z',
+  chat_messages: [claudeMessage()]
+};
+
+const chatGPTMessage = (id: string, role: ChatGPTMessage['author']['role'], text: string, create_time = 1700000000): ChatGPTMessage => ({
+  id,
+  author: { role },
+  create_time,
+  content: { content_type: 'text', parts: [text] },
+  status: 'finished_successfully',
+  weight: 1,
+  recipient: 'all'
+});
+
+const chatGPTConversation: ChatGPTConversation = {
+  id: 'g1',
+  title: 'Question',
+  create_time: 1700000000,
+  update_time: 1700000100,
+  mapping: {
+    root: { id: 'root', message: null, parent: null, children: ['u1'] },
+    u1: { id: 'u1', message: chatGPTMessage('u1', 'user', 'Question?'), parent: 'root', children: [] }
+  }
+};
+
+// u1 was answered twice (a1, then the regenerated a2); a1 has a follow-up
+const branchedConversation: ChatGPTConversation = {
+  id: 'g2',
+  title: 'Branches',
+  create_time: 1700000000,
+  update_time: 1700000100,
+  current_node: 'a2',
+  mapping: {
+    root: { id: 'root', message: null, parent: null, children: ['s1'] },
+    s1: { id: 's1', message: chatGPTMessage('s1', 'system', ''), parent: 'root', children: ['u1'] },
+    u1: { id: 'u1', message: chatGPTMessage('u1', 'user', 'Question?', 1700000001), parent: 's1', children: ['a1', 'a2'] },
+    a1: { id: 'a1', message: chatGPTMessage('a1', 'assistant', 'First answer', 1700000002), parent: 'u1', children: ['u2'] },
+    u2: { id: 'u2', message: chatGPTMessage('u2', 'user', 'Follow-up', 1700000004), parent: 'a1', children: [] },
+    a2: { id: 'a2', message: chatGPTMessage('a2', 'assistant', 'Regenerated answer', 1700000003), parent: 'u1', children: [] }
+  }
+};
+
+describe('DataParser.determineFileType', () => {
+  it('trusts the file extension', () => {
+    expect(DataParser.determineFileType('export.JSON', 'not json')).toBe('json');
+    expect(DataParser.determineFileType('log.ndjson', '')).toBe('jsonl');
+    expect(DataParser.determineFileType('config.yml', '')).toBe('yaml');
+  });
+
+  it('falls back to the content', () => {
+    expect(DataParser.determineFileType('data', '{"a": 1}')).toBe('json');
+    expect(DataParser.determineFileType('data', '{"a": 1}\n{"a": 2}\n')).toBe('jsonl');
+    expect(DataParser.determineFileType('data', 'a: 1\nb: [2, 3]')).toBe('yaml');
+  });
+});
+
+describe('DataParser.detectDataType', () => {
+  it('detects Claude conversations, single or in a list', () => {
+    expect(DataParser.detectDataType(claudeConversation, 'c.json')).toBe('claude-conversation');
+    expect(DataParser.detectDataType([claudeConversation], 'conversations.json')).toBe('claude-conversation');
+  });
+
+  it('detects ChatGPT conversations', () => {
+    expect(DataParser.detectDataType([chatGPTConversation], 'export.json')).toBe('chatgpt-conversation');
+  });
+
+  it('detects Claude Code session logs', () => {
+    const events = [
+      { type: 'user', sessionId: 's1', uuid: 'e1', message: { role: 'user', content: 'hi' } },
+      { type: 'assistant', sessionId: 's1', uuid: 'e2', message: { role: 'assistant', content: [{ type: 'text', text: 'hello' }] } }
+    ];
+    expect(DataParser.detectDataType(events, 'session.jsonl')).toBe('claude-code-session');
+  });
+
+  it('detects API logs', () => {
+    const request = { model: 'claude', messages: [{ role: 'user', content: 'hi' }] };
+    expect(DataParser.detectDataType([request], 'requests.ndjson')).toBe('api-log');
+  });
+
+  it('detects CloudWatch output', () => {
+    expect(DataParser.detectDataType({ events: [{ timestamp: 1, message: 'x' }] }, 'logs.json')).toBe('cloudwatch-logs');
+  });
+
+  it('falls back to generic JSON or YAML', () => {
+    expect(DataParser.detectDataType({ results: [] }, 'data.json')).toBe('generic-json');
+    expect(DataParser.detectDataType({ messages: [] }, 'data.json')).toBe('generic-json');
+    expect(DataParser.detectDataType({ a: 1 }, 'data.yaml')).toBe('generic-yaml');
+    expect(DataParser.detectDataType('text', 'data.json')).toBe('unknown');
+  });
+});
+
+describe('DataParser message helpers', () => {
+  it('returns the ID of either conversation format', () => {
+    expect(DataParser.getConversationId(claudeConversation)).toBe('c1');
+    expect(DataParser.getConversationId(chatGPTConversation)).toBe('g1');
+  });
+
+  it('prefers text blocks over the flat text', () => {
+    const message = claudeMessage({
+      text: 'flat',
+      content: [
+        { type: 'text', text: 'first', start_timestamp: '', stop_timestamp: '' },
+        { type: 'thinking', thinking: 'hmm', start_timestamp: '', stop_timestamp: '' },
+        { type: 'text', text: 'second', start_timestamp: '', stop_timestamp: '' }
+      ]
+    });
+    expect(DataParser.getClaudeMessageText(message)).toBe('first\nsecond');
+    expect(DataParser.getClaudeMessageText(claudeMessage({ text: 'flat', content: [] }))).toBe('flat');
+  });
+
+  it('lists body, thinking and attachment text, leaving out empty parts', () => {
+    const message = claudeMessage({
+      text: 'body',
+      content: [
+        { type: 'thinking', thinking: 'idea', start_timestamp: '', stop_timestamp: '' },
+        { type: 'thinking', thinking: '  ', start_timestamp: '', stop_timestamp: '' }
+      ],
+      attachments: [
+        { file_name: 'notes.txt', file_type: 'text/plain', file_size: 4, extracted_content: 'note' },
+        { file_name: 'empty.txt', file_type: 'text/plain', file_size: 0 }
+      ]
+    });
+    expect(DataParser.getClaudeMessageTextParts(message)).toEqual([
+      { field: 'message', text: 'body' },
+      { field: 'thinking', text: 'idea' },
+      { field: 'attachment', label: 'notes.txt', text: 'note' }
+    ]);
+  });
+
+  it('maps senders of both formats, treating tool results as tool messages', () => {
+    expect(DataParser.getMessageSender(claudeMessage())).toBe('human');
+    expect(DataParser.getMessageSender(claudeMessage({
+      content: [{ type: 'tool_result', start_timestamp: '', stop_timestamp: '' }]
+    }))).toBe('tool');
+    expect(DataParser.getMessageSender(chatGPTMessage('a', 'assistant', 'x'))).toBe('assistant');
+    expect(DataParser.getMessageSender(chatGPTMessage('u', 'user', 'x'))).toBe('human');
+    expect(DataParser.getMessageSender(chatGPTMessage('s', 'system', 'x'))).toBe('system');
+    expect(DataParser.getMessageSender(chatGPTMessage('t', 'tool', 'x'))).toBe('tool');
+  });
+});
+
+describe('DataParser.extractChatGPTThread', () => {
+  it('follows current_node up to the root, skipping hidden messages', () => {
+    const thread = DataParser.extractChatGPTThread(branchedConversation);
+    expect(thread.map(entry => entry.nodeId)).toEqual(['u1', 'a2']);
+    expect(thread[1]).toMatchObject({ siblingIds: ['a1', 'a2'], siblingIndex: 1 });
+  });
+
+  it('follows a given leaf instead', () => {
+    expect(DataParser.extractChatGPTThread(branchedConversation, 'u2').map(entry => entry.nodeId)).toEqual(['u1', 'a1', 'u2']);
+  });
+
+  it('falls back to the most recent leaf without a usable current_node', () => {
+    const conversation = { ...branchedConversation, current_node: 'missing' };
+    expect(DataParser.extractChatGPTThread(conversation).map(entry => entry.nodeId)).toEqual(['u1', 'a1', 'u2']);
+  });
+});
+
+describe('DataParser.resolveChatGPTLeaf', () => {
+  it('follows the latest child down to a leaf', () => {
+    expect(DataParser.resolveChatGPTLeaf(branchedConversation, 'u1')).toBe('a2');
+    expect(DataParser.resolveChatGPTLeaf(branchedConversation, 'a1')).toBe('u2');
+  });
+});
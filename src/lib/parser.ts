@@ -1,14 +1,22 @@
 import { load as yamlLoad } from 'js-yaml';
+import { ArchiveReader } from './archive';
+import { ClaudeCodeSessions } from './claude-code';
+import { ApiLogs } from './api-logs';
+import { CloudWatchLogs } from './cloudwatch';
 import type {
   FileUploadResult,
   ParsedData,
   DataType,
   ClaudeConversation,
   ClaudeConversations,
+  ClaudeChatMessage,
   ChatGPTConversation,
   ChatGPTConversations,
   ChatGPTMessage,
-  DataMetadata
+  ChatGPTThreadMessage,
+  DataMetadata,
+  MessageSender,
+  MessageTextPart
 } from '@/types/data';
 
 export class DataParser {
@@ -25,6 +33,11 @@ export class DataParser {
     };
   }
 
+  static async parseArchiveFile(file: File): Promise<ParsedData> {
+    const bytes = await this.readFileBytes(file);
+    return this.parseArchive(bytes, file.name, file.size, new Date(file.lastModified));
+  }
+
   private static async readFileContent(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -34,8 +47,18 @@ export class DataParser {
     });
   }
 
-  private static determineFileType(filename: string, content: string): 'json' | 'yaml' {
+  private static async readFileBytes(file: File): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve(new Uint8Array(e.target?.result as ArrayBuffer));
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsArrayBuffer(file);
+    });
+  }
+
+  static determineFileType(filename: string, content: string): FileUploadResult['type'] {
     if (filename.toLowerCase().endsWith('.json')) return 'json';
+    if (filename.toLowerCase().endsWith('.jsonl') || filename.toLowerCase().endsWith('.ndjson')) return 'jsonl';
     if (filename.toLowerCase().endsWith('.yaml') || filename.toLowerCase().endsWith('.yml')) return 'yaml';
     
     // Content-based detection
@@ -44,14 +67,35 @@ export class DataParser {
       return 'json';
     } catch {
       try {
-        yamlLoad(content);
-        return 'yaml';
+        this.parseJsonLines(content);
+        return 'jsonl';
       } catch {
-        return 'json'; // Default fallback
+        try {
+          yamlLoad(content);
+          return 'yaml';
+        } catch {
+          return 'json'; // Default fallback
+        }
       }
     }
   }
 
+  private static parseJsonLines(content: string): unknown[] {
+    const records: unknown[] = [];
+    const lines = content.split(/\r?\n/);
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch (error) {
+        throw new Error(`line ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    return records;
+  }
+
   static parseData(uploadResult: FileUploadResult): ParsedData {
     const startTime = new Date();
     let parsed: unknown;
@@ -59,6 +103,8 @@ export class DataParser {
     try {
       if (uploadResult.type === 'json') {
         parsed = JSON.parse(uploadResult.content);
+      } else if (uploadResult.type === 'jsonl') {
+        parsed = this.parseJsonLines(uploadResult.content);
       } else {
         parsed = yamlLoad(uploadResult.content);
       }
@@ -66,23 +112,67 @@ export class DataParser {
       throw new Error(`Failed to parse ${uploadResult.type.toUpperCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
-    const dataType = this.detectDataType(parsed, uploadResult.filename);
+    return this.createParsedData(parsed, uploadResult.filename, uploadResult.size, startTime);
+  }
+
+  // Shared by the whole-file and streaming paths once the value is in memory
+  static createParsedData(raw: unknown, filename: string, size: number, startTime: Date = new Date()): ParsedData {
+    const dataType = this.detectDataType(raw, filename);
+    const metadata: DataMetadata = {
+      filename,
+      fileSize: size,
+      parseTime: startTime,
+      estimatedType: dataType,
+      recordCount: this.estimateRecordCount(raw, dataType)
+    };
+
+    return {
+      raw,
+      type: dataType,
+      metadata
+    };
+  }
+
+  static parseArchive(bytes: Uint8Array, filename: string, size: number, lastModified: Date = new Date()): ParsedData {
+    const startTime = new Date();
+    const archive = ArchiveReader.extract(bytes, lastModified);
+
+    if (archive.conversationFiles.length === 0) {
+      throw new Error(`No conversations.json found in ${filename}`);
+    }
+
+    // Split exports ship several conversation files; merge them into one list
+    const parts = archive.conversationFiles.map(file => this.parseData(file));
+    const dataType = parts[0].type;
+    if (parts.some(part => part.type !== dataType)) {
+      throw new Error(`Conversation files in ${filename} contain mixed data types`);
+    }
+
+    const raw = parts.length === 1
+      ? parts[0].raw
+      : parts.flatMap(part => Array.isArray(part.raw) ? part.raw : [part.raw]);
+
     const metadata: DataMetadata = {
-      filename: uploadResult.filename,
-      fileSize: uploadResult.size,
+      filename,
+      fileSize: size,
       parseTime: startTime,
       estimatedType: dataType,
-      recordCount: this.estimateRecordCount(parsed, dataType)
+      recordCount: this.estimateRecordCount(raw, dataType),
+      archive: {
+        entries: archive.entries,
+        conversationFiles: archive.conversationFiles.map(file => file.filename),
+        extras: archive.extras
+      }
     };
 
     return {
-      raw: parsed,
+      raw,
       type: dataType,
       metadata
     };
   }
 
-  private static detectDataType(data: unknown, filename: string): DataType {
+  static detectDataType(data: unknown, filename: string): DataType {
     if (!data || typeof data !== 'object') return 'unknown';
 
     // Claude conversation detection (single conversation)
@@ -110,21 +200,29 @@ export class DataParser {
       return 'chatgpt-conversation';
     }
 
+    // Claude Code session transcripts (JSON Lines of session events)
+    if (ClaudeCodeSessions.isSessionLog(data)) {
+      return 'claude-code-session';
+    }
+
+    // Anthropic Messages / OpenAI Chat Completions request and response logs
+    if (ApiLogs.isApiLog(data)) {
+      return 'api-log';
+    }
+
+    // CloudWatch filter-log-events output and Logs Insights results
+    if (CloudWatchLogs.isCloudWatchLog(data)) {
+      return 'cloudwatch-logs';
+    }
+
     // Check filename hints (only if not Claude or ChatGPT format detected)
     if (filename.toLowerCase().includes('chatgpt') || 
         (filename.toLowerCase().includes('conversation') && !filename.toLowerCase().includes('claude'))) {
       return 'chatgpt-conversation';
     }
 
-    if (filename.toLowerCase().includes('cloudwatch') || filename.toLowerCase().includes('log')) {
-      return 'cloudwatch-logs';
-    }
-
     // Generic detection
-    if (Array.isArray(data)) {
-      return 'generic-json';
-    }
-    return 'generic-json';
+    return /\.ya?ml$/i.test(filename) ? 'generic-yaml' : 'generic-json';
   }
 
   private static isClaudeConversation(data: unknown): data is ClaudeConversation {
@@ -206,7 +304,7 @@ export class DataParser {
     return data.every((item) => this.isChatGPTConversation(item));
   }
 
-  private static estimateRecordCount(data: unknown, dataType: DataType): number | undefined {
+  static estimateRecordCount(data: unknown, dataType: DataType): number | undefined {
     if (dataType === 'claude-conversation') {
       if (this.isClaudeConversation(data)) {
         return data.chat_messages.length;
@@ -225,6 +323,10 @@ export class DataParser {
       }
     }
     
+    if (dataType === 'cloudwatch-logs') {
+      return CloudWatchLogs.countRecords(data);
+    }
+
     if (Array.isArray(data)) {
       return data.length;
     }
@@ -252,29 +354,183 @@ export class DataParser {
     throw new Error('Invalid ChatGPT conversation format');
   }
 
+  static isClaudeToolMessage(message: ClaudeChatMessage): boolean {
+    return !!message.content?.some(block => block.type === 'tool_use' || block.type === 'tool_result');
+  }
+
+  // Turns that only carry tool output back to the model (user role in the API)
+  static isClaudeToolResultMessage(message: ClaudeChatMessage): boolean {
+    return !!message.content?.length && message.content.every(block => block.type === 'tool_result');
+  }
+
+  static getConversationId(conversation: ClaudeConversation | ChatGPTConversation): string {
+    return 'uuid' in conversation ? conversation.uuid : conversation.id;
+  }
+
+  /** The visible reply: the text blocks when there are any, otherwise the flat `text`. */
+  static getClaudeMessageText(message: ClaudeChatMessage): string {
+    const textBlocks = message.content?.filter(block => block.type === 'text' && block.text) ?? [];
+    return textBlocks.length > 0 ? textBlocks.map(block => block.text).join('\n') : message.text ?? '';
+  }
+
+  /**
+   * Everything readable in a Claude message: the body, each thinking block and each
+   * attachment's extracted content. Empty parts are left out.
+   */
+  static getClaudeMessageTextParts(message: ClaudeChatMessage): MessageTextPart[] {
+    const parts: MessageTextPart[] = [{ field: 'message', text: this.getClaudeMessageText(message) }];
+
+    for (const block of message.content ?? []) {
+      if (block.type === 'thinking') parts.push({ field: 'thinking', text: block.thinking ?? '' });
+    }
+    for (const attachment of [...(message.attachments ?? []), ...(message.files ?? [])]) {
+      parts.push({ field: 'attachment', label: attachment.file_name, text: attachment.extracted_content ?? '' });
+    }
+
+    return parts.filter(part => part.text.trim() !== '');
+  }
+
+  static getMessageSender(message: ClaudeChatMessage | ChatGPTMessage): MessageSender {
+    if ('uuid' in message) {
+      return this.isClaudeToolResultMessage(message) ? 'tool' : message.sender;
+    }
+    return this.isChatGPTToolMessage(message) ? 'tool'
+      : message.author.role === 'user' ? 'human'
+      : message.author.role === 'system' ? 'system'
+      : 'assistant';
+  }
+
   static extractChatGPTMessages(conversation: ChatGPTConversation): ChatGPTMessage[] {
-    const messages: ChatGPTMessage[] = [];
+    return this.extractChatGPTThread(conversation).map(entry => entry.message);
+  }
+
+  /**
+   * Build the canonical thread by walking from the leaf (current_node by default)
+   * up through parent links. Regenerated and edited branches are not interleaved;
+   * each entry instead lists the sibling nodes that share its parent.
+   */
+  static extractChatGPTThread(conversation: ChatGPTConversation, leafId?: string): ChatGPTThreadMessage[] {
     const mapping = conversation.mapping;
-    
-    // Find all message nodes that aren't null and have valid messages
-    Object.values(mapping).forEach(node => {
-      if (node.message && 
-          node.message.author.role !== 'system' && 
-          node.message.content?.parts && 
-          Array.isArray(node.message.content.parts) &&
-          node.message.content.parts.length > 0 &&
-          node.message.content.parts.some(part => 
-            typeof part === 'string' && part.trim() !== ''
-          )) {
-        messages.push(node.message);
-      }
-    });
-    
-    // Sort by create_time
-    return messages.sort((a, b) => {
-      if (a.create_time === null) return -1;
-      if (b.create_time === null) return 1;
-      return a.create_time - b.create_time;
-    });
+    const path: string[] = [];
+    const visited = new Set<string>();
+
+    let startId = leafId ?? conversation.current_node;
+    if (!startId || !mapping[startId]) {
+      startId = this.findLatestChatGPTLeaf(conversation);
+    }
+
+    let nodeId: string | null | undefined = startId;
+    while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+      visited.add(nodeId);
+      path.push(nodeId);
+      nodeId = mapping[nodeId].parent;
+    }
+    path.reverse();
+
+    return path
+      .filter(id => this.isVisibleChatGPTMessage(mapping[id].message))
+      .map(id => {
+        const parentId = mapping[id].parent;
+        const siblingIds = parentId && mapping[parentId]
+          ? mapping[parentId].children.filter(childId => mapping[childId])
+          : [id];
+
+        return {
+          nodeId: id,
+          message: mapping[id].message as ChatGPTMessage,
+          siblingIds,
+          siblingIndex: Math.max(siblingIds.indexOf(id), 0)
+        };
+      });
+  }
+
+  /**
+   * Follow the most recent child from the given node down to a leaf, so that
+   * switching to a sibling shows the latest continuation of that branch.
+   */
+  static resolveChatGPTLeaf(conversation: ChatGPTConversation, nodeId: string): string {
+    const mapping = conversation.mapping;
+    const visited = new Set<string>();
+    let currentId = nodeId;
+
+    while (!visited.has(currentId)) {
+      visited.add(currentId);
+      const children = mapping[currentId]?.children.filter(childId => mapping[childId]) ?? [];
+      if (children.length === 0) break;
+      currentId = children[children.length - 1];
+    }
+
+    return currentId;
+  }
+
+  private static findLatestChatGPTLeaf(conversation: ChatGPTConversation): string | undefined {
+    const nodes = Object.values(conversation.mapping);
+    const leaves = nodes.filter(node => node.children.length === 0);
+    if (leaves.length === 0) return nodes[nodes.length - 1]?.id;
+
+    return leaves.reduce((latest, node) =>
+      (node.message?.create_time ?? 0) >= (latest.message?.create_time ?? 0) ? node : latest
+    ).id;
+  }
+
+  /**
+   * Plain-text representation of any ChatGPT content type, used for search and snippets.
+   */
+  static getChatGPTMessageText(message: ChatGPTMessage): string {
+    const content = message.content;
+    if (!content) return '';
+
+    switch (content.content_type) {
+      case 'text':
+        return content.parts.filter(part => typeof part === 'string').join('\n');
+      case 'multimodal_text':
+        return content.parts
+          .map(part => typeof part === 'string' ? part : part.content_type === 'image_asset_pointer' ? '[Image]' : '')
+          .filter(part => part !== '')
+          .join('\n');
+      case 'code':
+      case 'execution_output':
+        return content.text ?? '';
+      case 'tether_browsing_display':
+        return content.result || content.summary || '';
+      case 'tether_quote':
+        return [content.title, content.text].filter(Boolean).join('\n');
+      case 'user_editable_context':
+        return [content.user_profile, content.user_instructions].filter(Boolean).join('\n');
+      case 'system_error':
+        return `${content.name}: ${content.text}`;
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Tool traffic: results authored by a tool (python, browser, dalle, plugins) and
+   * assistant messages addressed to a recipient other than the user.
+   */
+  static isChatGPTToolMessage(message: ChatGPTMessage): boolean {
+    return message.author.role === 'tool' || (!!message.recipient && message.recipient !== 'all');
+  }
+
+  static getChatGPTToolName(message: ChatGPTMessage): string {
+    if (message.author.role === 'tool') return message.author.name || 'tool';
+    return message.recipient;
+  }
+
+  static isVisibleChatGPTMessage(message: ChatGPTMessage | null): boolean {
+    if (!message?.content) return false;
+
+    // Custom instructions are stored on system-authored nodes in some exports
+    if (message.author.role === 'system' && message.content.content_type !== 'user_editable_context') {
+      return false;
+    }
+
+    if (message.content.content_type === 'multimodal_text') {
+      return message.content.parts.length > 0;
+    }
+    if (message.content.content_type === 'system_error') {
+      return true;
+    }
+    return this.getChatGPTMessageText(message).trim() !== '';
   }
-}
\ No newline at end of file
+}
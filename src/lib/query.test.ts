@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { QueryEngine } from './query';
+
+const data = {
+  conversations: [
+    { id: 'c1', title: 'Plans, "draft"', messages: 3 },
+    { id: 'c2', title: 'Recipes', messages: 1, archived: true }
+  ]
+};
+
+describe('QueryEngine.detectLanguage', () => {
+  it('treats expressions starting with $ as JSONPath', () => {
+    expect(QueryEngine.detectLanguage(' $.conversations')).toBe('jsonpath');
+    expect(QueryEngine.detectLanguage('conversations[].id')).toBe('jmespath');
+  });
+});
+
+describe('QueryEngine.run', () => {
+  it('runs JSONPath with the path of every value', () => {
+    const result = QueryEngine.run(data, '$.conversations[*].id');
+    expect(result).toEqual({
+      language: 'jsonpath',
+      expression: '$.conversations[*].id',
+      values: ['c1', 'c2'],
+      paths: ["$['conversations'][0]['id']", "$['conversations'][1]['id']"]
+    });
+  });
+
+  it('runs JMESPath and wraps single values in a list', () => {
+    expect(QueryEngine.run(data, 'conversations[?messages > `1`].title').values).toEqual(['Plans, "draft"']);
+    expect(QueryEngine.run(data, 'length(conversations)').values).toEqual([2]);
+    expect(QueryEngine.run(data, 'missing').values).toEqual([]);
+  });
+
+  it('rejects empty and invalid expressions', () => {
+    expect(() => QueryEngine.run(data, '  ')).toThrow(/empty/);
+    expect(() => QueryEngine.run(data, 'conversations[')).toThrow();
+  });
+});
+
+describe('QueryEngine.toTable', () => {
+  it('spreads object keys into columns in order of first appearance', () => {
+    expect(QueryEngine.toTable(QueryEngine.run(data, 'conversations'))).toEqual({
+      columns: ['id', 'title', 'messages', 'archived'],
+      rows: [['c1', 'Plans, "draft"', 3, undefined], ['c2', 'Recipes', 1, true]]
+    });
+  });
+
+  it('puts other values in a value column next to their path', () => {
+    expect(QueryEngine.toTable(QueryEngine.run(data, '$.conversations[0].messages'))).toEqual({
+      columns: ['path', 'value'],
+      rows: [["$['conversations'][0]['messages']", 3]]
+    });
+  });
+});
+
+describe('QueryEngine.toCSV', () => {
+  it('quotes fields with commas and quotes and leaves missing ones empty', () => {
+    expect(QueryEngine.toCSV(QueryEngine.run(data, 'conversations'))).toBe(
+      'id,title,messages,archived\nc1,"Plans, ""draft""",3,\nc2,Recipes,1,true'
+    );
+  });
+
+  it('writes objects nested in a cell as JSON', () => {
+    expect(QueryEngine.toCSV(QueryEngine.run({ items: [{ tags: ['a'] }] }, 'items'))).toBe('tags\n"[""a""]"');
+  });
+});
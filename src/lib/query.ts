@@ -0,0 +1,101 @@
+import { JSONPath } from 'jsonpath-plus';
+import { search as jmespathSearch } from 'jmespath';
+import { toCsv } from './utils';
+
+export type QueryLanguage = 'jsonpath' | 'jmespath';
+
+export interface QueryResult {
+  language: QueryLanguage;
+  expression: string;
+  values: unknown[];
+  // JSONPath reports where each value was found; JMESPath projections do not
+  paths?: string[];
+}
+
+export interface QueryTable {
+  columns: string[];
+  rows: unknown[][];
+}
+
+const VALUE_COLUMN = 'value';
+const PATH_COLUMN = 'path';
+
+export class QueryEngine {
+  static detectLanguage(expression: string): QueryLanguage {
+    return expression.trim().startsWith('$') ? 'jsonpath' : 'jmespath';
+  }
+
+  static run(data: unknown, expression: string, language: QueryLanguage = this.detectLanguage(expression)): QueryResult {
+    if (!expression.trim()) {
+      throw new Error('Query expression is empty');
+    }
+
+    if (language === 'jsonpath') {
+      const matches = JSONPath({
+        path: expression,
+        json: data as object,
+        resultType: 'all',
+        wrap: true
+      }) as { value: unknown; path: string }[];
+
+      return {
+        language,
+        expression,
+        values: matches.map(match => match.value),
+        paths: matches.map(match => match.path)
+      };
+    }
+
+    const result = jmespathSearch(data, expression);
+    return {
+      language,
+      expression,
+      values: result === null ? [] : Array.isArray(result) ? result : [result]
+    };
+  }
+
+  /**
+   * Flatten results into rows. Objects spread their top-level keys into columns
+   * (in order of first appearance); anything else lands in a single value column.
+   */
+  static toTable(result: QueryResult): QueryTable {
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    const addColumn = (column: string) => {
+      if (!seen.has(column)) {
+        seen.add(column);
+        columns.push(column);
+      }
+    };
+
+    if (result.paths) addColumn(PATH_COLUMN);
+    result.values.forEach(value => {
+      if (this.isRecord(value)) {
+        Object.keys(value).forEach(addColumn);
+      } else {
+        addColumn(VALUE_COLUMN);
+      }
+    });
+
+    const rows = result.values.map((value, index) => columns.map(column => {
+      if (column === PATH_COLUMN && result.paths) return result.paths[index];
+      if (this.isRecord(value)) return value[column];
+      return column === VALUE_COLUMN ? value : undefined;
+    }));
+
+    return { columns, rows };
+  }
+
+  static toJSON(result: QueryResult): string {
+    return JSON.stringify(result.values, null, 2);
+  }
+
+  static toCSV(result: QueryResult): string {
+    const table = this.toTable(result);
+    return toCsv(table.columns, table.rows);
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+}
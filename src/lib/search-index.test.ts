@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { SearchIndex } from './search-index';
+import type { ClaudeChatMessage, ClaudeConversation } from '@/types/data';
+
+const message = (uuid: string, text: string, overrides: Partial<ClaudeChatMessage> = {}): ClaudeChatMessage => ({
+  uuid,
+  text,
+  sender: 'human',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides
+});
+
+const conversation = (uuid: string, messages: ClaudeChatMessage[]): ClaudeConversation => ({
+  uuid,
+  name: `Conversation ${uuid}`,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  chat_messages: messages
+});
+
+describe('SearchIndex.tokenize', () => {
+  it('lowercases words and splits on punctuation', () => {
+    expect(SearchIndex.tokenize('Hello, World! snake_case 42')).toEqual(['hello', 'world', 'snake_case', '42']);
+  });
+
+  it('indexes CJK runs as overlapping character pairs', () => {
+    expect(SearchIndex.tokenize('東京タワー')).toEqual(['東京', '京タ', 'タワ', 'ワー']);
+    expect(SearchIndex.tokenize('Reactの使い方')).toEqual(['react', 'の使', '使い', 'い方']);
+    expect(SearchIndex.tokenize('本')).toEqual(['本']);
+  });
+});
+
+describe('SearchIndex.extractDocuments', () => {
+  it('makes one document per message body, thinking block and attachment', () => {
+    const documents = SearchIndex.extractDocuments(conversation('c1', [
+      message('m1', 'See the file', {
+        attachments: [{ file_name: 'notes.txt', file_type: 'text/plain', file_size: 5, extracted_content: 'notes' }]
+      }),
+      message('m2', '', {
+        sender: 'assistant',
+        content: [{ type: 'thinking', thinking: 'Reading it', start_timestamp: '', stop_timestamp: '' }]
+      })
+    ]));
+    expect(documents.map(document => [document.messageId, document.field, document.label, document.text])).toEqual([
+      ['m1', 'message', undefined, 'See the file'],
+      ['m1', 'attachment', 'notes.txt', 'notes'],
+      ['m2', 'thinking', undefined, 'Reading it']
+    ]);
+    expect(documents[0]).toMatchObject({ conversationId: 'c1', sender: 'human', timestamp: Date.parse('2024-01-01T00:00:00Z') });
+  });
+});
+
+describe('SearchIndex.search', () => {
+  const index = new SearchIndex();
+  index.add(conversation('c1', [
+    message('m1', 'The quick brown fox jumps'),
+    message('m2', 'A slow brown dog sleeps'),
+    message('m3', 'quick quick quick thinking', { sender: 'assistant' })
+  ]));
+  index.add(conversation('c2', [message('m4', '東京タワーに行きました')]));
+
+  it('adds each conversation once', () => {
+    index.add(conversation('c1', [message('m9', 'duplicate')]));
+    expect(index.conversationCount).toBe(2);
+    expect(index.documentCount).toBe(4);
+    expect(index.has(conversation('c2', []))).toBe(true);
+  });
+
+  it('requires every term and ranks by term frequency', () => {
+    expect(index.search('brown').hits.map(hit => hit.document.messageId).sort()).toEqual(['m1', 'm2']);
+    expect(index.search('quick').hits.map(hit => hit.document.messageId)).toEqual(['m3', 'm1']);
+    expect(index.search('quick brown').hits.map(hit => hit.document.messageId)).toEqual(['m1']);
+  });
+
+  it('matches the last term as a prefix', () => {
+    expect(index.search('slow do').hits.map(hit => hit.document.messageId)).toEqual(['m2']);
+    expect(index.search('do slow').total).toBe(0);
+  });
+
+  it('finds CJK text by character pairs', () => {
+    expect(index.search('タワー').hits.map(hit => hit.document.messageId)).toEqual(['m4']);
+  });
+
+  it('limits hits but reports the full total', () => {
+    const results = index.search('brown', 1);
+    expect(results.hits).toHaveLength(1);
+    expect(results.total).toBe(2);
+  });
+
+  it('returns nothing for a query without words', () => {
+    expect(index.search('  !? ')).toEqual({ hits: [], total: 0 });
+  });
+});
+
+describe('SearchIndex.snippet', () => {
+  it('marks matched terms', () => {
+    expect(SearchIndex.splitMatches('Brown fox, brown dog', ['brown'])).toEqual([
+      { text: 'Brown', match: true },
+      { text: ' fox, ', match: false },
+      { text: 'brown', match: true },
+      { text: ' dog', match: false }
+    ]);
+  });
+
+  it('cuts long text around the first match', () => {
+    const text = `${'a '.repeat(100)}needle${' b'.repeat(200)}`;
+    const parts = SearchIndex.snippet(text, ['needle']);
+    expect(parts[0]).toEqual({ text: '…', match: false });
+    expect(parts[parts.length - 1]).toEqual({ text: '…', match: false });
+    expect(parts.filter(part => part.match).map(part => part.text)).toEqual(['needle']);
+  });
+});
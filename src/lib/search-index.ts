@@ -0,0 +1,279 @@
+import { DataParser } from './parser';
+import type { ClaudeConversation, ChatGPTConversation, MessageSender, MessageTextPart } from '@/types/data';
+
+export type SearchField = MessageTextPart['field'];
+
+export type SearchSender = MessageSender;
+
+export interface SearchDocument {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  sender: SearchSender;
+  field: SearchField;
+  // Attachment file name for attachment documents
+  label?: string;
+  text: string;
+  // Milliseconds since the epoch, when the message has a timestamp
+  timestamp?: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  total: number;
+}
+
+interface Posting {
+  doc: number;
+  tf: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+// Scripts written without spaces are indexed as overlapping character pairs
+const CJK_RUN = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]+)/u;
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { message: 1, thinking: 0.8, attachment: 0.6 };
+const PHRASE_BOOST = 1.5;
+const SNIPPET_CONTEXT = 80;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Inverted index over message bodies, thinking blocks and attachment text of every
+ * conversation. Conversations are added one at a time so the index can be built in
+ * small batches while the UI stays responsive.
+ */
+export class SearchIndex {
+  private documents: SearchDocument[] = [];
+  private lengths: number[] = [];
+  private totalLength = 0;
+  private postings = new Map<string, Posting[]>();
+  private conversationIds = new Set<string>();
+
+  get documentCount(): number {
+    return this.documents.length;
+  }
+
+  get conversationCount(): number {
+    return this.conversationIds.size;
+  }
+
+  has(conversation: ClaudeConversation | ChatGPTConversation): boolean {
+    return this.conversationIds.has(DataParser.getConversationId(conversation));
+  }
+
+  add(conversation: ClaudeConversation | ChatGPTConversation): void {
+    const id = DataParser.getConversationId(conversation);
+    if (this.conversationIds.has(id)) return;
+    this.conversationIds.add(id);
+
+    for (const document of SearchIndex.extractDocuments(conversation)) {
+      this.addDocument(document);
+    }
+  }
+
+  /**
+   * Ranked search: every query term must occur in the document, and the last term
+   * also matches as a prefix so results appear while the user is still typing.
+   */
+  search(query: string, limit = 200): SearchResults {
+    const terms = [...new Set(SearchIndex.tokenize(query))];
+    if (terms.length === 0) return { hits: [], total: 0 };
+
+    const lastIsPrefix = !CJK_RUN.test(terms[terms.length - 1]);
+    const termPostings = terms.map((term, index) =>
+      index === terms.length - 1 && lastIsPrefix ? this.prefixPostings(term) : (this.postings.get(term) ?? [])
+    );
+
+    // Intersect starting from the rarest term
+    const order = termPostings.map((_, index) => index).sort((a, b) => termPostings[a].length - termPostings[b].length);
+    let scores: Map<number, number> | null = null;
+    for (const index of order) {
+      const postings = termPostings[index];
+      const idf = Math.log(1 + (this.documents.length - postings.length + 0.5) / (postings.length + 0.5));
+      const next = new Map<number, number>();
+      for (const { doc, tf } of postings) {
+        if (scores && !scores.has(doc)) continue;
+        const norm = tf + K1 * (1 - B + B * this.lengths[doc] / (this.totalLength / this.documents.length));
+        next.set(doc, (scores?.get(doc) ?? 0) + idf * (tf * (K1 + 1)) / norm);
+      }
+      scores = next;
+      if (scores.size === 0) break;
+    }
+
+    const phrase = query.trim().toLowerCase();
+    const highlightTerms = SearchIndex.highlightTerms(query);
+    const ranked = [...(scores ?? new Map<number, number>())]
+      .map(([doc, score]) => {
+        const document = this.documents[doc];
+        const phraseBoost = terms.length > 1 && document.text.toLowerCase().includes(phrase) ? PHRASE_BOOST : 1;
+        return { doc, score: score * FIELD_WEIGHTS[document.field] * phraseBoost };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    return {
+      total: ranked.length,
+      hits: ranked.slice(0, limit).map(({ doc, score }) => ({
+        document: this.documents[doc],
+        score,
+        snippet: SearchIndex.snippet(this.documents[doc].text, highlightTerms, phrase)
+      }))
+    };
+  }
+
+  static extractDocuments(conversation: ClaudeConversation | ChatGPTConversation): SearchDocument[] {
+    return 'chat_messages' in conversation
+      ? this.extractClaudeDocuments(conversation)
+      : this.extractChatGPTDocuments(conversation);
+  }
+
+  static tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const [word] of text.toLowerCase().matchAll(WORD_PATTERN)) {
+      for (const segment of word.split(CJK_RUN)) {
+        if (!segment) continue;
+        if (!CJK_RUN.test(segment)) {
+          tokens.push(segment);
+        } else if (segment.length === 1) {
+          tokens.push(segment);
+        } else {
+          for (let i = 0; i < segment.length - 1; i++) {
+            tokens.push(segment.slice(i, i + 2));
+          }
+        }
+      }
+    }
+    return tokens;
+  }
+
+  // Whole query words, which read better in snippets than CJK character pairs
+  static highlightTerms(query: string): string[] {
+    return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+  }
+
+  /**
+   * A window of text around the first match, split into plain and matched parts.
+   * The exact phrase is preferred over the first individual term.
+   */
+  static snippet(text: string, terms: string[], phrase = ''): SnippetPart[] {
+    const lower = text.toLowerCase();
+    let anchor = phrase ? lower.indexOf(phrase) : -1;
+    if (anchor === -1) {
+      const positions = terms.map(term => lower.indexOf(term)).filter(position => position !== -1);
+      anchor = positions.length > 0 ? Math.min(...positions) : 0;
+    }
+
+    const start = Math.max(0, anchor - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, anchor + SNIPPET_CONTEXT * 2);
+    const window = text.slice(start, end).replace(/\s+/g, ' ');
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+
+    const parts = this.splitMatches(window, terms);
+    if (prefix) parts.unshift({ text: prefix, match: false });
+    if (suffix) parts.push({ text: suffix, match: false });
+    return parts;
+  }
+
+  static splitMatches(text: string, terms: string[]): SnippetPart[] {
+    const lower = text.toLowerCase();
+    const parts: SnippetPart[] = [];
+    let position = 0;
+
+    while (position < text.length) {
+      let next = -1;
+      let length = 0;
+      for (const term of terms) {
+        const index = lower.indexOf(term, position);
+        if (index !== -1 && (next === -1 || index < next || (index === next && term.length > length))) {
+          next = index;
+          length = term.length;
+        }
+      }
+      if (next === -1) break;
+      if (next > position) parts.push({ text: text.slice(position, next), match: false });
+      parts.push({ text: text.slice(next, next + length), match: true });
+      position = next + length;
+    }
+
+    if (position < text.length) parts.push({ text: text.slice(position), match: false });
+    return parts;
+  }
+
+  private addDocument(document: SearchDocument): void {
+    const doc = this.documents.length;
+    const tokens = SearchIndex.tokenize(document.text);
+    const counts = new Map<string, number>();
+    tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+
+    for (const [token, tf] of counts) {
+      const list = this.postings.get(token);
+      if (list) {
+        list.push({ doc, tf });
+      } else {
+        this.postings.set(token, [{ doc, tf }]);
+      }
+    }
+
+    this.documents.push(document);
+    this.lengths.push(tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  private prefixPostings(prefix: string): Posting[] {
+    const merged = new Map<number, number>();
+    for (const [token, list] of this.postings) {
+      if (!token.startsWith(prefix)) continue;
+      for (const { doc, tf } of list) {
+        merged.set(doc, (merged.get(doc) ?? 0) + tf);
+      }
+    }
+    return [...merged].map(([doc, tf]) => ({ doc, tf }));
+  }
+
+  private static extractClaudeDocuments(conversation: ClaudeConversation): SearchDocument[] {
+    const documents: SearchDocument[] = [];
+
+    for (const message of conversation.chat_messages) {
+      const base = {
+        conversationId: conversation.uuid,
+        conversationTitle: conversation.name,
+        messageId: message.uuid,
+        sender: DataParser.getMessageSender(message),
+        timestamp: new Date(message.created_at).getTime() || undefined
+      };
+
+      for (const part of DataParser.getClaudeMessageTextParts(message)) {
+        documents.push({ ...base, ...part });
+      }
+    }
+
+    return documents;
+  }
+
+  private static extractChatGPTDocuments(conversation: ChatGPTConversation): SearchDocument[] {
+    return DataParser.extractChatGPTThread(conversation)
+      .map(({ message }): SearchDocument => ({
+        conversationId: conversation.id,
+        conversationTitle: conversation.title,
+        messageId: message.id,
+        sender: DataParser.getMessageSender(message),
+        field: 'message',
+        text: DataParser.getChatGPTMessageText(message),
+        timestamp: message.create_time ? message.create_time * 1000 : undefined
+      }))
+      .filter(document => document.text.trim() !== '');
+  }
+}
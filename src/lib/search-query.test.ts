@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { SearchQuery } from './search-query';
+import type { ChatGPTConversation, ClaudeChatMessage, ClaudeConversation } from '@/types/data';
+
+const message = (uuid: string, sender: ClaudeChatMessage['sender'], text: string, created_at: string): ClaudeChatMessage => ({
+  uuid,
+  text,
+  sender,
+  created_at,
+  updated_at: created_at
+});
+
+const conversation: ClaudeConversation = {
+  uuid: 'c1',
+  name: 'Draft release notes',
+  created_at: '2024-02-10T12:00:00',
+  updated_at: '2024-02-12T12:00:00',
+  chat_messages: [
+    { ...message('m1', 'human', 'Summarize the changelog', '2024-02-10T12:00:00'), files: [{ file_name: 'CHANGELOG.md', file_type: 'text/markdown', file_size: 120 }] },
+    {
+      ...message('m2', 'assistant', 'Here is a summary of version 2.0', '2024-02-12T12:00:00'),
+      chat_feedback: { uuid: 'f1', type: 'bad', created_at: '2024-02-12T12:05:00' }
+    }
+  ]
+};
+
+const chatGPTConversation: ChatGPTConversation = {
+  id: 'g1',
+  title: 'Recipes',
+  create_time: 1700000000,
+  update_time: 1700000100,
+  mapping: {
+    root: { id: 'root', message: null, parent: null, children: ['u1'] },
+    u1: {
+      id: 'u1',
+      message: {
+        id: 'u1',
+        author: { role: 'user' },
+        create_time: 1700000001,
+        content: { content_type: 'text', parts: ['How do I bake bread?'] },
+        status: 'finished_successfully',
+        weight: 1,
+        recipient: 'all'
+      },
+      parent: 'root',
+      children: []
+    }
+  }
+};
+
+describe('SearchQuery.parse', () => {
+  it('returns null for an empty query', () => {
+    expect(SearchQuery.parse('   ')).toBeNull();
+  });
+
+  it('joins terms with AND and gives OR the lower precedence', () => {
+    expect(SearchQuery.parse('a b OR c')).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'and',
+          children: [{ type: 'text', value: 'a', phrase: false }, { type: 'text', value: 'b', phrase: false }]
+        },
+        { type: 'text', value: 'c', phrase: false }
+      ]
+    });
+  });
+
+  it('reads phrases, negation and groups', () => {
+    expect(SearchQuery.parse('-"exact phrase" (x)')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'not', child: { type: 'text', value: 'exact phrase', phrase: true } },
+        { type: 'text', value: 'x', phrase: false }
+      ]
+    });
+  });
+
+  it('reads fields and sender aliases', () => {
+    expect(SearchQuery.parse('sender:claude')).toEqual({ type: 'sender', value: 'assistant' });
+    expect(SearchQuery.parse('has:Attachment')).toEqual({ type: 'has', value: 'attachment' });
+    expect(SearchQuery.parse('title:"release notes"')).toEqual({ type: 'title', value: 'release notes' });
+    expect(SearchQuery.parse('after:2024-02')).toEqual({ type: 'date', op: 'after', time: new Date(2024, 1, 1).getTime() });
+  });
+
+  it('reads regex literals but leaves paths as words', () => {
+    const regex = SearchQuery.parse('/v\\d+/');
+    expect(regex?.type === 'regex' && regex.pattern.flags).toBe('i');
+    expect(SearchQuery.parse('/usr/bin')).toEqual({ type: 'text', value: '/usr/bin', phrase: false });
+  });
+
+  it('reports syntax errors', () => {
+    expect(() => SearchQuery.parse('"open')).toThrow(/Unterminated/);
+    expect(() => SearchQuery.parse('(a')).toThrow(/Missing closing/);
+    expect(() => SearchQuery.parse('a)')).toThrow(/Unexpected closing/);
+    expect(() => SearchQuery.parse('a OR')).toThrow(/Unexpected end/);
+    expect(() => SearchQuery.parse('sender:robot')).toThrow(/Unknown sender/);
+    expect(() => SearchQuery.parse('before:someday')).toThrow(/Invalid date/);
+    expect(() => SearchQuery.parse('/(/')).toThrow(/Invalid regular expression/);
+  });
+});
+
+describe('SearchQuery.matchesConversation', () => {
+  const matches = (query: string, target: ClaudeConversation | ChatGPTConversation = conversation) =>
+    SearchQuery.matchesConversation(SearchQuery.parse(query), target);
+
+  it('matches text in the title, the ID or any message', () => {
+    expect(matches('release')).toBe(true);
+    expect(matches('c1')).toBe(true);
+    expect(matches('CHANGELOG version')).toBe(true);
+    expect(matches('changelog -summary')).toBe(false);
+    expect(matches('missing OR version')).toBe(true);
+  });
+
+  it('applies sender, has, title and date filters', () => {
+    expect(matches('has:attachment has:feedback sender:human')).toBe(true);
+    expect(matches('title:changelog')).toBe(false);
+    expect(matches('before:2024-02-11')).toBe(true);
+    expect(matches('after:2024-02-11')).toBe(true);
+    expect(matches('after:2024-02-13')).toBe(false);
+  });
+
+  it('reads ChatGPT conversations from their current thread', () => {
+    expect(matches('bread sender:user', chatGPTConversation)).toBe(true);
+    expect(matches('sender:assistant', chatGPTConversation)).toBe(false);
+  });
+
+  it('matches everything without a query', () => {
+    expect(SearchQuery.matchesConversation(null, conversation)).toBe(true);
+  });
+});
+
+describe('SearchQuery.matchesMessage', () => {
+  it('tests each message on its own', () => {
+    const node = SearchQuery.parse('/summar(y|ize)/ -has:feedback');
+    const [first, second] = conversation.chat_messages;
+    expect(SearchQuery.matchesMessage(node, first)).toBe(true);
+    expect(SearchQuery.matchesMessage(node, second)).toBe(false);
+  });
+
+  it('matches title: against the conversation title', () => {
+    expect(SearchQuery.matchesMessage(SearchQuery.parse('title:draft'), conversation.chat_messages[0], conversation.name)).toBe(true);
+  });
+});
+
+describe('SearchQuery.matcher', () => {
+  it('returns merged ranges for text and regex terms that are not negated', () => {
+    const matcher = SearchQuery.matcher(SearchQuery.parse('note /notes?/ -release'));
+    expect(matcher?.('Release notes and a note')).toEqual([[8, 13], [20, 24]]);
+  });
+
+  it('returns null when there is nothing to highlight', () => {
+    expect(SearchQuery.matcher(SearchQuery.parse('sender:human -draft'))).toBeNull();
+    expect(SearchQuery.matcher(null)).toBeNull();
+  });
+});
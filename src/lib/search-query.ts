@@ -0,0 +1,418 @@
+import { DataParser } from './parser';
+import type { SearchSender } from './search-index';
+import type { ClaudeConversation, ClaudeChatMessage, ChatGPTConversation, ChatGPTMessage } from '@/types/data';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string; phrase: boolean }
+  | { type: 'regex'; pattern: RegExp }
+  | { type: 'sender'; value: SearchSender }
+  | { type: 'has'; value: 'attachment' | 'feedback' }
+  | { type: 'date'; op: 'before' | 'after'; time: number }
+  | { type: 'title'; value: string };
+
+// Normalized view of a message; built once per message and cached
+export interface QueryMessage {
+  id: string;
+  text: string;
+  sender: SearchSender;
+  hasAttachment: boolean;
+  hasFeedback: boolean;
+  timestamp?: number;
+}
+
+export interface QueryConversation {
+  id: string;
+  title: string;
+  createdAt?: number;
+  updatedAt?: number;
+  messages: QueryMessage[];
+}
+
+// Start/end offsets of each match, sorted and non-overlapping
+export type TextMatcher = (text: string) => [number, number][];
+
+type Token =
+  | { kind: 'open' | 'close' | 'and' | 'or' | 'not' }
+  | { kind: 'term'; node: QueryNode };
+
+const SENDER_ALIASES: Record<string, SearchSender> = {
+  human: 'human',
+  user: 'human',
+  assistant: 'assistant',
+  claude: 'assistant',
+  chatgpt: 'assistant',
+  ai: 'assistant',
+  tool: 'tool',
+  system: 'system'
+};
+
+const HAS_VALUES = ['attachment', 'feedback'] as const;
+const FIELDS = ['sender', 'has', 'before', 'after', 'title'];
+
+const conversationCache = new WeakMap<object, QueryConversation>();
+const messageCache = new WeakMap<object, QueryMessage>();
+
+/**
+ * Search syntax shared by the sidebar, the conversation viewer and the CLI:
+ *
+ *   word "exact phrase" /regex/i sender:human has:attachment has:feedback
+ *   before:2024-01-01 after:2023-06 title:draft  a OR b  NOT c  -c  (a OR b) c
+ *
+ * Terms separated by spaces must all match. Plain words and phrases are
+ * case-insensitive substring matches; regexes are case-insensitive unless flags
+ * are given.
+ */
+export class SearchQuery {
+  /** Parses a query, returning null for an empty one. Throws on syntax errors. */
+  static parse(input: string): QueryNode | null {
+    const tokens = this.tokenize(input);
+    if (tokens.length === 0) return null;
+
+    let position = 0;
+    const peek = () => tokens[position];
+
+    const parseOr = (): QueryNode => {
+      const children = [parseAnd()];
+      while (peek()?.kind === 'or') {
+        position++;
+        children.push(parseAnd());
+      }
+      return children.length === 1 ? children[0] : { type: 'or', children };
+    };
+
+    const parseAnd = (): QueryNode => {
+      const children = [parseUnary()];
+      while (peek() && peek().kind !== 'or' && peek().kind !== 'close') {
+        if (peek().kind === 'and') position++;
+        children.push(parseUnary());
+      }
+      return children.length === 1 ? children[0] : { type: 'and', children };
+    };
+
+    const parseUnary = (): QueryNode => {
+      const token = tokens[position++];
+      if (!token) throw new Error('Unexpected end of query');
+
+      switch (token.kind) {
+        case 'not':
+          return { type: 'not', child: parseUnary() };
+        case 'open': {
+          const node = parseOr();
+          if (tokens[position++]?.kind !== 'close') throw new Error('Missing closing parenthesis');
+          return node;
+        }
+        case 'term':
+          return token.node;
+        default:
+          throw new Error(`Unexpected ${token.kind.toUpperCase()}`);
+      }
+    };
+
+    const node = parseOr();
+    if (position < tokens.length) throw new Error('Unexpected closing parenthesis');
+    return node;
+  }
+
+  static matchesConversation(node: QueryNode | null, conversation: ClaudeConversation | ChatGPTConversation): boolean {
+    if (!node) return true;
+    return this.evaluateConversation(node, this.fromConversation(conversation));
+  }
+
+  static matchesMessage(
+    node: QueryNode | null,
+    message: ClaudeChatMessage | ChatGPTMessage,
+    conversationTitle = ''
+  ): boolean {
+    if (!node) return true;
+    return this.evaluateMessage(node, this.fromMessage(message), conversationTitle);
+  }
+
+  /** Finds the text and regex terms that are not negated, for highlighting. */
+  static matcher(node: QueryNode | null): TextMatcher | null {
+    const needles: string[] = [];
+    const patterns: RegExp[] = [];
+    const collect = (current: QueryNode) => {
+      if (current.type === 'and' || current.type === 'or') current.children.forEach(collect);
+      else if (current.type === 'text') needles.push(current.value.toLowerCase());
+      else if (current.type === 'regex') patterns.push(current.pattern);
+    };
+    if (node) collect(node);
+    if (needles.length === 0 && patterns.length === 0) return null;
+
+    return (text: string) => {
+      const ranges: [number, number][] = [];
+      const lower = text.toLowerCase();
+      for (const needle of needles) {
+        for (let index = lower.indexOf(needle); index !== -1; index = lower.indexOf(needle, index + needle.length)) {
+          ranges.push([index, index + needle.length]);
+        }
+      }
+      for (const pattern of patterns) {
+        const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+        for (const match of text.matchAll(global)) {
+          if (match[0].length > 0) ranges.push([match.index!, match.index! + match[0].length]);
+        }
+      }
+      return this.mergeRanges(ranges);
+    };
+  }
+
+  static fromConversation(conversation: ClaudeConversation | ChatGPTConversation): QueryConversation {
+    const cached = conversationCache.get(conversation);
+    if (cached) return cached;
+
+    const normalized: QueryConversation = 'chat_messages' in conversation
+      ? {
+          id: conversation.uuid,
+          title: conversation.name,
+          createdAt: this.parseTime(conversation.created_at),
+          updatedAt: this.parseTime(conversation.updated_at),
+          messages: conversation.chat_messages.map(message => this.fromMessage(message))
+        }
+      : {
+          id: conversation.id,
+          title: conversation.title,
+          createdAt: conversation.create_time ? conversation.create_time * 1000 : undefined,
+          updatedAt: conversation.update_time ? conversation.update_time * 1000 : undefined,
+          messages: DataParser.extractChatGPTThread(conversation).map(entry => this.fromMessage(entry.message))
+        };
+
+    conversationCache.set(conversation, normalized);
+    return normalized;
+  }
+
+  static fromMessage(message: ClaudeChatMessage | ChatGPTMessage): QueryMessage {
+    const cached = messageCache.get(message);
+    if (cached) return cached;
+
+    let normalized: QueryMessage;
+    if ('uuid' in message) {
+      normalized = {
+        id: message.uuid,
+        text: DataParser.getClaudeMessageTextParts(message).map(part => part.text).join('\n'),
+        sender: DataParser.getMessageSender(message),
+        hasAttachment: (message.attachments?.length ?? 0) + (message.files?.length ?? 0) > 0,
+        hasFeedback: !!message.chat_feedback,
+        timestamp: this.parseTime(message.created_at)
+      };
+    } else {
+      normalized = {
+        id: message.id,
+        text: DataParser.getChatGPTMessageText(message),
+        sender: DataParser.getMessageSender(message),
+        hasAttachment: message.content?.content_type === 'multimodal_text' &&
+          message.content.parts.some(part => typeof part !== 'string'),
+        hasFeedback: false,
+        timestamp: message.create_time ? message.create_time * 1000 : undefined
+      };
+    }
+
+    messageCache.set(message, normalized);
+    return normalized;
+  }
+
+  /**
+   * Conversation-level semantics: text terms match the title, the ID or any message;
+   * `sender:` and `has:` match if any message qualifies; `before:` compares the
+   * creation time and `after:` the last update.
+   */
+  private static evaluateConversation(node: QueryNode, conversation: QueryConversation): boolean {
+    switch (node.type) {
+      case 'and':
+        return node.children.every(child => this.evaluateConversation(child, conversation));
+      case 'or':
+        return node.children.some(child => this.evaluateConversation(child, conversation));
+      case 'not':
+        return !this.evaluateConversation(node.child, conversation);
+      case 'text':
+      case 'regex':
+        return this.matchesText(node, conversation.title) ||
+          this.matchesText(node, conversation.id) ||
+          conversation.messages.some(message => this.matchesText(node, message.text));
+      case 'title':
+        return conversation.title.toLowerCase().includes(node.value.toLowerCase());
+      case 'sender':
+        return conversation.messages.some(message => message.sender === node.value);
+      case 'has':
+        return conversation.messages.some(message =>
+          node.value === 'attachment' ? message.hasAttachment : message.hasFeedback
+        );
+      case 'date': {
+        const time = node.op === 'before' ? conversation.createdAt : conversation.updatedAt;
+        return time !== undefined && (node.op === 'before' ? time < node.time : time >= node.time);
+      }
+    }
+  }
+
+  private static evaluateMessage(node: QueryNode, message: QueryMessage, conversationTitle: string): boolean {
+    switch (node.type) {
+      case 'and':
+        return node.children.every(child => this.evaluateMessage(child, message, conversationTitle));
+      case 'or':
+        return node.children.some(child => this.evaluateMessage(child, message, conversationTitle));
+      case 'not':
+        return !this.evaluateMessage(node.child, message, conversationTitle);
+      case 'text':
+      case 'regex':
+        return this.matchesText(node, message.text) || this.matchesText(node, message.id);
+      case 'title':
+        return conversationTitle.toLowerCase().includes(node.value.toLowerCase());
+      case 'sender':
+        return message.sender === node.value;
+      case 'has':
+        return node.value === 'attachment' ? message.hasAttachment : message.hasFeedback;
+      case 'date':
+        return message.timestamp !== undefined &&
+          (node.op === 'before' ? message.timestamp < node.time : message.timestamp >= node.time);
+    }
+  }
+
+  private static matchesText(node: { type: 'text'; value: string } | { type: 'regex'; pattern: RegExp }, text: string): boolean {
+    if (node.type === 'regex') {
+      node.pattern.lastIndex = 0;
+      return node.pattern.test(text);
+    }
+    return text.toLowerCase().includes(node.value.toLowerCase());
+  }
+
+  private static tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const readQuoted = (): string => {
+      let value = '';
+      i++; // opening quote
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) throw new Error('Unterminated quoted phrase');
+      i++; // closing quote
+      return value;
+    };
+
+    const readWord = (): string => {
+      const start = i;
+      while (i < input.length && !/[\s()]/.test(input[i])) i++;
+      return input.slice(start, i);
+    };
+
+    while (i < input.length) {
+      const char = input[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === '(' || char === ')') {
+        tokens.push({ kind: char === '(' ? 'open' : 'close' });
+        i++;
+      } else if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+        tokens.push({ kind: 'not' });
+        i++;
+      } else if (char === '"') {
+        tokens.push({ kind: 'term', node: { type: 'text', value: readQuoted(), phrase: true } });
+      } else if (char === '/' && this.regexEnd(input, i) !== -1) {
+        const end = this.regexEnd(input, i);
+        tokens.push({ kind: 'term', node: this.regexNode(input.slice(i, end)) });
+        i = end;
+      } else {
+        const fieldMatch = /^([a-z]+):/i.exec(input.slice(i));
+        if (fieldMatch && FIELDS.includes(fieldMatch[1].toLowerCase())) {
+          i += fieldMatch[0].length;
+          const value = input[i] === '"' ? readQuoted() : readWord();
+          tokens.push({ kind: 'term', node: this.fieldNode(fieldMatch[1].toLowerCase(), value) });
+          continue;
+        }
+
+        const word = readWord();
+        if (word === 'AND' || word === 'OR' || word === 'NOT') {
+          tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not' });
+        } else {
+          tokens.push({ kind: 'term', node: { type: 'text', value: word, phrase: false } });
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * End of a `/source/flags` literal starting at `start`, or -1 if the text there is
+   * not one (so paths like /usr/bin stay plain words).
+   */
+  private static regexEnd(input: string, start: number): number {
+    let i = start + 1;
+    while (i < input.length && input[i] !== '/') {
+      if (input[i] === '\\') i++;
+      i++;
+    }
+    if (i >= input.length || i === start + 1) return -1;
+    i++; // closing slash
+    while (i < input.length && /[dimsuy]/.test(input[i])) i++;
+    return i === input.length || /[\s()]/.test(input[i]) ? i : -1;
+  }
+
+  private static regexNode(literal: string): QueryNode {
+    const closing = literal.lastIndexOf('/');
+    const source = literal.slice(1, closing);
+    const flags = literal.slice(closing + 1) || 'i';
+    try {
+      return { type: 'regex', pattern: new RegExp(source, flags) };
+    } catch (error) {
+      throw new Error(`Invalid regular expression /${source}/: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static fieldNode(field: string, value: string): QueryNode {
+    if (!value) throw new Error(`${field}: needs a value`);
+
+    switch (field) {
+      case 'sender': {
+        const sender = SENDER_ALIASES[value.toLowerCase()];
+        if (!sender) throw new Error(`Unknown sender "${value}" (use human, assistant, tool or system)`);
+        return { type: 'sender', value: sender };
+      }
+      case 'has': {
+        const hasValue = HAS_VALUES.find(option => option === value.toLowerCase());
+        if (!hasValue) throw new Error(`Unknown has: value "${value}" (use attachment or feedback)`);
+        return { type: 'has', value: hasValue };
+      }
+      case 'before':
+      case 'after':
+        return { type: 'date', op: field, time: this.parseDate(value) };
+      default:
+        return { type: 'title', value };
+    }
+  }
+
+  // YYYY, YYYY-MM and YYYY-MM-DD are read as local midnight; anything else goes to Date.parse
+  private static parseDate(value: string): number {
+    const match = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(value);
+    const time = match
+      ? new Date(Number(match[1]), Number(match[2] ?? 1) - 1, Number(match[3] ?? 1)).getTime()
+      : Date.parse(value);
+    if (Number.isNaN(time)) throw new Error(`Invalid date "${value}"`);
+    return time;
+  }
+
+  private static parseTime(value: string | undefined): number | undefined {
+    const time = value ? Date.parse(value) : NaN;
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  private static mergeRanges(ranges: [number, number][]): [number, number][] {
+    const sorted = ranges.sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+    const merged: [number, number][] = [];
+    for (const range of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+    }
+    return merged;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { JsonArrayStreamParser } from './stream-parser';
+
+function parseAll(...chunks: string[]): unknown[] {
+  const items: unknown[] = [];
+  const parser = new JsonArrayStreamParser(item => items.push(item));
+  chunks.forEach(chunk => parser.push(chunk));
+  parser.end();
+  return items;
+}
+
+describe('JsonArrayStreamParser', () => {
+  it('emits each element of the top-level array', () => {
+    expect(parseAll('[1, "two", {"three": [3]}, [4], null]')).toEqual([1, 'two', { three: [3] }, [4], null]);
+  });
+
+  it('parses empty arrays', () => {
+    expect(parseAll('[]')).toEqual([]);
+    expect(parseAll(' [ ] ')).toEqual([]);
+  });
+
+  it('handles elements split across chunks, including inside strings', () => {
+    expect(parseAll('[{"a": "x,', ']\\"y"}', ', {"b"', ': 2}]')).toEqual([{ a: 'x,]"y' }, { b: 2 }]);
+  });
+
+  it('decodes multi-byte characters split across byte chunks', () => {
+    const bytes = new TextEncoder().encode('["日本語"]');
+    const items: unknown[] = [];
+    const parser = new JsonArrayStreamParser(item => items.push(item));
+    parser.push(bytes.slice(0, 4));
+    parser.push(bytes.slice(4));
+    parser.end();
+    expect(items).toEqual(['日本語']);
+  });
+
+  it('rejects missing and trailing elements', () => {
+    expect(() => parseAll('[1,,2]')).toThrow();
+    expect(() => parseAll('[1,2,]')).toThrow();
+    expect(() => parseAll('[,1]')).toThrow();
+  });
+
+  it('rejects elements without a separator', () => {
+    expect(() => parseAll('[{}{}]')).toThrow(/Expected , or \]/);
+  });
+
+  it('rejects an unclosed array', () => {
+    expect(() => parseAll('[1, 2')).toThrow(/not closed/);
+  });
+
+  it('recognizes array starts after whitespace and a byte order mark', () => {
+    expect(JsonArrayStreamParser.isArrayStart('\uFEFF  \n[{')).toBe(true);
+    expect(JsonArrayStreamParser.isArrayStart('{"a": []}')).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Incremental parser for a top-level JSON array. Bytes are pushed in chunks and each
+ * element is handed to `onItem` as soon as its closing bracket arrives, so only the
+ * element currently being read is ever held as text. This keeps exports far larger
+ * than the engine's maximum string length parseable.
+ */
+export class JsonArrayStreamParser {
+  // `first` follows the opening bracket, `value` a comma and `separator` a complete element
+  private state: 'start' | 'first' | 'value' | 'separator' | 'element' | 'done' = 'start';
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private pending: string[] = [];
+  private count = 0;
+  private readonly decoder = new TextDecoder();
+
+  constructor(private readonly onItem: (item: unknown, index: number) => void) {}
+
+  /** True if the text starts with `[`, ignoring whitespace and a byte order mark. */
+  static isArrayStart(head: string): boolean {
+    return /^\uFEFF?\s*\[/.test(head);
+  }
+
+  get itemCount(): number {
+    return this.count;
+  }
+
+  push(chunk: Uint8Array | string): void {
+    const text = typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+    this.scan(text);
+  }
+
+  end(): void {
+    this.scan(this.decoder.decode());
+    if (this.state !== 'done') {
+      throw new Error('Unexpected end of JSON input: the top-level array is not closed');
+    }
+  }
+
+  private scan(text: string): void {
+    let elementStart = this.state === 'element' ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.state === 'element') {
+        if (this.inString) {
+          if (this.escaped) {
+            this.escaped = false;
+          } else if (char === '\\') {
+            this.escaped = true;
+          } else if (char === '"') {
+            this.inString = false;
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          this.inString = true;
+        } else if (char === '{' || char === '[') {
+          this.depth++;
+        } else if (char === '}' || char === ']') {
+          if (this.depth === 0) {
+            // Closing bracket of the array itself, ending a primitive element
+            this.finishElement(text.slice(elementStart, i));
+            this.state = 'done';
+          } else if (--this.depth === 0) {
+            this.finishElement(text.slice(elementStart, i + 1));
+            this.state = 'separator';
+          }
+        } else if (char === ',' && this.depth === 0) {
+          this.finishElement(text.slice(elementStart, i));
+          this.state = 'value';
+        }
+        continue;
+      }
+
+      if (this.isWhitespace(char)) continue;
+
+      if (this.state === 'start') {
+        if (char !== '[' && char !== '\uFEFF') {
+          throw new Error('Expected a top-level JSON array');
+        }
+        if (char === '[') this.state = 'first';
+      } else if (this.state === 'separator') {
+        if (char === ',') {
+          this.state = 'value';
+        } else if (char === ']') {
+          this.state = 'done';
+        } else {
+          throw new Error(`Expected , or ] after item ${this.count} but found ${char}`);
+        }
+      } else if (this.state === 'first' || this.state === 'value') {
+        // Like JSON.parse, reject empty elements ([1,,2]) and trailing commas ([1,])
+        if (char === ']' && this.state === 'first') {
+          this.state = 'done';
+        } else if (char === ',' || char === ']') {
+          throw new Error(`Unexpected ${char}: item ${this.count + 1} is missing`);
+        } else {
+          this.state = 'element';
+          elementStart = i;
+          i--; // Re-read the first character in element mode
+        }
+      } else {
+        throw new Error(`Unexpected character after the top-level array: ${char}`);
+      }
+    }
+
+    if (this.state === 'element') {
+      this.pending.push(text.slice(elementStart));
+    }
+  }
+
+  private finishElement(tail: string): void {
+    this.pending.push(tail);
+    const source = this.pending.join('');
+    this.pending = [];
+
+    try {
+      this.onItem(JSON.parse(source), this.count);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(`item ${this.count + 1}: ${error.message}`);
+      }
+      throw error;
+    }
+    this.count++;
+  }
+
+  private isWhitespace(char: string): boolean {
+    return char === ' ' || char === '\n' || char === '\r' || char === '\t';
+  }
+}
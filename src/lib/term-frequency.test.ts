@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { TermFrequency } from './term-frequency';
+import type { ClaudeChatMessage, ClaudeConversation } from '@/types/data';
+
+const message = (uuid: string, sender: ClaudeChatMessage['sender'], text: string): ClaudeChatMessage => ({
+  uuid,
+  text,
+  sender,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z'
+});
+
+const conversation = (uuid: string, messages: ClaudeChatMessage[]): ClaudeConversation => ({
+  uuid,
+  name: uuid,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  chat_messages: messages
+});
+
+const count = (conversations: ClaudeConversation[], options: ConstructorParameters<typeof TermFrequency>[0]) => {
+  const frequency = new TermFrequency(options);
+  conversations.forEach(item => frequency.add(item));
+  return frequency;
+};
+
+describe('TermFrequency.tokenize', () => {
+  it('drops English stopwords, contractions, numbers and one-letter words', () => {
+    expect(TermFrequency.tokenize("It's the search index, and the index doesn't rank 42 things.")).toEqual([
+      'search', 'index', 'index', 'rank', 'things'
+    ]);
+  });
+
+  it('segments Japanese and drops particles and single characters', () => {
+    expect(TermFrequency.tokenize('東京タワーに行きました。東京駅も見ました。')).toEqual(['東京', 'タワー', '行き', '東京駅']);
+    expect(TermFrequency.tokenize('Reactの状態管理について')).toEqual(['react', '状態', '管理']);
+  });
+
+  it('skips code blocks and URLs', () => {
+    expect(TermFrequency.tokenize('See https://example.com/docs\n```\nconst value = 1;\n```\nthen deploy')).toEqual(['see', 'deploy']);
+  });
+});
+
+describe('TermFrequency', () => {
+  const conversations = [
+    conversation('c1', [
+      message('m1', 'human', 'How do I tune the search index? The search index is slow.'),
+      message('m2', 'assistant', 'Rebuild the search index nightly.')
+    ]),
+    conversation('c2', [message('m3', 'human', '東京タワーに行きました。東京タワーは高い。')]),
+    conversation('c3', [message('m4', 'human', 'Search works now.')])
+  ];
+
+  it('counts terms and the conversations they appear in, most frequent first', () => {
+    const frequency = count(conversations, { n: 1, sender: 'all' });
+    expect(frequency.analyzedConversations).toBe(3);
+    const top = frequency.top(10);
+    expect(top.slice(0, 2)).toEqual([
+      { term: 'search', count: 4, conversations: 2 },
+      { term: 'index', count: 3, conversations: 1 }
+    ]);
+    expect(top.find(entry => entry.term === 'タワー')).toEqual({ term: 'タワー', count: 2, conversations: 1 });
+  });
+
+  it('limits counting to one sender', () => {
+    const terms = count(conversations, { n: 1, sender: 'assistant' }).top(10).map(entry => entry.term);
+    expect(terms).toEqual(['index', 'nightly', 'rebuild', 'search']);
+  });
+
+  it('builds n-grams within clauses, joining Japanese tokens without spaces', () => {
+    const top = count(conversations, { n: 2, sender: 'all' }).top(2);
+    expect(top).toEqual([
+      { term: 'search index', count: 3, conversations: 1 },
+      { term: '東京タワー', count: 2, conversations: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import TinySegmenter from 'tiny-segmenter';
+import { DataParser } from './parser';
+import type { ClaudeConversation, ChatGPTConversation } from '@/types/data';
+
+export type NgramSize = 1 | 2 | 3;
+
+// Tool output and system prompts would drown out what people actually wrote
+export type TermSender = 'all' | 'human' | 'assistant';
+
+export interface TermOptions {
+  n: NgramSize;
+  sender: TermSender;
+}
+
+export interface TermEntry {
+  term: string;
+  count: number;
+  // Conversations the term appears in
+  conversations: number;
+}
+
+interface Token {
+  text: string;
+  cjk: boolean;
+  // Stopwords and fragments are skipped as terms, and n-grams may not start or end with them
+  stop: boolean;
+}
+
+const ENGLISH_STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'don', 'down', 'during',
+  'each', 'etc', 'few', 'for', 'from', 'further', 'get', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here',
+  'hers', 'herself', 'him', 'himself', 'his', 'how', 'however',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'let', 'like', 'll', 'may', 'me', 'might', 'more',
+  'most', 'much', 'must', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or',
+  'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own', 're', 's', 'same', 'she', 'should', 'so', 'some', 'such',
+  't', 'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this',
+  'those', 'through', 'to', 'too', 'under', 'until', 'up', 'us', 've', 'very', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself',
+  'yourselves',
+  // Stems of contractions such as doesn't and won't
+  'aren', 'couldn', 'didn', 'doesn', 'hadn', 'hasn', 'haven', 'isn', 'shouldn', 'wasn', 'weren', 'won', 'wouldn'
+]);
+
+// Runs of letters and digits; CJK runs inside them are handed to the segmenter
+const WORD_PATTERN = /[\p{L}\p{N}_'’ー々]+/gu;
+const CJK_RUN = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]+)/u;
+// Particles, auxiliaries and inflections: the segmenter returns them as pure hiragana
+const HIRAGANA_ONLY = /^[\p{Script=Hiragana}ー]+$/u;
+const NUMBER_ONLY = /^[\p{N}_]+$/u;
+// Terms never span sentences or clauses
+const CLAUSE_BREAK = /[.!?;:,()[\]{}"“”<>|。、．，！？；：（）「」『』【】\n]+/;
+const CODE_BLOCK = /```[\s\S]*?```/g;
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+let segmenter: TinySegmenter | null = null;
+
+/**
+ * Term and n-gram counts over a selection of conversations. Japanese is split with the
+ * bundled TinySegmenter model (no dictionary download), everything else on word
+ * boundaries with English stopwords removed. Conversations are added one at a time so
+ * large selections can be counted in slices.
+ */
+export class TermFrequency {
+  private options: TermOptions;
+  private counts = new Map<string, { count: number; conversations: number; lastConversation: number }>();
+  private conversationCount = 0;
+
+  constructor(options: TermOptions) {
+    this.options = options;
+  }
+
+  get analyzedConversations(): number {
+    return this.conversationCount;
+  }
+
+  add(conversation: ClaudeConversation | ChatGPTConversation): void {
+    const conversationIndex = this.conversationCount++;
+
+    for (const text of this.messageTexts(conversation)) {
+      for (const clause of TermFrequency.clauses(text)) {
+        for (const term of TermFrequency.ngrams(clause, this.options.n)) {
+          let entry = this.counts.get(term);
+          if (!entry) {
+            entry = { count: 0, conversations: 0, lastConversation: -1 };
+            this.counts.set(term, entry);
+          }
+          entry.count++;
+          if (entry.lastConversation !== conversationIndex) {
+            entry.conversations++;
+            entry.lastConversation = conversationIndex;
+          }
+        }
+      }
+    }
+  }
+
+  /** Most frequent terms first; ties go to the term found in more conversations. */
+  top(limit: number): TermEntry[] {
+    return [...this.counts.entries()]
+      .map(([term, { count, conversations }]) => ({ term, count, conversations }))
+      .sort((a, b) => b.count - a.count || b.conversations - a.conversations || a.term.localeCompare(b.term))
+      .slice(0, limit);
+  }
+
+  /** Single terms of `text` with stopwords and fragments removed, in order. */
+  static tokenize(text: string): string[] {
+    return this.clauses(text).flatMap(clause => clause.filter(token => !token.stop).map(token => token.text));
+  }
+
+  private messageTexts(conversation: ClaudeConversation | ChatGPTConversation): string[] {
+    const { sender } = this.options;
+    const messages = 'chat_messages' in conversation
+      ? conversation.chat_messages
+      : DataParser.extractChatGPTThread(conversation).map(entry => entry.message);
+
+    return messages
+      .filter(message => {
+        const messageSender = DataParser.getMessageSender(message);
+        return sender === 'all' ? messageSender === 'human' || messageSender === 'assistant' : messageSender === sender;
+      })
+      .map(message => 'uuid' in message ? DataParser.getClaudeMessageText(message) : DataParser.getChatGPTMessageText(message));
+  }
+
+  private static clauses(text: string): Token[][] {
+    return text
+      .replace(CODE_BLOCK, '\n')
+      .replace(URL_PATTERN, '\n')
+      .split(CLAUSE_BREAK)
+      .map(clause => (clause.match(WORD_PATTERN) ?? []).flatMap(word => this.splitWord(word)))
+      .filter(tokens => tokens.length > 0);
+  }
+
+  private static splitWord(word: string): Token[] {
+    return word.split(CJK_RUN).filter(Boolean).flatMap((part): Token[] => {
+      if (CJK_RUN.test(part)) {
+        segmenter ??= new TinySegmenter();
+        return segmenter.segment(part).map(segment => ({
+          text: segment,
+          cjk: true,
+          stop: segment.length < 2 || HIRAGANA_ONLY.test(segment)
+        }));
+      }
+
+      const text = part.toLowerCase().replace(/’/g, "'").replace(/^'+|'+$/g, '');
+      if (!text) return [];
+      const stem = text.replace(/'.*$/, '');
+      return [{ text, cjk: false, stop: text.length < 2 || NUMBER_ONLY.test(text) || ENGLISH_STOPWORDS.has(stem) }];
+    });
+  }
+
+  private static ngrams(tokens: Token[], n: NgramSize): string[] {
+    const terms: string[] = [];
+    for (let start = 0; start + n <= tokens.length; start++) {
+      const window = tokens.slice(start, start + n);
+      if (window[0].stop || window[n - 1].stop) continue;
+      // Japanese is written without spaces, so adjacent Japanese tokens are joined directly
+      terms.push(window.reduce((term, token, index) => (
+        index === 0 ? token.text : term + (token.cjk && window[index - 1].cjk ? '' : ' ') + token.text
+      ), ''));
+    }
+    return terms;
+  }
+}
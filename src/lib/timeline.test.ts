@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { Timeline } from './timeline';
+import type { ClaudeChatMessage, ClaudeConversation } from '@/types/data';
+
+// Local times, so day and hour cells do not depend on the machine's time zone
+const message = (uuid: string, sender: ClaudeChatMessage['sender'], created_at: string): ClaudeChatMessage => ({
+  uuid,
+  text: uuid,
+  sender,
+  created_at,
+  updated_at: created_at
+});
+
+const conversations: ClaudeConversation[] = [
+  {
+    uuid: 'c1',
+    name: 'Tuesday chat',
+    created_at: '2024-03-05T14:00:00',
+    updated_at: '2024-03-05T14:10:00',
+    chat_messages: [
+      message('m1', 'human', '2024-03-05T14:00:00'),
+      message('m2', 'assistant', '2024-03-05T14:00:03'),
+      message('m3', 'human', '2024-03-05T14:09:00'),
+      message('m4', 'human', '2024-03-05T14:10:00'),
+      message('m5', 'assistant', '2024-03-05T14:10:20')
+    ]
+  },
+  {
+    uuid: 'c2',
+    name: 'April chat',
+    created_at: '2024-04-01T09:00:00',
+    updated_at: '2024-04-01T09:00:00',
+    chat_messages: [message('m6', 'human', '2024-04-01T09:00:00'), message('m7', 'human', 'not a date')]
+  }
+];
+
+describe('Timeline.build', () => {
+  const stats = Timeline.build(conversations);
+
+  it('counts messages per day and per weekday hour', () => {
+    expect(stats.conversationCount).toBe(2);
+    expect(stats.messageCount).toBe(6);
+    expect([...stats.days.keys()]).toEqual(['2024-03-05', '2024-04-01']);
+    expect(stats.days.get('2024-03-05')?.count).toBe(5);
+    expect(stats.hourOfWeek[2][14].count).toBe(5);
+    expect([...stats.hourOfWeek[1][9].conversationIds]).toEqual(['c2']);
+  });
+
+  it('counts conversations per month of creation', () => {
+    expect([...stats.months.entries()].map(([month, cell]) => [month, cell.count])).toEqual([['2024-03', 1], ['2024-04', 1]]);
+  });
+
+  it('buckets reply times, measured from the last of several user messages', () => {
+    expect(stats.latency.filter(bucket => bucket.count > 0).map(bucket => [bucket.label, bucket.count])).toEqual([
+      ['< 5s', 1],
+      ['15–30s', 1]
+    ]);
+    expect(stats.medianLatency).toBe(20 * 1000);
+  });
+});
+
+describe('Timeline.slice', () => {
+  const stats = Timeline.build(conversations);
+
+  it('resolves each kind of chart cell', () => {
+    expect(Timeline.slice(stats, 'month:2024-04')).toEqual({ label: 'Started in 2024-04', cell: stats.months.get('2024-04') });
+    expect(Timeline.slice(stats, 'hour:2-14')?.label).toBe('Messages on Tue 14:00–15:00');
+    expect(Timeline.slice(stats, 'latency:2')?.label).toBe('Reply time 15–30s');
+    expect(Timeline.slice(stats, 'day:2024-03-05')?.cell.count).toBe(5);
+  });
+
+  it('returns null for unknown or empty slices', () => {
+    expect(Timeline.slice(stats, 'day:2023-01-01')).toBeNull();
+    expect(Timeline.slice(stats, 'hour:9-0')).toBeNull();
+    expect(Timeline.slice(stats, 'latency:99')).toBeNull();
+    expect(Timeline.slice(stats, 'week:1')).toBeNull();
+  });
+});
@@ -0,0 +1,212 @@
+import { DataParser } from './parser';
+import type { ClaudeConversation, ClaudeChatMessage, ChatGPTConversation, ChatGPTMessage } from '@/types/data';
+
+export type TurnRole = 'human' | 'assistant' | 'tool' | 'system';
+
+export interface TimedMessage {
+  id: string;
+  role: TurnRole;
+  // Milliseconds since the epoch
+  time: number;
+}
+
+// One cell of a chart together with the conversations behind it
+export interface ActivityCell {
+  count: number;
+  conversationIds: Set<string>;
+}
+
+export function emptyCell(): ActivityCell {
+  return { count: 0, conversationIds: new Set() };
+}
+
+export function addToCell(cell: ActivityCell, conversationId: string): void {
+  cell.count++;
+  cell.conversationIds.add(conversationId);
+}
+
+export interface LatencyBucket extends ActivityCell {
+  label: string;
+  // Lower bound in milliseconds (inclusive); the upper bound is the next bucket's
+  min: number;
+}
+
+export interface TimelineStats {
+  conversationCount: number;
+  messageCount: number;
+  // Messages per local day, keyed YYYY-MM-DD
+  days: Map<string, ActivityCell>;
+  // Messages per local weekday (0 = Sunday) and hour
+  hourOfWeek: ActivityCell[][];
+  // Conversations per month of creation, keyed YYYY-MM
+  months: Map<string, ActivityCell>;
+  // Time from a human message to the assistant's reply
+  latency: LatencyBucket[];
+  medianLatency?: number;
+  firstMessage?: number;
+  lastMessage?: number;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+const LATENCY_BUCKETS: { label: string; min: number }[] = [
+  { label: '< 5s', min: 0 },
+  { label: '5–15s', min: 5 * SECOND },
+  { label: '15–30s', min: 15 * SECOND },
+  { label: '30s–1m', min: 30 * SECOND },
+  { label: '1–2m', min: MINUTE },
+  { label: '2–5m', min: 2 * MINUTE },
+  { label: '5–15m', min: 5 * MINUTE },
+  { label: '15m–1h', min: 15 * MINUTE },
+  { label: '1h+', min: HOUR }
+];
+
+/**
+ * Time-axis aggregates over every loaded conversation: when messages were sent, when
+ * conversations were started and how long replies took. Each cell keeps the IDs of the
+ * conversations it counts, so a chart cell can be turned into a sidebar filter.
+ */
+export class Timeline {
+  static build(conversations: (ClaudeConversation | ChatGPTConversation)[]): TimelineStats {
+    const stats: TimelineStats = {
+      conversationCount: conversations.length,
+      messageCount: 0,
+      days: new Map(),
+      hourOfWeek: WEEKDAY_LABELS.map(() => Array.from({ length: 24 }, () => emptyCell())),
+      months: new Map(),
+      latency: LATENCY_BUCKETS.map(bucket => ({ ...bucket, ...emptyCell() }))
+    };
+    const latencies: number[] = [];
+
+    for (const conversation of conversations) {
+      const id = DataParser.getConversationId(conversation);
+
+      const createdAt = this.conversationCreatedAt(conversation);
+      if (createdAt !== undefined) {
+        addToCell(this.cellFor(stats.months, this.monthKey(createdAt)), id);
+      }
+
+      const messages = this.timedMessages(conversation);
+      for (const message of messages) {
+        const date = new Date(message.time);
+        stats.messageCount++;
+        addToCell(this.cellFor(stats.days, this.dayKey(message.time)), id);
+        addToCell(stats.hourOfWeek[date.getDay()][date.getHours()], id);
+        stats.firstMessage = Math.min(stats.firstMessage ?? message.time, message.time);
+        stats.lastMessage = Math.max(stats.lastMessage ?? message.time, message.time);
+      }
+
+      for (const latency of this.responseLatencies(messages)) {
+        latencies.push(latency);
+        addToCell(stats.latency[this.latencyBucket(latency)], id);
+      }
+    }
+
+    if (latencies.length > 0) {
+      latencies.sort((a, b) => a - b);
+      stats.medianLatency = latencies[Math.floor(latencies.length / 2)];
+    }
+    return stats;
+  }
+
+  /** Messages with a usable timestamp, in the order they were sent. */
+  static timedMessages(conversation: ClaudeConversation | ChatGPTConversation): TimedMessage[] {
+    return this.toTimedMessages('chat_messages' in conversation
+      ? conversation.chat_messages
+      : DataParser.extractChatGPTThread(conversation).map(({ message }) => message));
+  }
+
+  static toTimedMessages(messages: (ClaudeChatMessage | ChatGPTMessage)[]): TimedMessage[] {
+    return messages
+      .map((message): TimedMessage => 'uuid' in message
+        ? { id: message.uuid, role: DataParser.getMessageSender(message), time: new Date(message.created_at).getTime() }
+        : {
+            id: message.id,
+            role: DataParser.getMessageSender(message),
+            time: message.create_time ? message.create_time * 1000 : NaN
+          })
+      .filter(message => !isNaN(message.time))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Time from each human message to the next assistant message. When the user sends
+   * several messages in a row, the reply is measured from the last of them.
+   */
+  static responseLatencies(messages: TimedMessage[]): number[] {
+    const latencies: number[] = [];
+    let pendingSince: number | null = null;
+
+    for (const message of messages) {
+      if (message.role === 'human') {
+        pendingSince = message.time;
+      } else if (message.role === 'assistant' && pendingSince !== null) {
+        if (message.time >= pendingSince) latencies.push(message.time - pendingSince);
+        pendingSince = null;
+      }
+    }
+    return latencies;
+  }
+
+  /**
+   * Slices are the URL form of a clicked chart cell: `day:2024-03-05`, `hour:2-14`
+   * (Tuesday 14:00), `month:2024-03` or `latency:3` (a bucket index).
+   */
+  static slice(stats: TimelineStats, key: string): { label: string; cell: ActivityCell } | null {
+    const [kind, value = ''] = key.split(':');
+
+    if (kind === 'day' && stats.days.has(value)) {
+      return { label: `Messages on ${new Date(`${value}T00:00:00`).toLocaleDateString()}`, cell: stats.days.get(value)! };
+    }
+    if (kind === 'month' && stats.months.has(value)) {
+      return { label: `Started in ${value}`, cell: stats.months.get(value)! };
+    }
+    if (kind === 'hour') {
+      const [weekday, hour] = value.split('-').map(Number);
+      const cell = stats.hourOfWeek[weekday]?.[hour];
+      if (cell) return { label: `Messages on ${WEEKDAY_LABELS[weekday]} ${hour}:00–${hour + 1}:00`, cell };
+    }
+    if (kind === 'latency') {
+      const bucket = stats.latency[Number(value)];
+      if (bucket) return { label: `Reply time ${bucket.label}`, cell: bucket };
+    }
+    return null;
+  }
+
+  // Local calendar day, matching the dates the search syntax understands
+  static dayKey(time: number): string {
+    const date = new Date(time);
+    return `${this.monthKey(time)}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  static monthKey(time: number): string {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  private static conversationCreatedAt(conversation: ClaudeConversation | ChatGPTConversation): number | undefined {
+    const time = 'uuid' in conversation
+      ? new Date(conversation.created_at).getTime()
+      : conversation.create_time * 1000;
+    return isNaN(time) ? undefined : time;
+  }
+
+  private static latencyBucket(latency: number): number {
+    let index = 0;
+    while (index + 1 < LATENCY_BUCKETS.length && latency >= LATENCY_BUCKETS[index + 1].min) index++;
+    return index;
+  }
+
+  private static cellFor(cells: Map<string, ActivityCell>, key: string): ActivityCell {
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = emptyCell();
+      cells.set(key, cell);
+    }
+    return cell;
+  }
+}
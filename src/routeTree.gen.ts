@@ -13,35 +13,91 @@ import { createFileRoute } from '@tanstack/react-router'
 // Import Routes
 
 import { Route as rootRoute } from './routes/__root'
+import { Route as WorkspaceImport } from './routes/_workspace'
+import { Route as WorkspaceFeedbackImport } from './routes/_workspace.feedback'
+import { Route as WorkspaceForensicsImport } from './routes/_workspace.forensics'
+import { Route as WorkspaceStatsImport } from './routes/_workspace.stats'
+import { Route as WorkspaceTimelineImport } from './routes/_workspace.timeline'
+import { Route as WorkspaceWordsImport } from './routes/_workspace.words'
+import { Route as WorkspaceIndexImport } from './routes/_workspace.index'
+import { Route as WorkspaceCConversationIdImport } from './routes/_workspace.c.$conversationId'
+import { Route as WorkspaceCConversationIdMMessageIdImport } from './routes/_workspace.c.$conversationId.m.$messageId'
 
 // Create Virtual Routes
 
 const AboutLazyImport = createFileRoute('/about')()
-const IndexLazyImport = createFileRoute('/')()
 
 // Create/Update Routes
 
+const WorkspaceRoute = WorkspaceImport.update({
+  id: '/_workspace',
+  getParentRoute: () => rootRoute,
+} as any).lazy(() => import('./routes/_workspace.lazy').then((d) => d.Route))
+
 const AboutLazyRoute = AboutLazyImport.update({
   id: '/about',
   path: '/about',
   getParentRoute: () => rootRoute,
 } as any).lazy(() => import('./routes/about.lazy').then((d) => d.Route))
 
-const IndexLazyRoute = IndexLazyImport.update({
+const WorkspaceFeedbackRoute = WorkspaceFeedbackImport.update({
+  id: '/feedback',
+  path: '/feedback',
+  getParentRoute: () => WorkspaceRoute,
+} as any)
+
+const WorkspaceForensicsRoute = WorkspaceForensicsImport.update({
+  id: '/forensics',
+  path: '/forensics',
+  getParentRoute: () => WorkspaceRoute,
+} as any)
+
+const WorkspaceStatsRoute = WorkspaceStatsImport.update({
+  id: '/stats',
+  path: '/stats',
+  getParentRoute: () => WorkspaceRoute,
+} as any)
+
+const WorkspaceTimelineRoute = WorkspaceTimelineImport.update({
+  id: '/timeline',
+  path: '/timeline',
+  getParentRoute: () => WorkspaceRoute,
+} as any)
+
+const WorkspaceWordsRoute = WorkspaceWordsImport.update({
+  id: '/words',
+  path: '/words',
+  getParentRoute: () => WorkspaceRoute,
+} as any)
+
+const WorkspaceIndexRoute = WorkspaceIndexImport.update({
   id: '/',
   path: '/',
-  getParentRoute: () => rootRoute,
-} as any).lazy(() => import('./routes/index.lazy').then((d) => d.Route))
+  getParentRoute: () => WorkspaceRoute,
+} as any)
+
+const WorkspaceCConversationIdRoute = WorkspaceCConversationIdImport.update({
+  id: '/c/$conversationId',
+  path: '/c/$conversationId',
+  getParentRoute: () => WorkspaceRoute,
+} as any)
+
+const WorkspaceCConversationIdMMessageIdRoute =
+  WorkspaceCConversationIdMMessageIdImport.update({
+    id: '/m/$messageId',
+    path: '/m/$messageId',
+    getParentRoute: () => WorkspaceCConversationIdRoute,
+  } as any)
 
 // Populate the FileRoutesByPath interface
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
-    '/': {
-      id: '/'
-      path: '/'
-      fullPath: '/'
-      preLoaderRoute: typeof IndexLazyImport
+    '/_workspace': {
+      id: '/_workspace'
+      path: ''
+      fullPath: ''
+      preLoaderRoute: typeof WorkspaceImport
       parentRoute: typeof rootRoute
     }
     '/about': {
@@ -51,43 +107,191 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AboutLazyImport
       parentRoute: typeof rootRoute
     }
+    '/_workspace/': {
+      id: '/_workspace/'
+      path: '/'
+      fullPath: '/'
+      preLoaderRoute: typeof WorkspaceIndexImport
+      parentRoute: typeof WorkspaceImport
+    }
+    '/_workspace/feedback': {
+      id: '/_workspace/feedback'
+      path: '/feedback'
+      fullPath: '/feedback'
+      preLoaderRoute: typeof WorkspaceFeedbackImport
+      parentRoute: typeof WorkspaceImport
+    }
+    '/_workspace/forensics': {
+      id: '/_workspace/forensics'
+      path: '/forensics'
+      fullPath: '/forensics'
+      preLoaderRoute: typeof WorkspaceForensicsImport
+      parentRoute: typeof WorkspaceImport
+    }
+    '/_workspace/stats': {
+      id: '/_workspace/stats'
+      path: '/stats'
+      fullPath: '/stats'
+      preLoaderRoute: typeof WorkspaceStatsImport
+      parentRoute: typeof WorkspaceImport
+    }
+    '/_workspace/timeline': {
+      id: '/_workspace/timeline'
+      path: '/timeline'
+      fullPath: '/timeline'
+      preLoaderRoute: typeof WorkspaceTimelineImport
+      parentRoute: typeof WorkspaceImport
+    }
+    '/_workspace/words': {
+      id: '/_workspace/words'
+      path: '/words'
+      fullPath: '/words'
+      preLoaderRoute: typeof WorkspaceWordsImport
+      parentRoute: typeof WorkspaceImport
+    }
+    '/_workspace/c/$conversationId': {
+      id: '/_workspace/c/$conversationId'
+      path: '/c/$conversationId'
+      fullPath: '/c/$conversationId'
+      preLoaderRoute: typeof WorkspaceCConversationIdImport
+      parentRoute: typeof WorkspaceImport
+    }
+    '/_workspace/c/$conversationId/m/$messageId': {
+      id: '/_workspace/c/$conversationId/m/$messageId'
+      path: '/m/$messageId'
+      fullPath: '/c/$conversationId/m/$messageId'
+      preLoaderRoute: typeof WorkspaceCConversationIdMMessageIdImport
+      parentRoute: typeof WorkspaceCConversationIdImport
+    }
   }
 }
 
 // Create and export the route tree
 
+interface WorkspaceCConversationIdRouteChildren {
+  WorkspaceCConversationIdMMessageIdRoute: typeof WorkspaceCConversationIdMMessageIdRoute
+}
+
+const WorkspaceCConversationIdRouteChildren: WorkspaceCConversationIdRouteChildren =
+  {
+    WorkspaceCConversationIdMMessageIdRoute:
+      WorkspaceCConversationIdMMessageIdRoute,
+  }
+
+const WorkspaceCConversationIdRouteWithChildren =
+  WorkspaceCConversationIdRoute._addFileChildren(
+    WorkspaceCConversationIdRouteChildren,
+  )
+
+interface WorkspaceRouteChildren {
+  WorkspaceFeedbackRoute: typeof WorkspaceFeedbackRoute
+  WorkspaceForensicsRoute: typeof WorkspaceForensicsRoute
+  WorkspaceStatsRoute: typeof WorkspaceStatsRoute
+  WorkspaceTimelineRoute: typeof WorkspaceTimelineRoute
+  WorkspaceWordsRoute: typeof WorkspaceWordsRoute
+  WorkspaceIndexRoute: typeof WorkspaceIndexRoute
+  WorkspaceCConversationIdRoute: typeof WorkspaceCConversationIdRouteWithChildren
+}
+
+const WorkspaceRouteChildren: WorkspaceRouteChildren = {
+  WorkspaceFeedbackRoute: WorkspaceFeedbackRoute,
+  WorkspaceForensicsRoute: WorkspaceForensicsRoute,
+  WorkspaceStatsRoute: WorkspaceStatsRoute,
+  WorkspaceTimelineRoute: WorkspaceTimelineRoute,
+  WorkspaceWordsRoute: WorkspaceWordsRoute,
+  WorkspaceIndexRoute: WorkspaceIndexRoute,
+  WorkspaceCConversationIdRoute: WorkspaceCConversationIdRouteWithChildren,
+}
+
+const WorkspaceRouteWithChildren = WorkspaceRoute._addFileChildren(
+  WorkspaceRouteChildren,
+)
+
 export interface FileRoutesByFullPath {
-  '/': typeof IndexLazyRoute
+  '': typeof WorkspaceRouteWithChildren
   '/about': typeof AboutLazyRoute
+  '/feedback': typeof WorkspaceFeedbackRoute
+  '/forensics': typeof WorkspaceForensicsRoute
+  '/stats': typeof WorkspaceStatsRoute
+  '/timeline': typeof WorkspaceTimelineRoute
+  '/words': typeof WorkspaceWordsRoute
+  '/': typeof WorkspaceIndexRoute
+  '/c/$conversationId': typeof WorkspaceCConversationIdRouteWithChildren
+  '/c/$conversationId/m/$messageId': typeof WorkspaceCConversationIdMMessageIdRoute
 }
 
 export interface FileRoutesByTo {
-  '/': typeof IndexLazyRoute
   '/about': typeof AboutLazyRoute
+  '/feedback': typeof WorkspaceFeedbackRoute
+  '/forensics': typeof WorkspaceForensicsRoute
+  '/stats': typeof WorkspaceStatsRoute
+  '/timeline': typeof WorkspaceTimelineRoute
+  '/words': typeof WorkspaceWordsRoute
+  '/': typeof WorkspaceIndexRoute
+  '/c/$conversationId': typeof WorkspaceCConversationIdRouteWithChildren
+  '/c/$conversationId/m/$messageId': typeof WorkspaceCConversationIdMMessageIdRoute
 }
 
 export interface FileRoutesById {
   __root__: typeof rootRoute
-  '/': typeof IndexLazyRoute
+  '/_workspace': typeof WorkspaceRouteWithChildren
   '/about': typeof AboutLazyRoute
+  '/_workspace/feedback': typeof WorkspaceFeedbackRoute
+  '/_workspace/forensics': typeof WorkspaceForensicsRoute
+  '/_workspace/stats': typeof WorkspaceStatsRoute
+  '/_workspace/timeline': typeof WorkspaceTimelineRoute
+  '/_workspace/words': typeof WorkspaceWordsRoute
+  '/_workspace/': typeof WorkspaceIndexRoute
+  '/_workspace/c/$conversationId': typeof WorkspaceCConversationIdRouteWithChildren
+  '/_workspace/c/$conversationId/m/$messageId': typeof WorkspaceCConversationIdMMessageIdRoute
 }
 
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/about'
+  fullPaths:
+    | ''
+    | '/about'
+    | '/feedback'
+    | '/forensics'
+    | '/stats'
+    | '/timeline'
+    | '/words'
+    | '/'
+    | '/c/$conversationId'
+    | '/c/$conversationId/m/$messageId'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/about'
-  id: '__root__' | '/' | '/about'
+  to:
+    | '/about'
+    | '/feedback'
+    | '/forensics'
+    | '/stats'
+    | '/timeline'
+    | '/words'
+    | '/'
+    | '/c/$conversationId'
+    | '/c/$conversationId/m/$messageId'
+  id:
+    | '__root__'
+    | '/_workspace'
+    | '/about'
+    | '/_workspace/feedback'
+    | '/_workspace/forensics'
+    | '/_workspace/stats'
+    | '/_workspace/timeline'
+    | '/_workspace/words'
+    | '/_workspace/'
+    | '/_workspace/c/$conversationId'
+    | '/_workspace/c/$conversationId/m/$messageId'
   fileRoutesById: FileRoutesById
 }
 
 export interface RootRouteChildren {
-  IndexLazyRoute: typeof IndexLazyRoute
+  WorkspaceRoute: typeof WorkspaceRouteWithChildren
   AboutLazyRoute: typeof AboutLazyRoute
 }
 
 const rootRouteChildren: RootRouteChildren = {
-  IndexLazyRoute: IndexLazyRoute,
+  WorkspaceRoute: WorkspaceRouteWithChildren,
   AboutLazyRoute: AboutLazyRoute,
 }
 
@@ -101,15 +305,59 @@ export const routeTree = rootRoute
     "__root__": {
       "filePath": "__root.tsx",
       "children": [
-        "/",
+        "/_workspace",
         "/about"
       ]
     },
-    "/": {
-      "filePath": "index.lazy.tsx"
+    "/_workspace": {
+      "filePath": "_workspace.tsx",
+      "children": [
+        "/_workspace/feedback",
+        "/_workspace/forensics",
+        "/_workspace/stats",
+        "/_workspace/timeline",
+        "/_workspace/words",
+        "/_workspace/",
+        "/_workspace/c/$conversationId"
+      ]
     },
     "/about": {
       "filePath": "about.lazy.tsx"
+    },
+    "/_workspace/feedback": {
+      "filePath": "_workspace.feedback.tsx",
+      "parent": "/_workspace"
+    },
+    "/_workspace/forensics": {
+      "filePath": "_workspace.forensics.tsx",
+      "parent": "/_workspace"
+    },
+    "/_workspace/stats": {
+      "filePath": "_workspace.stats.tsx",
+      "parent": "/_workspace"
+    },
+    "/_workspace/timeline": {
+      "filePath": "_workspace.timeline.tsx",
+      "parent": "/_workspace"
+    },
+    "/_workspace/words": {
+      "filePath": "_workspace.words.tsx",
+      "parent": "/_workspace"
+    },
+    "/_workspace/": {
+      "filePath": "_workspace.index.tsx",
+      "parent": "/_workspace"
+    },
+    "/_workspace/c/$conversationId": {
+      "filePath": "_workspace.c.$conversationId.tsx",
+      "parent": "/_workspace",
+      "children": [
+        "/_workspace/c/$conversationId/m/$messageId"
+      ]
+    },
+    "/_workspace/c/$conversationId/m/$messageId": {
+      "filePath": "_workspace.c.$conversationId.m.$messageId.tsx",
+      "parent": "/_workspace/c/$conversationId"
     }
   }
 }
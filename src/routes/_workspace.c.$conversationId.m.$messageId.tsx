@@ -0,0 +1,4 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+// The workspace layout reads the message ID and scrolls the open conversation to it
+export const Route = createFileRoute('/_workspace/c/$conversationId/m/$messageId')({});
@@ -0,0 +1,4 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+// The workspace layout reads the conversation ID and opens that conversation
+export const Route = createFileRoute('/_workspace/c/$conversationId')({});
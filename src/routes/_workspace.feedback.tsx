@@ -0,0 +1,4 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+// The workspace layout renders every rated message in the loaded file for review
+export const Route = createFileRoute('/_workspace/feedback')({});
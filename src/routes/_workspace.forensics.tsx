@@ -0,0 +1,4 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+// The workspace layout renders the deleted and orphaned content found in the loaded file
+export const Route = createFileRoute('/_workspace/forensics')({});
@@ -0,0 +1,4 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+// The workspace layout renders the upload screen and conversation list
+export const Route = createFileRoute('/_workspace/')({});
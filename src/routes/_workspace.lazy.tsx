@@ -0,0 +1,532 @@
+import { createLazyFileRoute, useMatchRoute, useNavigate, useParams } from '@tanstack/react-router';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { FileUpload } from '@/components/file-upload';
+import { ConversationViewer, type SenderFilter } from '@/components/conversation-viewer';
+import { ConversationSidebar, type ConversationScope } from '@/components/conversation-sidebar';
+import { ArchiveMetadata } from '@/components/archive-metadata';
+import { LogViewer } from '@/components/log-viewer';
+import { JsonTree } from '@/components/json-tree';
+import { QueryConsole } from '@/components/query-console';
+import { GlobalSearch } from '@/components/global-search';
+import { TimelineDashboard } from '@/components/timeline-dashboard';
+import { StatsDashboard } from '@/components/stats-dashboard';
+import { WordFrequency } from '@/components/word-frequency';
+import { ForensicsView } from '@/components/forensics-view';
+import { FeedbackView } from '@/components/feedback-view';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Upload, TerminalSquare, Loader2 } from 'lucide-react';
+import { DataParser } from '@/lib/parser';
+import { ClaudeCodeSessions } from '@/lib/claude-code';
+import { ApiLogs } from '@/lib/api-logs';
+import { CloudWatchLogs } from '@/lib/cloudwatch';
+import { Timeline } from '@/lib/timeline';
+import { CorpusStats } from '@/lib/corpus-stats';
+import { Forensics } from '@/lib/forensics';
+import { Feedback } from '@/lib/feedback';
+import { SearchQuery } from '@/lib/search-query';
+import type { 
+  ParsedData, 
+  ClaudeConversation, 
+  ClaudeConversations, 
+  ChatGPTConversation, 
+  ChatGPTConversations,
+  ClaudeCodeEvent
+} from '@/types/data';
+import type { WorkspaceSearch } from './_workspace';
+
+export const Route = createLazyFileRoute('/_workspace')({
+  component: Workspace,
+});
+
+/**
+ * Layout for `/`, `/c/$conversationId` and `/c/$conversationId/m/$messageId`. The loaded
+ * file lives here so it survives navigation; the open conversation, the focused message
+ * and the search boxes come from the URL, which makes them reloadable, shareable and
+ * reachable with the browser's back and forward buttons.
+ */
+function Workspace() {
+  const navigate = useNavigate();
+  const search = Route.useSearch();
+  const { conversationId, messageId } = useParams({ strict: false });
+  const matchRoute = useMatchRoute();
+  const showTimeline = !!matchRoute({ to: '/timeline' });
+  const showStats = !!matchRoute({ to: '/stats' });
+  const showWords = !!matchRoute({ to: '/words' });
+  const showForensics = !!matchRoute({ to: '/forensics' });
+  const showFeedback = !!matchRoute({ to: '/feedback' });
+  const [parsedData, setParsedData] = useState<ParsedData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [conversationType, setConversationType] = useState<'claude' | 'chatgpt' | null>(null);
+  const [showQueryConsole, setShowQueryConsole] = useState(false);
+  const [showGlobalSearch, setShowGlobalSearch] = useState(false);
+  const [globalSearchPreset, setGlobalSearchPreset] = useState<{ query: string } | null>(null);
+  // Set while a conversation array is still streaming in from the parse worker
+  const cancelStreamingRef = useRef<(() => void) | null>(null);
+
+  const focusTarget = useMemo(() => (messageId ? { messageId } : null), [messageId]);
+
+  // Moving to another conversation, including with back/forward, leaves global search
+  useEffect(() => {
+    setShowGlobalSearch(false);
+  }, [conversationId, messageId]);
+
+  // Search boxes rewrite the current history entry instead of adding one per keystroke
+  const updateSearch = (changes: Partial<WorkspaceSearch>) => {
+    navigate({ to: '.', search: (prev: WorkspaceSearch) => ({ ...prev, ...changes }), replace: true });
+  };
+
+  // A session log is a flat event stream; group it once per loaded file
+  const claudeCodeSessions = useMemo(() => (
+    parsedData?.type === 'claude-code-session'
+      ? ClaudeCodeSessions.groupSessions(parsedData.raw as ClaudeCodeEvent[])
+      : []
+  ), [parsedData]);
+
+  const apiConversations = useMemo(() => (
+    parsedData?.type === 'api-log' ? ApiLogs.toConversations(parsedData.raw) : []
+  ), [parsedData]);
+
+  // Every conversation format shares the two-pane layout; a file that fails validation
+  // reports why in place of it
+  const conversationList = useMemo((): { conversations?: ClaudeConversations | ChatGPTConversations; error?: string } => {
+    if (parsedData?.type === 'claude-conversation') {
+      try {
+        const conversationData = DataParser.validateClaudeConversation(parsedData.raw);
+        return { conversations: Array.isArray(conversationData) ? conversationData : [conversationData] };
+      } catch (validationError) {
+        return { error: `Failed to validate Claude conversation format: ${validationError instanceof Error ? validationError.message : 'Unknown error'}` };
+      }
+    }
+
+    if (parsedData?.type === 'chatgpt-conversation') {
+      try {
+        const conversationData = DataParser.validateChatGPTConversation(parsedData.raw);
+        return { conversations: Array.isArray(conversationData) ? conversationData : [conversationData] };
+      } catch (validationError) {
+        return { error: `Failed to validate ChatGPT conversation format: ${validationError instanceof Error ? validationError.message : 'Unknown error'}` };
+      }
+    }
+
+    if (parsedData?.type === 'claude-code-session') return { conversations: claudeCodeSessions };
+    if (parsedData?.type === 'api-log') return { conversations: apiConversations };
+    return {};
+  }, [parsedData, claudeCodeSessions, apiConversations]);
+
+  // Built for the dashboard, and for the sidebar while a dashboard cell filters it
+  const needsTimeline = showTimeline || !!search.activity;
+  const timelineStats = useMemo(() => (
+    needsTimeline && conversationList.conversations
+      ? Timeline.build(conversationList.conversations)
+      : null
+  ), [needsTimeline, conversationList]);
+
+  const needsStats = showStats || !!search.breakdown;
+  const corpusSummary = useMemo(() => (
+    needsStats && conversationList.conversations
+      ? CorpusStats.build(conversationList.conversations)
+      : null
+  ), [needsStats, conversationList]);
+
+  // Picking a cell in one dashboard clears the other's, so at most one of them is set
+  const conversationScope = useMemo((): ConversationScope | null => {
+    const activity = timelineStats && search.activity ? Timeline.slice(timelineStats, search.activity) : null;
+    if (activity) return { label: activity.label, conversationIds: activity.cell.conversationIds };
+
+    const breakdown = corpusSummary && search.breakdown ? CorpusStats.slice(corpusSummary, search.breakdown) : null;
+    return breakdown
+      ? { label: breakdown.label, conversationIds: breakdown.cell.conversationIds, showDeleted: search.breakdown === 'deleted:yes' }
+      : null;
+  }, [timelineStats, search.activity, corpusSummary, search.breakdown]);
+
+  // Word frequencies cover the conversations the sidebar search and dashboard filter leave
+  const wordSelection = useMemo(() => {
+    if (!showWords || !conversationList.conversations) return null;
+
+    let node = null;
+    try {
+      node = SearchQuery.parse(search.q ?? '');
+    } catch {
+      // The sidebar reports the syntax error; analyze everything meanwhile
+    }
+    const conversations = (conversationList.conversations as (ClaudeConversation | ChatGPTConversation)[])
+      .filter(conversation => !conversationScope || conversationScope.conversationIds.has(DataParser.getConversationId(conversation)))
+      .filter(conversation => SearchQuery.matchesConversation(node, conversation));
+
+    const filters = [conversationScope?.label, node && `matching "${search.q}"`].filter(Boolean).join(', ');
+    return {
+      conversations,
+      label: `${conversations.length.toLocaleString()} conversation${conversations.length !== 1 ? 's' : ''}${filters ? ` (${filters})` : ''}`
+    };
+  }, [showWords, conversationList, conversationScope, search.q]);
+
+  const forensicFindings = useMemo(() => (
+    showForensics && conversationList.conversations
+      ? Forensics.scan(conversationList.conversations)
+      : null
+  ), [showForensics, conversationList]);
+
+  const feedbackEntries = useMemo(() => (
+    showFeedback && conversationList.conversations
+      ? Feedback.collect(conversationList.conversations)
+      : null
+  ), [showFeedback, conversationList]);
+
+  const logRecords = useMemo(() => (
+    parsedData?.type === 'cloudwatch-logs' ? CloudWatchLogs.toRecords(parsedData.raw) : []
+  ), [parsedData]);
+
+  // Check for CLI-provided file
+  useEffect(() => {
+    const checkCliFile = async () => {
+      // Check if file is provided via CLI
+      if (search.file === 'cli-provided') {
+        try {
+          // Fetch file from CLI server
+          const response = await fetch('/api/file');
+          if (!response.ok) {
+            throw new Error(`Failed to load file: ${response.statusText}`);
+          }
+          
+          const data = await response.json();
+          const fileContent = data.content;
+          const fileName = data.filename || 'CLI-provided file';
+          const lastModified = data.lastModified ? new Date(data.lastModified) : new Date();
+
+          // ZIP archives are sent base64-encoded
+          if (data.encoding === 'base64') {
+            const bytes = Uint8Array.from(atob(fileContent), char => char.charCodeAt(0));
+            handleDataLoaded(DataParser.parseArchive(bytes, fileName, bytes.length, lastModified));
+            return;
+          }
+          
+          // Parse the file content
+          const uploadResult = {
+            filename: fileName,
+            content: fileContent,
+            type: DataParser.determineFileType(fileName, fileContent),
+            size: data.size ?? fileContent.length,
+            lastModified
+          };
+          const result = DataParser.parseData(uploadResult);
+          
+          handleDataLoaded(result);
+        } catch (err) {
+          handleError(`Failed to load CLI file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+      }
+    };
+
+    checkCliFile();
+  }, []);
+
+  const handleDataLoaded = (data: ParsedData) => {
+    setError(null);
+    setParsedData(data);
+    cancelStreamingRef.current = null;
+    setConversationType(
+      data.type === 'claude-conversation' || data.type === 'claude-code-session' || data.type === 'api-log' ? 'claude'
+        : data.type === 'chatgpt-conversation' ? 'chatgpt'
+        : null
+    );
+  };
+
+  const handlePartialData = (data: ParsedData, cancel: () => void) => {
+    cancelStreamingRef.current = cancel;
+    setError(null);
+    setParsedData(data);
+    setConversationType(data.type === 'chatgpt-conversation' ? 'chatgpt' : 'claude');
+  };
+
+  const handleError = (errorMessage: string) => {
+    cancelStreamingRef.current = null;
+    setError(errorMessage);
+    setParsedData(null);
+    setConversationType(null);
+  };
+
+  const handleReset = () => {
+    cancelStreamingRef.current?.();
+    cancelStreamingRef.current = null;
+    setParsedData(null);
+    setError(null);
+    setConversationType(null);
+    setShowQueryConsole(false);
+    setShowGlobalSearch(false);
+    navigate({ to: '/', search: {} });
+  };
+
+  const handleViewerFiltersChange = (changes: { searchQuery?: string; filterSender?: SenderFilter }) => {
+    updateSearch({
+      ...('searchQuery' in changes && { mq: changes.searchQuery || undefined }),
+      ...('filterSender' in changes && { sender: changes.filterSender === 'all' ? undefined : changes.filterSender })
+    });
+  };
+
+  // Each opened conversation is a history entry; the search params carry over
+  const handleSelectConversation = (conversation: ClaudeConversation | ChatGPTConversation) => {
+    setShowGlobalSearch(false);
+    navigate({ to: '/c/$conversationId', params: { conversationId: DataParser.getConversationId(conversation) }, search: true });
+  };
+
+  const handleOpenMessage = (targetConversationId: string, targetMessageId: string) => {
+    setShowGlobalSearch(false);
+    navigate({
+      to: '/c/$conversationId/m/$messageId',
+      params: { conversationId: targetConversationId, messageId: targetMessageId },
+      search: true
+    });
+  };
+
+  // Two-pane layout shared by every conversation format
+  const renderConversationPanes = (conversations: ClaudeConversations | ChatGPTConversations, filename: string) => {
+    // While a file is still streaming in, a linked conversation shows up once it arrives
+    const selectedConversation = conversationId
+      ? (conversations as (ClaudeConversation | ChatGPTConversation)[])
+        .find(conversation => DataParser.getConversationId(conversation) === conversationId) ?? null
+      : null;
+
+    return (
+      <div className="flex h-full">
+        {/* Left Sidebar */}
+        <div className="w-80 flex-shrink-0">
+          <ConversationSidebar
+            conversations={conversations}
+            selectedConversation={selectedConversation}
+            onSelectConversation={handleSelectConversation}
+            onReset={handleReset}
+            onOpenGlobalSearch={() => setShowGlobalSearch(true)}
+            onOpenTimeline={() => navigate({ to: '/timeline', search: true })}
+            onOpenStats={() => navigate({ to: '/stats', search: true })}
+            onOpenWords={() => navigate({ to: '/words', search: true })}
+            onOpenForensics={() => navigate({ to: '/forensics', search: true })}
+            onOpenFeedback={parsedData?.type === 'claude-conversation' ? () => navigate({ to: '/feedback', search: true }) : undefined}
+            searchQuery={search.q ?? ''}
+            onSearchQueryChange={(q) => updateSearch({ q: q || undefined })}
+            scope={conversationScope}
+            onClearScope={() => updateSearch({ activity: undefined, breakdown: undefined })}
+          />
+        </div>
+        
+        {/* Right Content Area */}
+        <div className="flex-1 overflow-hidden">
+          {/* Kept mounted while hidden so the index keeps building and the query survives */}
+          <div className={showGlobalSearch ? 'h-full' : 'hidden'}>
+            <GlobalSearch
+              conversations={conversations}
+              onOpenMessage={handleOpenMessage}
+              onClose={() => setShowGlobalSearch(false)}
+              presetQuery={globalSearchPreset}
+            />
+          </div>
+          {showGlobalSearch ? null : showTimeline && timelineStats ? (
+            <TimelineDashboard
+              stats={timelineStats}
+              activeSlice={search.activity ?? null}
+              onSelectSlice={(activity) => updateSearch({ activity: activity ?? undefined, breakdown: undefined })}
+              onClose={() => navigate({ to: '/', search: true })}
+            />
+          ) : showStats && corpusSummary ? (
+            <StatsDashboard
+              summary={corpusSummary}
+              filename={filename}
+              activeSlice={search.breakdown ?? null}
+              onSelectSlice={(breakdown) => updateSearch({ breakdown: breakdown ?? undefined, activity: undefined })}
+              onOpenConversation={(id) => navigate({ to: '/c/$conversationId', params: { conversationId: id }, search: true })}
+              onClose={() => navigate({ to: '/', search: true })}
+            />
+          ) : showWords && wordSelection ? (
+            <WordFrequency
+              conversations={wordSelection.conversations}
+              selectionLabel={wordSelection.label}
+              onSearchTerm={(term) => {
+                setGlobalSearchPreset({ query: term });
+                setShowGlobalSearch(true);
+              }}
+              onClose={() => navigate({ to: '/', search: true })}
+            />
+          ) : showForensics && forensicFindings ? (
+            <ForensicsView
+              findings={forensicFindings}
+              conversationCount={conversations.length}
+              onOpenConversation={(id) => navigate({ to: '/c/$conversationId', params: { conversationId: id }, search: true })}
+              onOpenMessage={handleOpenMessage}
+              onClose={() => navigate({ to: '/', search: true })}
+            />
+          ) : showFeedback && feedbackEntries ? (
+            <FeedbackView
+              entries={feedbackEntries}
+              filename={filename}
+              onOpenMessage={handleOpenMessage}
+              onClose={() => navigate({ to: '/', search: true })}
+            />
+          ) : selectedConversation && conversationType ? (
+            <ConversationViewer 
+              conversation={selectedConversation} 
+              conversationType={conversationType}
+              focusMessage={focusTarget}
+              searchQuery={search.mq ?? ''}
+              filterSender={search.sender ?? 'all'}
+              onFiltersChange={handleViewerFiltersChange}
+            />
+          ) : (
+            <div className="flex items-center justify-center h-full text-muted-foreground">
+              <div className="text-center">
+                <div className="text-6xl mb-4">💬</div>
+                <h3 className="text-lg font-medium mb-2">Select a Conversation</h3>
+                <p className="text-sm">
+                  Choose a conversation from the sidebar to view its details and messages.
+                </p>
+                <div className="mt-4 text-xs">
+                  {conversations.length} conversation{conversations.length !== 1 ? 's' : ''} loaded from {filename}
+                </div>
+                {conversationId && !parsedData?.metadata.streaming && (
+                  <div className="mt-2 text-xs text-orange-600">
+                    Conversation "{conversationId}" was not found in this file.
+                  </div>
+                )}
+                {parsedData?.metadata.archive && (
+                  <div className="mt-6 max-w-md mx-auto">
+                    <ArchiveMetadata archive={parsedData.metadata.archive} />
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (error) {
+      return (
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Alert className="max-w-md">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        </div>
+      );
+    }
+
+    if (!parsedData) {
+      return (
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <div className="w-full max-w-2xl">
+            <div className="text-center mb-8">
+              <Upload className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h2 className="text-2xl font-semibold mb-2">Upload Conversation Data</h2>
+              <p className="text-muted-foreground">
+                Upload your Claude or ChatGPT conversation logs to get started with analysis.
+              </p>
+            </div>
+            <FileUpload
+              onDataLoaded={handleDataLoaded}
+              onError={handleError}
+              onPartialData={handlePartialData}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    if (conversationList.error) {
+      return (
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Alert className="max-w-md">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{conversationList.error}</AlertDescription>
+          </Alert>
+        </div>
+      );
+    }
+
+    if (conversationList.conversations) {
+      return renderConversationPanes(conversationList.conversations, parsedData.metadata.filename);
+    }
+
+    if (parsedData.type === 'cloudwatch-logs') {
+      return <LogViewer records={logRecords} filename={parsedData.metadata.filename} onReset={handleReset} />;
+    }
+
+    if (parsedData.type === 'generic-json' || parsedData.type === 'generic-yaml') {
+      return (
+        <JsonTree
+          data={parsedData.raw}
+          filename={parsedData.metadata.filename}
+          format={parsedData.type === 'generic-yaml' ? 'yaml' : 'json'}
+          onReset={handleReset}
+        />
+      );
+    }
+
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Alert className="max-w-md">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Data type "{parsedData.type}" is not yet supported. Currently conversation logs, API logs, CloudWatch logs and generic JSON/YAML data are supported.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  };
+
+  const streaming = parsedData?.metadata.streaming;
+  const streamingPercent = streaming ? Math.round((streaming.loaded / Math.max(streaming.total, 1)) * 100) : 0;
+
+  return (
+    <div className="h-screen flex flex-col">
+      {!parsedData && (
+        <div className="p-6 border-b">
+          <h1 className="text-3xl font-bold tracking-tight">SkimaLens</h1>
+          <p className="text-muted-foreground mt-2">
+            Data visualization tool for JSON and YAML files. Upload your Claude conversation logs to get started.
+          </p>
+        </div>
+      )}
+      
+      {streaming && (
+        <div className="flex items-center gap-3 border-b px-4 py-1.5 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          <span>
+            Loading conversations… {(parsedData.metadata.recordCount ?? 0).toLocaleString()} loaded ({streamingPercent}%)
+          </span>
+          <div className="h-1 flex-1 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-[width]"
+              style={{ width: `${streamingPercent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-hidden">
+        {renderContent()}
+      </div>
+
+      {parsedData && (
+        showQueryConsole ? (
+          <div className="h-[45vh] flex-shrink-0 border-t">
+            <QueryConsole
+              data={parsedData.raw}
+              filename={parsedData.metadata.filename}
+              onClose={() => setShowQueryConsole(false)}
+            />
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="fixed bottom-4 right-4 shadow-md"
+            onClick={() => setShowQueryConsole(true)}
+          >
+            <TerminalSquare className="h-4 w-4 mr-1" />
+            Query
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+// The workspace layout renders the timeline dashboard for the loaded conversations
+export const Route = createFileRoute('/_workspace/timeline')({});
@@ -0,0 +1,32 @@
+import { createFileRoute } from '@tanstack/react-router';
+import type { SenderFilter } from '@/components/conversation-viewer';
+
+// Search params shared by every workspace URL, so a reload or shared link restores the view
+export interface WorkspaceSearch {
+  // Set by the CLI server: load the file it was started with
+  file?: 'cli-provided';
+  // Conversation list search
+  q?: string;
+  // Message search inside the open conversation
+  mq?: string;
+  sender?: Exclude<SenderFilter, 'all'>;
+  // Timeline cell limiting the conversation list, e.g. day:2024-03-05 (see Timeline.slice)
+  activity?: string;
+  // Statistics dashboard row limiting the conversation list, e.g. sender:tool (see CorpusStats.slice)
+  breakdown?: string;
+}
+
+const SENDER_FILTERS: readonly string[] = ['human', 'assistant', 'tool'];
+
+export const Route = createFileRoute('/_workspace')({
+  validateSearch: (search: Record<string, unknown>): WorkspaceSearch => ({
+    file: search.file === 'cli-provided' ? 'cli-provided' : undefined,
+    q: typeof search.q === 'string' && search.q ? search.q : undefined,
+    mq: typeof search.mq === 'string' && search.mq ? search.mq : undefined,
+    sender: typeof search.sender === 'string' && SENDER_FILTERS.includes(search.sender)
+      ? search.sender as WorkspaceSearch['sender']
+      : undefined,
+    activity: typeof search.activity === 'string' && search.activity ? search.activity : undefined,
+    breakdown: typeof search.breakdown === 'string' && search.breakdown ? search.breakdown : undefined
+  }),
+});
@@ -0,0 +1,4 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+// The workspace layout renders word frequencies for the conversations listed in the sidebar
+export const Route = createFileRoute('/_workspace/words')({});
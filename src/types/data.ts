@@ -1,7 +1,7 @@
 export interface FileUploadResult {
   filename: string;
   content: string;
-  type: 'json' | 'yaml';
+  type: 'json' | 'yaml' | 'jsonl';
   size: number;
   lastModified: Date;
 }
@@ -18,11 +18,63 @@ export interface DataMetadata {
   parseTime: Date;
   recordCount?: number;
   estimatedType: DataType;
+  archive?: ArchiveMetadata;
+  // Present while a streamed top-level array is still being read
+  streaming?: ParseProgress;
+}
+
+// Messages exchanged with the background parse worker
+export interface ParseProgress {
+  phase: 'reading' | 'parsing';
+  loaded: number;
+  total: number;
+}
+
+export type UploadFormat = FileUploadResult['type'] | 'zip';
+
+export interface ParseWorkerRequest {
+  type: 'parse';
+  file: File;
+}
+
+export type ParseWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'items'; items: unknown[]; dataType: DataType; progress: ParseProgress }
+  | { type: 'done'; data: ParsedData; format: UploadFormat }
+  // Streamed results arrive through 'items'; the end carries what the client needs to wrap the items it kept
+  | { type: 'stream-end'; format: UploadFormat; dataType: DataType; recordCount: number }
+  | { type: 'error'; message: string };
+
+// ZIP export archive types
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+}
+
+export interface ArchiveExtra {
+  filename: string;
+  label: string;
+  data: unknown;
+  recordCount?: number;
+}
+
+export interface ArchiveContents {
+  entries: ArchiveEntry[];
+  conversationFiles: FileUploadResult[];
+  extras: ArchiveExtra[];
+}
+
+export interface ArchiveMetadata {
+  entries: ArchiveEntry[];
+  conversationFiles: string[];
+  extras: ArchiveExtra[];
 }
 
 export type DataType = 
   | 'claude-conversation'
   | 'chatgpt-conversation'
+  | 'claude-code-session'
+  | 'api-log'
   | 'cloudwatch-logs'
   | 'generic-json'
   | 'generic-yaml'
@@ -54,12 +106,33 @@ export interface ClaudeChatMessage {
 export interface MessageContent {
   start_timestamp: string;
   stop_timestamp: string;
-  type: 'text' | 'thinking';
+  type: 'text' | 'thinking' | 'tool_use' | 'tool_result';
   text?: string;
   thinking?: string;
   summaries?: { summary: string }[];
   cut_off?: boolean;
-  citations?: unknown[];
+  citations?: MessageCitation[];
+  // tool_use
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  // tool_result
+  tool_use_id?: string;
+  content?: string | { type: string; text?: string }[];
+  is_error?: boolean;
+}
+
+export interface MessageCitation {
+  uuid?: string;
+  start_index?: number;
+  end_index?: number;
+  url?: string;
+  title?: string;
+  details?: {
+    type?: string;
+    url?: string;
+    title?: string;
+  };
 }
 
 export interface MessageFile {
@@ -108,16 +181,13 @@ export interface ChatGPTMappingNode {
 export interface ChatGPTMessage {
   id: string;
   author: {
-    role: 'user' | 'assistant' | 'system';
+    role: 'user' | 'assistant' | 'system' | 'tool';
     name?: string;
     metadata?: Record<string, unknown>;
   };
   create_time: number | null;
   update_time?: number | null;
-  content?: {
-    content_type: 'text';
-    parts: (string | null | undefined)[];
-  };
+  content?: ChatGPTMessageContent;
   status: string;
   end_turn?: boolean | null;
   weight: number;
@@ -125,8 +195,281 @@ export interface ChatGPTMessage {
   recipient: string;
 }
 
+export interface ChatGPTTextContent {
+  content_type: 'text';
+  parts: (string | null | undefined)[];
+}
+
+export interface ChatGPTCodeContent {
+  content_type: 'code';
+  language: string;
+  text: string;
+  response_format_name?: string | null;
+}
+
+export interface ChatGPTExecutionOutputContent {
+  content_type: 'execution_output';
+  text: string;
+}
+
+export interface ChatGPTImageAssetPointer {
+  content_type: 'image_asset_pointer';
+  asset_pointer: string;
+  size_bytes?: number;
+  width?: number;
+  height?: number;
+  metadata?: Record<string, unknown> | null;
+}
+
+export interface ChatGPTMultimodalTextContent {
+  content_type: 'multimodal_text';
+  parts: (string | ChatGPTImageAssetPointer | Record<string, unknown>)[];
+}
+
+export interface ChatGPTTetherBrowsingDisplayContent {
+  content_type: 'tether_browsing_display';
+  result: string;
+  summary?: string | null;
+  assets?: unknown[] | null;
+  tether_id?: string | null;
+}
+
+export interface ChatGPTTetherQuoteContent {
+  content_type: 'tether_quote';
+  url: string;
+  domain: string;
+  text: string;
+  title: string;
+  tether_id?: string | null;
+}
+
+export interface ChatGPTUserEditableContextContent {
+  content_type: 'user_editable_context';
+  user_profile?: string;
+  user_instructions?: string;
+}
+
+export interface ChatGPTSystemErrorContent {
+  content_type: 'system_error';
+  name: string;
+  text: string;
+}
+
+// Claude Code session transcripts (~/.claude/projects/**/*.jsonl), one event per line
+export interface ClaudeCodeEvent {
+  type: string;
+  uuid?: string;
+  parentUuid?: string | null;
+  sessionId?: string;
+  timestamp?: string;
+  cwd?: string;
+  gitBranch?: string;
+  version?: string;
+  isSidechain?: boolean;
+  summary?: string;
+  leafUuid?: string;
+  message?: {
+    id?: string;
+    role: 'user' | 'assistant';
+    model?: string;
+    content: string | ClaudeCodeContentBlock[];
+    usage?: Record<string, unknown>;
+  };
+  toolUseResult?: unknown;
+}
+
+export interface ClaudeCodeContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string | { type: string; text?: string }[];
+  is_error?: boolean;
+}
+
+// A session mapped onto the Claude conversation shape so the existing viewer can render it
+export interface ClaudeCodeSession extends ClaudeConversation {
+  session_metadata: {
+    sessionId: string;
+    cwd?: string;
+    gitBranch?: string;
+    version?: string;
+    models: string[];
+    eventCount: number;
+  };
+}
+
+// Anthropic Messages API and OpenAI Chat Completions payloads as written by service logs
+export type ApiProvider = 'anthropic' | 'openai';
+
+export interface ApiContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string | ApiContentBlock[];
+  is_error?: boolean;
+  image_url?: { url: string };
+}
+
+export interface ApiToolCall {
+  id: string;
+  type: string;
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface ApiRequestMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content: string | ApiContentBlock[] | null;
+  name?: string;
+  tool_calls?: ApiToolCall[];
+  tool_call_id?: string;
+}
+
+export interface ApiRequest {
+  model?: string;
+  system?: string | ApiContentBlock[];
+  messages: ApiRequestMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  tools?: unknown[];
+}
+
+export interface AnthropicMessageResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: ApiContentBlock[];
+  stop_reason: string | null;
+  usage?: Record<string, number>;
+}
+
+export interface OpenAIChatCompletionResponse {
+  id: string;
+  object?: string;
+  created?: number;
+  model: string;
+  choices: {
+    index: number;
+    message: ApiRequestMessage;
+    finish_reason: string | null;
+  }[];
+  usage?: Record<string, number>;
+}
+
+export type ApiResponse = AnthropicMessageResponse | OpenAIChatCompletionResponse;
+
+// One log line: a bare request, a bare response, or both under request/response keys
+export interface ApiLogEntry {
+  id?: string;
+  timestamp?: string | number;
+  request?: ApiRequest;
+  response?: ApiResponse;
+}
+
+export interface ApiUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  total_tokens?: number;
+}
+
+// An API call mapped onto the Claude conversation shape so the existing viewer can render it
+export interface ApiConversation extends ClaudeConversation {
+  api_metadata: {
+    provider: ApiProvider;
+    model?: string;
+    system?: string;
+    usage?: ApiUsage;
+    stop_reason?: string;
+  };
+}
+
+// `aws logs filter-log-events` output
+export interface CloudWatchLogEvent {
+  timestamp: number;
+  message: string;
+  logStreamName?: string;
+  ingestionTime?: number;
+  eventId?: string;
+}
+
+export interface CloudWatchFilterLogEventsOutput {
+  events: CloudWatchLogEvent[];
+  searchedLogStreams?: { logStreamName: string; searchedCompletely: boolean }[];
+  nextToken?: string;
+}
+
+// `aws logs get-query-results` output: each row is a list of field/value pairs
+export interface CloudWatchInsightsField {
+  field: string;
+  value: string;
+}
+
+export interface CloudWatchInsightsQueryResults {
+  results: CloudWatchInsightsField[][];
+  status?: string;
+  statistics?: Record<string, number>;
+}
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug' | 'trace' | 'unknown';
+
+// One log line normalized from either CloudWatch output format
+export interface LogRecord {
+  id: string;
+  timestamp: number;
+  message: string;
+  stream?: string;
+  group?: string;
+  level: LogLevel;
+  json?: unknown;
+  fields: Record<string, string>;
+}
+
+export type ChatGPTMessageContent =
+  | ChatGPTTextContent
+  | ChatGPTCodeContent
+  | ChatGPTExecutionOutputContent
+  | ChatGPTMultimodalTextContent
+  | ChatGPTTetherBrowsingDisplayContent
+  | ChatGPTTetherQuoteContent
+  | ChatGPTUserEditableContextContent
+  | ChatGPTSystemErrorContent;
+
 export type ChatGPTConversations = ChatGPTConversation[];
 
+// A message on the canonical path, with the alternatives that share its parent
+export interface ChatGPTThreadMessage {
+  nodeId: string;
+  message: ChatGPTMessage;
+  siblingIds: string[];
+  siblingIndex: number;
+}
+
+// Who wrote a message, with tool traffic split out from the user and assistant turns
+export type MessageSender = 'human' | 'assistant' | 'tool' | 'system';
+
+// A readable piece of a message: its body, a thinking block or an attachment's extracted text
+export interface MessageTextPart {
+  field: 'message' | 'thinking' | 'attachment';
+  // Attachment file name for attachment parts
+  label?: string;
+  text: string;
+}
+
+export type MessageRenderMode = 'markdown' | 'raw';
+
 export interface ConversationView {
   conversation: ClaudeConversation;
   filteredMessages: ClaudeChatMessage[];